@@ -1,7 +1,13 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native SQLite driver: loaded from node_modules rather than bundled
+  serverExternalPackages: ["better-sqlite3-multiple-ciphers"],
+  experimental: {
+    // The sign-in proxy runs for uploads and restores too; past this size
+    // Next.js would hand the route a silently truncated body
+    proxyClientMaxBodySize: "2gb",
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyLogin } from '@/lib/data/users';
+import { createSession, setSessionCookie } from '@/lib/auth/sessions';
+import { isBusyError } from '@/lib/db';
+
+export async function POST(request: NextRequest) {
+  let name: unknown;
+  let password: unknown;
+  try {
+    ({ name, password } = await request.json());
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof name !== 'string' || typeof password !== 'string') {
+    return NextResponse.json(
+      { error: 'name and password are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = verifyLogin(name, password);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Incorrect profile name or password' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, request, await createSession(user.id));
+    return response;
+  } catch (error) {
+    if (isBusyError(error)) {
+      return NextResponse.json(
+        { error: 'An import is running; try signing in again once it has finished' },
+        { status: 503 }
+      );
+    }
+    console.error('Sign-in error:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSession, sessionToken, clearSessionCookie } from '@/lib/auth/sessions';
+import { isBusyError } from '@/lib/db';
+
+export async function POST(request: NextRequest) {
+  try {
+    await deleteSession(sessionToken(request));
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    if (isBusyError(error)) {
+      return NextResponse.json(
+        { error: 'An import is running; try signing out again once it has finished' },
+        { status: 503 }
+      );
+    }
+    console.error('Sign-out error:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { currentUserId, checkPassword, setPassword } from '@/lib/data/users';
+import { deleteOtherSessions, sessionToken } from '@/lib/auth/sessions';
+
+// Change the signed-in profile's password. Its other sessions are signed out.
+export async function PUT(request: NextRequest) {
+  let currentPassword: unknown;
+  let newPassword: unknown;
+  try {
+    ({ currentPassword, newPassword } = await request.json());
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const userId = currentUserId(request);
+    if (typeof currentPassword !== 'string' || !checkPassword(userId, currentPassword)) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 403 }
+      );
+    }
+
+    try {
+      setPassword(userId, newPassword as string);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid password' },
+        { status: 400 }
+      );
+    }
+
+    deleteOtherSessions(userId, sessionToken(request));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to change password:', error);
+    return NextResponse.json(
+      { error: 'Failed to change password' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser, isSetupRequired } from '@/lib/data/users';
+import { getSessionUserId, sessionToken } from '@/lib/auth/sessions';
+
+// The signed-in profile, or null; setupRequired while no profile has a
+// password yet
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getSessionUserId(sessionToken(request));
+    return NextResponse.json({
+      user: userId === null ? null : getUser(userId),
+      setupRequired: isSetupRequired()
+    });
+  } catch (error) {
+    console.error('Session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch session' },
+      { status: 500 }
+    );
+  }
+}
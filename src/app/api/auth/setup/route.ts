@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/db';
+import { isSetupRequired, renameUser, setPassword } from '@/lib/data/users';
+import { createSession, setSessionCookie } from '@/lib/auth/sessions';
+
+// First run: name the owner, the first profile (which holds any data stored
+// before sign-in existed), give it a password and sign in
+export async function POST(request: NextRequest) {
+  let name: unknown;
+  let password: unknown;
+  try {
+    ({ name, password } = await request.json());
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  const db = getDatabase();
+  try {
+    const user = db.transaction(() => {
+      if (!isSetupRequired()) return null;
+      const id = db.prepare(`SELECT id FROM users WHERE is_owner = 1`).pluck().get() as number;
+      setPassword(id, password as string);
+      return renameUser(id, name as string);
+    }).immediate();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Setup has already been completed; sign in instead' },
+        { status: 409 }
+      );
+    }
+
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, request, await createSession(user.id));
+    return response;
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid profile' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { restoreBackup, RestoreMode } from '@/lib/db/backup';
+import { checkPassword, currentUserId, isOwner } from '@/lib/data/users';
+import { clearSessionCookie } from '@/lib/auth/sessions';
+
+const RESTORE_MODES: RestoreMode[] = ['replace', 'merge'];
+
+// Restore a backup archive, sent as the request body (application/zip) and
+// unzipped as it arrives, with ?mode= and the owner's password, URI-encoded,
+// in the X-Password header. Owner only, and takes the password, as a restore changes
+// every profile's data.
+export async function POST(request: NextRequest) {
+  const userId = currentUserId(request);
+  if (!isOwner(userId)) {
+    return NextResponse.json(
+      { error: 'Only the owner can restore a backup' },
+      { status: 403 }
+    );
+  }
+
+  const mode = request.nextUrl.searchParams.get('mode') as RestoreMode;
+  if (!RESTORE_MODES.includes(mode)) {
+    return NextResponse.json(
+      { error: `Mode must be one of ${RESTORE_MODES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  let password: string | null = null;
+  try {
+    password = decodeURIComponent(request.headers.get('x-password') ?? '');
+  } catch {
+    // Not valid URI encoding; rejected below
+  }
+  if (!password || !checkPassword(userId, password)) {
+    return NextResponse.json(
+      { error: 'Password is incorrect' },
+      { status: 403 }
+    );
+  }
+
+  if (!request.body) {
+    return NextResponse.json(
+      { error: 'No file provided' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const archive = Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>);
+    const result = await restoreBackup(archive, mode);
+    const response = NextResponse.json(result);
+    // A replace signs everyone out
+    if (mode === 'replace') {
+      clearSessionCookie(response);
+    }
+    return response;
+  } catch (error) {
+    console.error('Restore error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to restore backup' },
+      { status: 400 }
+    );
+  }
+}
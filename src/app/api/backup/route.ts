@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBackup } from '@/lib/db/backup';
+import { currentUserId, isOwner } from '@/lib/data/users';
+
+// Download a backup archive of the whole database, every profile included.
+// Owner only.
+export async function GET(request: NextRequest) {
+  if (!isOwner(currentUserId(request))) {
+    return NextResponse.json(
+      { error: 'Only the owner can back up the installation' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { fileName, archive } = await createBackup();
+    // Streamed: the archive is zipped as the download reads it
+    return new NextResponse(archive, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    });
+  } catch (error) {
+    console.error('Backup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create backup' },
+      { status: 500 }
+    );
+  }
+}
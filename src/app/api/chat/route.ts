@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OpenRouterClient, ChatRequest, validateResponse } from '@/lib/llm/openrouter';
 import { getDatabase } from '@/lib/db';
+import { currentUserId } from '@/lib/data/users';
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,20 +23,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const userId = currentUserId(request);
+
     // Initialize OpenRouter client
     const openRouter = new OpenRouterClient();
     
     // Execute chat request
-    const response = await openRouter.chat(body);
+    const response = await openRouter.chat(body, userId);
     
     // Log the interaction for debugging
     const db = getDatabase();
     const logStmt = db.prepare(`
-      INSERT INTO chat_logs (request, response, model_used, created_at)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO chat_logs (user_id, request, response, model_used, created_at)
+      VALUES (?, ?, ?, ?, ?)
     `);
     
     logStmt.run(
+      userId,
       JSON.stringify(body),
       JSON.stringify(response),
       response.model_used,
@@ -69,11 +73,12 @@ export async function GET(request: NextRequest) {
     const db = getDatabase();
     const stmt = db.prepare(`
       SELECT * FROM chat_logs
+      WHERE user_id = ?
       ORDER BY created_at DESC
       LIMIT 50
     `);
     
-    const logs = stmt.all();
+    const logs = stmt.all(currentUserId(request));
     
     return NextResponse.json({ logs });
     
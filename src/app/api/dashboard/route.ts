@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/db';
+import { currentUserId } from '@/lib/data/users';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const start = searchParams.get('start');
     const end = searchParams.get('end');
+    const device = searchParams.get('device');
     
     if (!start || !end) {
       return NextResponse.json(
@@ -14,6 +16,17 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // One machine's nights, or the rows combining all devices
+    const deviceId = device ? Number(device) : null;
+    if (deviceId !== null && !Number.isInteger(deviceId)) {
+      return NextResponse.json(
+        { error: 'Invalid device id' },
+        { status: 400 }
+      );
+    }
+    const deviceFilter = 'AND (? IS NULL AND device_id IS NULL OR device_id = ?)';
+    const userId = currentUserId(request);
+
     const db = getDatabase();
     
     // Get KPI metrics
@@ -28,10 +41,10 @@ export async function GET(request: NextRequest) {
         AVG(sleep_quality_score) as avg_quality_score,
         COUNT(*) as total_nights
       FROM nightly_aggregates
-      WHERE date >= ? AND date <= ?
+      WHERE user_id = ? AND date >= ? AND date <= ? ${deviceFilter}
     `);
     
-    const kpis = kpiStmt.get(start, end) as {
+    const kpis = kpiStmt.get(userId, start, end, deviceId, deviceId) as {
       avg_ahi: number,
       avg_usage: number,
       avg_mask_on: number,
@@ -52,11 +65,11 @@ export async function GET(request: NextRequest) {
         median_leak_rate,
         sleep_quality_score
       FROM nightly_aggregates
-      WHERE date >= ? AND date <= ?
+      WHERE user_id = ? AND date >= ? AND date <= ? ${deviceFilter}
       ORDER BY date ASC
     `);
     
-    const trends = trendStmt.all(start, end);
+    const trends = trendStmt.all(userId, start, end, deviceId, deviceId);
     
     // Get anomalies (top 5 worst nights by AHI)
     const anomalyStmt = db.prepare(`
@@ -66,12 +79,12 @@ export async function GET(request: NextRequest) {
         large_leak_percent,
         sleep_quality_score
       FROM nightly_aggregates
-      WHERE date >= ? AND date <= ? AND ahi IS NOT NULL
+      WHERE user_id = ? AND date >= ? AND date <= ? AND ahi IS NOT NULL ${deviceFilter}
       ORDER BY ahi DESC
       LIMIT 5
     `);
     
-    const anomalies = anomalyStmt.all(start, end);
+    const anomalies = anomalyStmt.all(userId, start, end, deviceId, deviceId);
     
     // Get weekly averages
     const weeklyStmt = db.prepare(`
@@ -81,12 +94,12 @@ export async function GET(request: NextRequest) {
         AVG(total_usage_minutes) as avg_usage,
         AVG(sleep_quality_score) as avg_quality
       FROM nightly_aggregates
-      WHERE date >= ? AND date <= ?
+      WHERE user_id = ? AND date >= ? AND date <= ? ${deviceFilter}
       GROUP BY week
       ORDER BY week ASC
     `);
     
-    const weekly = weeklyStmt.all(start, end);
+    const weekly = weeklyStmt.all(userId, start, end, deviceId, deviceId);
     
     return NextResponse.json({
       kpis: {
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDevice, renameDevice } from '@/lib/data/devices';
+import { currentUserId } from '@/lib/data/users';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const device = getDevice(currentUserId(request), Number(id));
+
+    if (!device) {
+      return NextResponse.json(
+        { error: 'Device not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ device });
+  } catch (error) {
+    console.error('Device error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch device' },
+      { status: 500 }
+    );
+  }
+}
+
+// Only the display name can be changed; the rest comes from the SD card
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  let name: unknown;
+  try {
+    ({ name } = await request.json());
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  if (name !== null && typeof name !== 'string') {
+    return NextResponse.json(
+      { error: 'Name must be a string or null' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const device = renameDevice(currentUserId(request), Number(id), name);
+    if (!device) {
+      return NextResponse.json(
+        { error: 'Device not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ device });
+  } catch (error) {
+    console.error('Failed to rename device:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename device' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDevices } from '@/lib/data/devices';
+import { currentUserId } from '@/lib/data/users';
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ devices: listDevices(currentUserId(request)) });
+  } catch (error) {
+    console.error('Devices error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch devices' },
+      { status: 500 }
+    );
+  }
+}
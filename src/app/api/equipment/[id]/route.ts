@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEquipment, updateEquipment, deleteEquipment, EquipmentInput } from '@/lib/data/equipment';
+import { currentUserId } from '@/lib/data/users';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const EDITABLE_FIELDS = ['type', 'model', 'startedOn', 'endedOn', 'replaceEveryDays', 'notes'];
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const equipment = getEquipment(currentUserId(request), Number(id));
+
+    if (!equipment) {
+      return NextResponse.json(
+        { error: 'Equipment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ equipment });
+  } catch (error) {
+    console.error('Equipment error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch equipment' },
+      { status: 500 }
+    );
+  }
+}
+
+// Partial update; send endedOn to retire an item, or null to put it back in use
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  let changes: Partial<EquipmentInput>;
+  try {
+    const body = await request.json();
+    changes = Object.fromEntries(
+      Object.entries(body).filter(([key]) => EDITABLE_FIELDS.includes(key))
+    );
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const equipment = updateEquipment(currentUserId(request), Number(id), changes);
+    if (!equipment) {
+      return NextResponse.json(
+        { error: 'Equipment not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ equipment });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid equipment' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!deleteEquipment(currentUserId(request), Number(id))) {
+      return NextResponse.json(
+        { error: 'Equipment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete equipment:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete equipment' },
+      { status: 500 }
+    );
+  }
+}
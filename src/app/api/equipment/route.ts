@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listEquipment, createEquipment, getReplacementReminders } from '@/lib/data/equipment';
+import { currentSleepDay } from '@/lib/data/sessions';
+import { getSettings } from '@/lib/db/settings';
+import { currentUserId } from '@/lib/data/users';
+
+// Every item, in use first, with the replacement reminders due as of the
+// sleep day in progress
+export async function GET(request: NextRequest) {
+  try {
+    const userId = currentUserId(request);
+    const settings = getSettings(userId);
+    const today = currentSleepDay(settings.timezone, settings.sleepDayStartHour);
+    return NextResponse.json({
+      today,
+      equipment: listEquipment(userId),
+      reminders: getReplacementReminders(userId, today)
+    });
+  } catch (error) {
+    console.error('Equipment error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch equipment' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add an item. replaceEveryDays falls back to the type's usual interval when
+// omitted; with `replaces`, the item of the same type in use is retired the
+// day before this one starts.
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const equipment = createEquipment(currentUserId(request), {
+      type: body.type,
+      model: body.model,
+      startedOn: body.startedOn,
+      endedOn: body.endedOn,
+      replaceEveryDays: body.replaceEveryDays,
+      notes: body.notes
+    }, body.replaces === true);
+    return NextResponse.json({ equipment });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid equipment' },
+      { status: 400 }
+    );
+  }
+}
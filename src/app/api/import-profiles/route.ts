@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listImportProfiles, saveImportProfile, deleteImportProfile } from '@/lib/data/import-profiles';
+import { currentUserId } from '@/lib/data/users';
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ profiles: listImportProfiles(currentUserId(request)) });
+  } catch (error) {
+    console.error('Import profiles error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import profiles' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, headers, mapping, units } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim() || !Array.isArray(headers) || !mapping?.timestamp) {
+      return NextResponse.json(
+        { error: 'name, headers and a mapping with a timestamp column are required' },
+        { status: 400 }
+      );
+    }
+
+    const profile = saveImportProfile(currentUserId(request), name, headers, mapping, units ?? {});
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error('Failed to save import profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to save import profile' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = Number(searchParams.get('id'));
+
+    if (!Number.isInteger(id)) {
+      return NextResponse.json(
+        { error: 'id is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!deleteImportProfile(currentUserId(request), id)) {
+      return NextResponse.json(
+        { error: 'Import profile not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete import profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete import profile' },
+      { status: 500 }
+    );
+  }
+}
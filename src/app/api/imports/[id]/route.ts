@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImport } from '@/lib/data/import-history';
+import { undoImport } from '@/lib/data/ingest';
+import { currentUserId } from '@/lib/data/users';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = currentUserId(request);
+    const record = getImport(userId, Number(id));
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Import not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ import: record });
+  } catch (error) {
+    console.error('Import history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import' },
+      { status: 500 }
+    );
+  }
+}
+
+// Undo an import: delete the rows it added and recompute the nights it touched
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = currentUserId(request);
+    const record = getImport(userId, Number(id));
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Import not found' },
+        { status: 404 }
+      );
+    }
+
+    if (record.undoneAt) {
+      return NextResponse.json(
+        { error: 'Import has already been undone' },
+        { status: 409 }
+      );
+    }
+
+    const result = await undoImport(userId, record.id);
+    if (result.errors.length > 0) {
+      return NextResponse.json(
+        { error: result.errors[0] },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ import: getImport(userId, record.id), recalculated: result });
+  } catch (error) {
+    console.error('Failed to undo import:', error);
+    return NextResponse.json(
+      { error: 'Failed to undo import' },
+      { status: 500 }
+    );
+  }
+}
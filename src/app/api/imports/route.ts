@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listImports } from '@/lib/data/import-history';
+import { currentUserId } from '@/lib/data/users';
+
+// Past imports, most recent first
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit')) || 50;
+
+    return NextResponse.json({ imports: listImports(currentUserId(request), limit) });
+  } catch (error) {
+    console.error('Import history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getManualNight, deleteManualNight } from '@/lib/data/manual-nights';
+import { currentUserId } from '@/lib/data/users';
+
+interface RouteContext {
+  params: Promise<{ date: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { date } = await params;
+    const night = getManualNight(currentUserId(request), date);
+
+    if (!night) {
+      return NextResponse.json(
+        { error: 'Manual night not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ night });
+  } catch (error) {
+    console.error('Manual night error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch manual night' },
+      { status: 500 }
+    );
+  }
+}
+
+// Only manual entries can be deleted; imported nights go with their import
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { date } = await params;
+
+    if (!deleteManualNight(currentUserId(request), date)) {
+      return NextResponse.json(
+        { error: 'Manual night not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete manual night:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete manual night' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listManualNights, saveManualNight, ManualNightValues } from '@/lib/data/manual-nights';
+import { currentUserId } from '@/lib/data/users';
+
+// ?start=&end=: the entries in a range; otherwise every entry
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const start = searchParams.get('start');
+    const end = searchParams.get('end');
+
+    if ((start || end) && (!start || !end || start > end)) {
+      return NextResponse.json(
+        { error: 'start and end are both required, with start on or before end' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ nights: listManualNights(currentUserId(request), start && end ? { start, end } : undefined) });
+  } catch (error) {
+    console.error('Manual nights error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch manual nights' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create or replace the entry for a sleep day
+export async function POST(request: NextRequest) {
+  let date: string;
+  let values: ManualNightValues;
+  try {
+    const body = await request.json();
+    const number = (value: unknown) => value === undefined || value === null || value === '' ? null : Number(value);
+    date = String(body.date ?? '');
+    values = {
+      usageMinutes: number(body.usageMinutes) as number,
+      ahi: number(body.ahi),
+      leakRate: number(body.leakRate),
+      largeLeakPercent: number(body.largeLeakPercent),
+      pressure: number(body.pressure)
+    };
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ night: saveManualNight(currentUserId(request), date, values) });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid night' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { currentUserId } from '@/lib/data/users';
+import { readNightlySummary, readSessionBreakdown } from '@/lib/analytics/tools';
+
+interface RouteContext {
+  params: Promise<{ date: string }>;
+}
+
+// One night's summary with its sessions and large-leak periods (API token
+// scope read:nightly); ?device=<id> for one machine
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { date } = await params;
+    const device = new URL(request.url).searchParams.get('device');
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { error: 'Date must be a YYYY-MM-DD sleep day' },
+        { status: 400 }
+      );
+    }
+
+    const deviceId = device ? Number(device) : null;
+    if (deviceId !== null && !Number.isInteger(deviceId)) {
+      return NextResponse.json(
+        { error: 'Invalid device id' },
+        { status: 400 }
+      );
+    }
+
+    const userId = currentUserId(request);
+    const [night] = readNightlySummary(userId, { start: date, end: date }, deviceId).data;
+    if (!night) {
+      return NextResponse.json(
+        { error: 'Night not found' },
+        { status: 404 }
+      );
+    }
+
+    const breakdown = readSessionBreakdown(userId, date, deviceId);
+    return NextResponse.json({ night, sessions: breakdown.data.sessions });
+  } catch (error) {
+    console.error('Night error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch night' },
+      { status: 500 }
+    );
+  }
+}
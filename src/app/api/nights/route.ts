@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { currentUserId } from '@/lib/data/users';
+import { readNightlySummary } from '@/lib/analytics/tools';
+
+// Nightly summaries for scripts and notebooks (API token scope read:nightly).
+// ?device=<id> for one machine, ?includeManual=false to leave out nights
+// entered by hand. Only reads: unlike the chat's tool, nothing is stored as an
+// evidence artifact.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const start = searchParams.get('start');
+    const end = searchParams.get('end');
+    const device = searchParams.get('device');
+
+    if (!start || !end || start > end) {
+      return NextResponse.json(
+        { error: 'start and end are both required, with start on or before end' },
+        { status: 400 }
+      );
+    }
+
+    const deviceId = device ? Number(device) : null;
+    if (deviceId !== null && !Number.isInteger(deviceId)) {
+      return NextResponse.json(
+        { error: 'Invalid device id' },
+        { status: 400 }
+      );
+    }
+
+    const summary = readNightlySummary(
+      currentUserId(request),
+      { start, end },
+      deviceId,
+      searchParams.get('includeManual') !== 'false'
+    );
+    return NextResponse.json({ nights: summary.data, provenance: summary.provenance });
+  } catch (error) {
+    console.error('Nights error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch nights' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSettings, validateSettings, applySettingChanges, AppSettings } from '@/lib/db/settings';
+import { updateSettingsAndRecalculate } from '@/lib/data/ingest';
+import { currentUserId } from '@/lib/data/users';
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ settings: getSettings(currentUserId(request)) });
+  } catch (error) {
+    console.error('Settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  let changes: Partial<AppSettings>;
+  try {
+    const body = await request.json();
+    changes = {
+      timezone: body.timezone,
+      sleepDayStartHour: body.sleepDayStartHour,
+      sessionGapMinutes: body.sessionGapMinutes
+    };
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    validateSettings(changes);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid settings' },
+      { status: 400 }
+    );
+  }
+
+  const userId = currentUserId(request);
+  const before = getSettings(userId);
+  const settings = applySettingChanges(before, changes);
+  const changed = (Object.keys(settings) as Array<keyof AppSettings>)
+    .some(key => settings[key] !== before[key]);
+  if (!changed) {
+    return NextResponse.json({ settings, recalculated: null });
+  }
+
+  try {
+    // Sessions, sleep days and durations all depend on these settings, so
+    // they are saved in the same transaction as the recalculation
+    const recalculated = await updateSettingsAndRecalculate(userId, changes);
+    return NextResponse.json({ settings: getSettings(userId), recalculated });
+  } catch (error) {
+    console.error('Failed to recalculate nights:', error);
+    return NextResponse.json(
+      { error: 'Nights could not be recalculated, so the settings were not changed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSettingsRecord, deleteManualSettings } from '@/lib/data/therapy-settings';
+import { currentUserId } from '@/lib/data/users';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Only manual entries can be deleted; imported ones go with their import
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = currentUserId(request);
+    const record = getSettingsRecord(userId, Number(id));
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Settings record not found' },
+        { status: 404 }
+      );
+    }
+
+    if (record.source !== 'manual') {
+      return NextResponse.json(
+        { error: 'Imported settings are removed by undoing their import' },
+        { status: 409 }
+      );
+    }
+
+    deleteManualSettings(userId, record.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete therapy settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete therapy settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getActiveSettings, getSettingsPeriods, listSettingsPeriods, listSettingsHistory, saveManualSettings, SettingValues
+} from '@/lib/data/therapy-settings';
+import { currentUserId } from '@/lib/data/users';
+
+// ?date=YYYY-MM-DD: the settings active on that sleep day
+// ?start=&end=: the settings periods and records in a range
+// neither: every period and record
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date');
+    const start = searchParams.get('start');
+    const end = searchParams.get('end');
+    const userId = currentUserId(request);
+
+    if (date) {
+      return NextResponse.json({ date, settings: getActiveSettings(userId, date) });
+    }
+
+    if (start || end) {
+      if (!start || !end || start > end) {
+        return NextResponse.json(
+          { error: 'start and end are both required, with start on or before end' },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({
+        periods: getSettingsPeriods(userId, start, end),
+        history: listSettingsHistory(userId, { start, end })
+      });
+    }
+
+    return NextResponse.json({ periods: listSettingsPeriods(userId), history: listSettingsHistory(userId) });
+  } catch (error) {
+    console.error('Therapy settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch therapy settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// Manual entry: the settings in force from a sleep day on
+export async function POST(request: NextRequest) {
+  let date: string;
+  let values: SettingValues;
+  let notes: string | null;
+  try {
+    const body = await request.json();
+    const number = (value: unknown) => value === undefined || value === null || value === '' ? null : Number(value);
+    date = String(body.date ?? '');
+    values = {
+      mode: body.mode || null,
+      pressure: number(body.pressure),
+      minPressure: number(body.minPressure),
+      maxPressure: number(body.maxPressure),
+      epr: number(body.epr),
+      rampMinutes: number(body.rampMinutes),
+      humidity: number(body.humidity)
+    };
+    notes = typeof body.notes === 'string' ? body.notes : null;
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ settings: saveManualSettings(currentUserId(request), date, values, notes) });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid settings' },
+      { status: 400 }
+    );
+  }
+}
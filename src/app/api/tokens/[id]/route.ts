@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { currentUserId } from '@/lib/data/users';
+import { revokeApiToken } from '@/lib/auth/tokens';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Revoke a token; requests made with it fail from then on
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!revokeApiToken(currentUserId(request), Number(id))) {
+      return NextResponse.json(
+        { error: 'API token not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to revoke API token:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { currentUserId } from '@/lib/data/users';
+import { listApiTokens, createApiToken, TOKEN_SCOPES } from '@/lib/auth/tokens';
+
+// The signed-in profile's API tokens (never the tokens themselves)
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ tokens: listApiTokens(currentUserId(request)), scopes: TOKEN_SCOPES });
+  } catch (error) {
+    console.error('API tokens error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API tokens' },
+      { status: 500 }
+    );
+  }
+}
+
+// The response is the only time the token is shown
+export async function POST(request: NextRequest) {
+  let name: unknown;
+  let scopes: unknown;
+  try {
+    ({ name, scopes } = await request.json());
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(createApiToken(currentUserId(request), name, scopes));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid token' },
+      { status: 400 }
+    );
+  }
+}
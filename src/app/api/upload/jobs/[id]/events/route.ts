@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImportJob, subscribeImportJob, isFinished, ImportJob } from '@/lib/data/import-jobs';
+import { currentUserId } from '@/lib/data/users';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Server-sent events: the job's state now and after every change, ending once
+// the job has finished
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const userId = currentUserId(request);
+  const job = getImportJob(userId, id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Import job not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      const send = (update: ImportJob) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(update)}\n\n`));
+        if (isFinished(update)) {
+          closed = true;
+          unsubscribe();
+          controller.close();
+        }
+      };
+
+      send(job);
+      if (closed) return;
+
+      unsubscribe = subscribeImportJob(userId, id, send);
+
+      request.signal.addEventListener('abort', () => unsubscribe());
+    },
+    cancel() {
+      unsubscribe();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
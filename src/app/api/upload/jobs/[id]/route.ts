@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImportJob, cancelImportJob } from '@/lib/data/import-jobs';
+import { currentUserId } from '@/lib/data/users';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Current state of an upload job
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = getImportJob(currentUserId(request), id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Import job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import job' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a queued or running job; anything it imported is removed
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = cancelImportJob(currentUserId(request), id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Failed to cancel import job:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel import job' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ingestCPAPCSV } from '@/lib/data/ingest';
-import { getDatabase } from '@/lib/db';
+import { ingestCPAPCSV, ingestSDCard, ingestViatomFiles, previewCSV, CSVImportOptions } from '@/lib/data/ingest';
+import { createImportJob } from '@/lib/data/import-jobs';
+import { listImports } from '@/lib/data/import-history';
+import { extractZip } from '@/lib/data/archive';
+import { isViatomFileName } from '@/lib/data/oximetry';
+import { isValidTimeZone } from '@/lib/data/time';
+import { currentUserId } from '@/lib/data/users';
+import { findImportProfile, getImportProfile, saveImportProfile } from '@/lib/data/import-profiles';
+import { saveUpload } from '@/lib/data/uploads';
+import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 import path from 'path';
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = currentUserId(request);
+
     // Get the uploaded file
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -18,47 +28,122 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    if (!file.name.endsWith('.csv')) {
+    const fileName = file.name.toLowerCase();
+    const isZip = fileName.endsWith('.zip');
+    // Wellue/Viatom oximeter recording (named by its start time, no extension)
+    const isViatom = isViatomFileName(fileName);
+    if (!fileName.endsWith('.csv') && !isZip && !isViatom) {
+      return NextResponse.json(
+        { error: 'File must be a CSV, a zipped SD card or an oximeter recording' },
+        { status: 400 }
+      );
+    }
+
+    // mode=preview returns headers, sample rows and a suggested column mapping
+    // without importing anything
+    const preview = formData.get('mode') === 'preview';
+    if (preview && (isZip || isViatom)) {
       return NextResponse.json(
-        { error: 'File must be a CSV' },
+        { error: 'Only CSV files can be previewed' },
         { status: 400 }
       );
     }
 
+    // Column mapping: explicit JSON fields take precedence over a saved profile
+    const options: CSVImportOptions = {};
+    const profileId = formData.get('profileId');
+    if (profileId) {
+      const profile = getImportProfile(userId, Number(profileId));
+      if (!profile) {
+        return NextResponse.json(
+          { error: 'Import profile not found' },
+          { status: 404 }
+        );
+      }
+      options.mapping = profile.mapping;
+      options.units = profile.units;
+    }
+    try {
+      const mapping = formData.get('mapping');
+      const units = formData.get('units');
+      if (typeof mapping === 'string' && mapping) options.mapping = JSON.parse(mapping);
+      if (typeof units === 'string' && units) options.units = JSON.parse(units);
+    } catch {
+      return NextResponse.json(
+        { error: 'Column mapping must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    // Per-upload overrides of the stored settings (gap that starts a new
+    // session; zone of a file recorded while travelling)
+    const sessionGap = Number(formData.get('sessionGapMinutes'));
+    if (sessionGap > 0) options.sessionGapMinutes = sessionGap;
+    const timeZone = formData.get('timezone');
+    if (typeof timeZone === 'string' && timeZone) {
+      if (!isValidTimeZone(timeZone)) {
+        return NextResponse.json(
+          { error: `Unknown time zone: ${timeZone}` },
+          { status: 400 }
+        );
+      }
+      options.timeZone = timeZone;
+    }
+
     // Save file temporarily
     const tempDir = path.join(process.cwd(), 'temp');
     if (!fs.existsSync(tempDir)) {
       fs.mkdirSync(tempDir, { recursive: true });
     }
     
-    const tempFilePath = path.join(tempDir, file.name);
-    const buffer = await file.arrayBuffer();
-    fs.writeFileSync(tempFilePath, Buffer.from(buffer));
+    // Queued jobs may share a file name, so each upload gets its own temp file
+    const tempFilePath = path.join(tempDir, `${uuidv4()}-${path.basename(file.name)}`);
+    const hash = await saveUpload(file, tempFilePath);
 
-    // Ingest the data
-    const result = await ingestCPAPCSV(tempFilePath);
-    
-    // Clean up temp file
-    fs.unlinkSync(tempFilePath);
-    
-    // Update database metadata
-    const db = getDatabase();
-    const metadataStmt = db.prepare(`
-      INSERT OR REPLACE INTO data_metadata (key, value, updated_at)
-      VALUES ('last_upload', ?, ?)
-    `);
-    
-    metadataStmt.run(
-      JSON.stringify({
-        fileName: file.name,
-        fileSize: file.size,
-        uploadedAt: new Date().toISOString(),
-        ...result
-      }),
-      new Date().toISOString()
-    );
+    if (preview) {
+      try {
+        const csvPreview = await previewCSV(tempFilePath);
+        return NextResponse.json({
+          ...csvPreview,
+          profile: findImportProfile(userId, csvPreview.headers)
+        });
+      } finally {
+        fs.unlinkSync(tempFilePath);
+      }
+    }
+
+    // Remember the confirmed mapping under a name for later uploads
+    const saveProfileAs = formData.get('saveProfileAs');
+    if (!isZip && !isViatom && options.mapping && typeof saveProfileAs === 'string' && saveProfileAs.trim()) {
+      const { headers } = await previewCSV(tempFilePath);
+      saveImportProfile(userId, saveProfileAs, headers, options.mapping, options.units ?? {});
+    }
+
+    // Import in the background; progress is reported by /api/upload/jobs/:id
+    const importFile = {
+      name: file.name,
+      size: file.size,
+      hash
+    };
+    const job = createImportJob(userId, file.name, file.size, async control => {
+      const importOptions = { ...options, ...control, file: importFile };
+      if (isViatom) {
+        return ingestViatomFiles(userId, [tempFilePath], importOptions);
+      }
+      if (!isZip) {
+        return ingestCPAPCSV(userId, tempFilePath, importOptions);
+      }
+
+      const extractDir = fs.mkdtempSync(path.join(tempDir, 'sdcard-'));
+      try {
+        extractZip(tempFilePath, extractDir);
+        return await ingestSDCard(userId, extractDir, importOptions);
+      } finally {
+        fs.rmSync(extractDir, { recursive: true, force: true });
+      }
+    }, () => fs.rmSync(tempFilePath, { force: true }));
 
-    return NextResponse.json(result);
+    return NextResponse.json({ jobId: job.id, job }, { status: 202 });
     
   } catch (error) {
     console.error('Upload error:', error);
@@ -70,32 +155,10 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Get upload history
+// Most recent import (the full ledger is at /api/imports)
 export async function GET(request: NextRequest) {
   try {
-    const db = getDatabase();
-    
-    // Check if metadata table exists
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS data_metadata (
-        key TEXT PRIMARY KEY,
-        value TEXT,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-    
-    const stmt = db.prepare(`
-      SELECT value FROM data_metadata WHERE key = 'last_upload'
-    `);
-    
-    const result = stmt.get() as { value: string } | undefined;
-    
-    if (result) {
-      return NextResponse.json({ uploadHistory: JSON.parse(result.value) });
-    }
-    
-    return NextResponse.json({ uploadHistory: null });
-    
+    return NextResponse.json({ uploadHistory: listImports(currentUserId(request), 1)[0] ?? null });
   } catch (error) {
     console.error('Upload history error:', error);
     return NextResponse.json(
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { currentUserId, getUser, isOwner, renameUser, setPassword, deleteUser } from '@/lib/data/users';
+import { clearSessionCookie } from '@/lib/auth/sessions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// name renames the signed-in profile. password sets the first password of a
+// profile that has none (one created before sign-in existed), which only the
+// owner can do; passwords are changed at /api/auth/password.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  let name: unknown;
+  let password: unknown;
+  try {
+    ({ name, password } = await request.json());
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  const user = getUser(Number(id));
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Profile not found' },
+      { status: 404 }
+    );
+  }
+
+  const userId = currentUserId(request);
+  if (name !== undefined && user.id !== userId) {
+    return NextResponse.json(
+      { error: 'Only the signed-in profile can be renamed' },
+      { status: 403 }
+    );
+  }
+  if (password !== undefined && user.hasPassword) {
+    return NextResponse.json(
+      { error: 'The profile already has a password' },
+      { status: 403 }
+    );
+  }
+  if (password !== undefined && user.id !== userId && !isOwner(userId)) {
+    return NextResponse.json(
+      { error: 'Only the owner can set the password of another profile' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    if (password !== undefined) setPassword(user.id, password as string);
+    return NextResponse.json({ user: name !== undefined ? renameUser(user.id, String(name)) : getUser(user.id) });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid profile' },
+      { status: 400 }
+    );
+  }
+}
+
+// Deletes the signed-in profile together with all of its data, and signs out
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (Number(id) !== currentUserId(request)) {
+    return NextResponse.json(
+      { error: 'Only the signed-in profile can be deleted' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    deleteUser(Number(id));
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete profile' },
+      { status: 409 }
+    );
+  }
+}
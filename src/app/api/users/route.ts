@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listUsers, createUser, currentUserId, isOwner } from '@/lib/data/users';
+
+// Every profile, with the one signed in
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ users: listUsers(), currentUserId: currentUserId(request) });
+  } catch (error) {
+    console.error('Profiles error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch profiles' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a profile, e.g. for a family member, who then signs in with the password.
+// Only the owner adds profiles.
+export async function POST(request: NextRequest) {
+  if (!isOwner(currentUserId(request))) {
+    return NextResponse.json(
+      { error: 'Only the owner can add profiles' },
+      { status: 403 }
+    );
+  }
+
+  let name: unknown;
+  let password: unknown;
+  try {
+    ({ name, password } = await request.json());
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ user: createUser(String(name ?? ''), password as string) });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid profile' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/db';
+import { currentUserId } from '@/lib/data/users';
+import { isWaveformChannel, readWaveformWindow, MAX_WAVEFORM_POINTS, WAVEFORM_CHANNELS } from '@/lib/data/waveforms';
+
+// Downsampled flow or pressure waveform for a time window, given either as
+// start/end wall-clock times or as a session id
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const channel = searchParams.get('channel') ?? '';
+    const sessionId = searchParams.get('session');
+    const points = Number(searchParams.get('points')) || 2000;
+    let start = searchParams.get('start');
+    let end = searchParams.get('end');
+    const userId = currentUserId(request);
+
+    if (!isWaveformChannel(channel)) {
+      return NextResponse.json(
+        { error: `Channel must be one of: ${WAVEFORM_CHANNELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (sessionId) {
+      const session = getDatabase().prepare(`
+        SELECT start_time, end_time FROM sessions WHERE id = ? AND user_id = ?
+      `).get(sessionId, userId) as { start_time: string; end_time: string } | undefined;
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Session not found' },
+          { status: 404 }
+        );
+      }
+      start ??= session.start_time;
+      end ??= session.end_time;
+    }
+
+    if (!start || !end) {
+      return NextResponse.json(
+        { error: 'A session or start and end times are required' },
+        { status: 400 }
+      );
+    }
+
+    if (points < 1 || points > MAX_WAVEFORM_POINTS) {
+      return NextResponse.json(
+        { error: `Points must be between 1 and ${MAX_WAVEFORM_POINTS}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      return NextResponse.json(readWaveformWindow(userId, channel, start, end, points));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid waveform window' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Waveform error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read waveform' },
+      { status: 500 }
+    );
+  }
+}
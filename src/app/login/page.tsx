@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LockKeyhole, AlertCircle } from 'lucide-react';
+
+const inputClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm';
+
+// Sign in, or on first run set up the first profile's password. ?name=
+// prefills the profile, for switching from the header.
+export default function LoginPage() {
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setName(new URLSearchParams(window.location.search).get('name') ?? '');
+    fetch('/api/auth/session')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load session')))
+      .then(body => setSetupRequired(body.setupRequired))
+      .catch(err => setError(err.message));
+  }, []);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (setupRequired && password !== confirmation) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(setupRequired ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, password })
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to sign in');
+      }
+      window.location.href = '/';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LockKeyhole className="h-5 w-5" />
+            {setupRequired ? 'Set Up Sign-In' : 'Sign In'}
+          </CardTitle>
+          <CardDescription>
+            {setupRequired ?
+              'Choose a profile name and password. Data already on this instance stays with this profile.' :
+              'CPAP Insight Dashboard'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={submit} className="space-y-4">
+            <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+              <label htmlFor="login-name" className="text-sm">Profile</label>
+              <input
+                id="login-name"
+                className={inputClass}
+                autoComplete="username"
+                value={name}
+                onChange={e => setName(e.target.value)}
+              />
+
+              <label htmlFor="login-password" className="text-sm">Password</label>
+              <input
+                id="login-password"
+                type="password"
+                className={inputClass}
+                autoComplete={setupRequired ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+              />
+
+              {setupRequired && (
+                <>
+                  <label htmlFor="login-confirmation" className="text-sm">Repeat password</label>
+                  <input
+                    id="login-confirmation"
+                    type="password"
+                    className={inputClass}
+                    autoComplete="new-password"
+                    value={confirmation}
+                    onChange={e => setConfirmation(e.target.value)}
+                  />
+                </>
+              )}
+            </div>
+
+            <Button type="submit" disabled={!name.trim() || !password || isSubmitting} className="w-full">
+              {isSubmitting ? 'Signing in...' : setupRequired ? 'Save and Sign In' : 'Sign In'}
+            </Button>
+
+            {error && (
+              <div className="flex items-center gap-2 text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
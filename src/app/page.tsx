@@ -3,16 +3,52 @@
 import React, { useState, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CPAPDataUpload } from '@/components/upload/CPAPDataUpload';
+import { ImportHistory } from '@/components/upload/ImportHistory';
+import { ManualNightEntry } from '@/components/upload/ManualNightEntry';
 import { OverviewDashboard } from '@/components/dashboard/OverviewDashboard';
 import { InsightsChat } from '@/components/chat/InsightsChat';
+import { SleepDaySettings, SleepDaySettingsValue } from '@/components/settings/SleepDaySettings';
+import { TherapySettingsHistory } from '@/components/settings/TherapySettingsHistory';
+import { EquipmentPanel } from '@/components/equipment/EquipmentPanel';
+import { ProfileSwitcher } from '@/components/settings/ProfileSwitcher';
+import { PasswordSettings } from '@/components/settings/PasswordSettings';
+import { ApiTokens } from '@/components/settings/ApiTokens';
+import { BackupRestore } from '@/components/settings/BackupRestore';
+import { currentSleepDay } from '@/lib/data/sessions';
+import { addDays } from '@/lib/data/time';
 import { Calendar } from 'lucide-react';
 
+// Last 30 sleep days, ending with the night in progress in the configured zone
+function recentRange(timeZone: string, sleepDayStartHour?: number) {
+  const end = currentSleepDay(timeZone, sleepDayStartHour);
+  return { start: addDays(end, -30), end };
+}
+
+// "YYYY-MM-DD" as a local calendar date (Date parses it as UTC midnight)
+function formatDay(day: string) {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date).toLocaleDateString();
+}
+
 export default function DashboardPage() {
-  const [dateRange, setDateRange] = useState({
-    start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-    end: new Date().toISOString().split('T')[0]
-  });
+  const [dateRange, setDateRange] = useState(() =>
+    recentRange(Intl.DateTimeFormat().resolvedOptions().timeZone)
+  );
   const [activeTab, setActiveTab] = useState('overview');
+  const [importsVersion, setImportsVersion] = useState(0);
+
+  useEffect(() => {
+    fetch('/api/settings')
+      .then(response => response.ok ? response.json() : null)
+      .then(body => {
+        if (body) setDateRange(recentRange(body.settings.timezone, body.settings.sleepDayStartHour));
+      })
+      .catch(() => {});
+  }, []);
+
+  const handleSettingsSaved = (settings: SleepDaySettingsValue) => {
+    setDateRange(recentRange(settings.timezone, settings.sleepDayStartHour));
+  };
 
   const handleDateRangeChange = (range: { start: string; end: string }) => {
     setDateRange(range);
@@ -30,11 +66,14 @@ export default function DashboardPage() {
                 Analytics-powered insights for your CPAP therapy
               </p>
             </div>
-            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-              <Calendar className="h-4 w-4" />
-              <span>
-                {new Date(dateRange.start).toLocaleDateString()} - {new Date(dateRange.end).toLocaleDateString()}
-              </span>
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Calendar className="h-4 w-4" />
+                <span>
+                  {formatDay(dateRange.start)} - {formatDay(dateRange.end)}
+                </span>
+              </div>
+              <ProfileSwitcher />
             </div>
           </div>
         </div>
@@ -43,15 +82,23 @@ export default function DashboardPage() {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="upload">Upload Data</TabsTrigger>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="details">Night Details</TabsTrigger>
+            <TabsTrigger value="equipment">Equipment</TabsTrigger>
             <TabsTrigger value="insights">Insights Chat</TabsTrigger>
           </TabsList>
 
           <TabsContent value="upload" className="space-y-4">
-            <CPAPDataUpload />
+            <CPAPDataUpload onImported={() => setImportsVersion(v => v + 1)} />
+            <ImportHistory refreshKey={importsVersion} />
+            <SleepDaySettings onSaved={handleSettingsSaved} />
+            <TherapySettingsHistory refreshKey={importsVersion} />
+            <ManualNightEntry />
+            <PasswordSettings />
+            <ApiTokens />
+            <BackupRestore />
           </TabsContent>
 
           <TabsContent value="overview" className="space-y-4">
@@ -68,6 +115,10 @@ export default function DashboardPage() {
             </div>
           </TabsContent>
 
+          <TabsContent value="equipment" className="space-y-4">
+            <EquipmentPanel />
+          </TabsContent>
+
           <TabsContent value="insights" className="space-y-4">
             <InsightsChat dateRange={dateRange} />
           </TabsContent>
@@ -61,6 +61,11 @@ interface DashboardData {
   }>;
 }
 
+interface DeviceOption {
+  id: number;
+  label: string;
+}
+
 interface OverviewDashboardProps {
   dateRange: { start: string; end: string };
   onDateRangeChange: (range: { start: string; end: string }) => void;
@@ -70,10 +75,19 @@ export function OverviewDashboard({ dateRange, onDateRangeChange }: OverviewDash
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [devices, setDevices] = useState<DeviceOption[]>([]);
+  const [deviceId, setDeviceId] = useState(''); // blank for all devices combined
+
+  useEffect(() => {
+    fetch('/api/devices')
+      .then(response => response.ok ? response.json() : { devices: [] })
+      .then(body => setDevices(body.devices))
+      .catch(() => setDevices([]));
+  }, []);
 
   useEffect(() => {
     fetchDashboardData();
-  }, [dateRange]);
+  }, [dateRange, deviceId]);
 
   const fetchDashboardData = async () => {
     setLoading(true);
@@ -81,7 +95,7 @@ export function OverviewDashboard({ dateRange, onDateRangeChange }: OverviewDash
     
     try {
       const response = await fetch(
-        `/api/dashboard?start=${dateRange.start}&end=${dateRange.end}`
+        `/api/dashboard?start=${dateRange.start}&end=${dateRange.end}${deviceId ? `&device=${deviceId}` : ''}`
       );
       
       if (!response.ok) {
@@ -140,6 +154,23 @@ export function OverviewDashboard({ dateRange, onDateRangeChange }: OverviewDash
 
   return (
     <div className="space-y-6">
+      {devices.length > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <label htmlFor="overview-device" className="text-sm text-muted-foreground">Device</label>
+          <select
+            id="overview-device"
+            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+            value={deviceId}
+            onChange={e => setDeviceId(e.target.value)}
+          >
+            <option value="">All devices</option>
+            {devices.map(device => (
+              <option key={device.id} value={device.id}>{device.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* KPI Cards */}
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         <Card>
@@ -0,0 +1,262 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { addDays } from '@/lib/data/time';
+import { Package, AlertCircle, AlertTriangle, Trash2, Archive } from 'lucide-react';
+
+type EquipmentType = 'mask' | 'cushion' | 'headgear' | 'tubing' | 'filter' | 'water_chamber' | 'other';
+
+interface EquipmentItem {
+  id: number;
+  type: EquipmentType;
+  model: string;
+  startedOn: string;
+  endedOn: string | null;
+  replaceEveryDays: number | null;
+  dueOn: string | null;
+  notes: string | null;
+}
+
+interface ReplacementReminder {
+  item: EquipmentItem;
+  dueOn: string;
+  daysUntilDue: number;
+  status: 'due' | 'overdue';
+}
+
+interface EquipmentForm {
+  type: EquipmentType;
+  model: string;
+  startedOn: string;
+  replaceEveryDays: string; // blank uses the type's usual interval
+  notes: string;
+  replaces: boolean;
+}
+
+const TYPE_LABELS: Record<EquipmentType, string> = {
+  mask: 'Mask',
+  cushion: 'Cushion / pillows',
+  headgear: 'Headgear',
+  tubing: 'Tubing',
+  filter: 'Filter',
+  water_chamber: 'Water chamber',
+  other: 'Other'
+};
+
+const EMPTY_FORM: EquipmentForm = {
+  type: 'mask',
+  model: '',
+  startedOn: '',
+  replaceEveryDays: '',
+  notes: '',
+  replaces: true
+};
+
+const inputClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm';
+
+export function EquipmentPanel() {
+  const [equipment, setEquipment] = useState<EquipmentItem[]>([]);
+  const [reminders, setReminders] = useState<ReplacementReminder[]>([]);
+  const [today, setToday] = useState<string | null>(null);
+  const [form, setForm] = useState<EquipmentForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    fetch('/api/equipment')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load equipment')))
+      .then(body => {
+        setEquipment(body.equipment);
+        setReminders(body.reminders);
+        setToday(body.today);
+      })
+      .catch(err => setError(err.message));
+  }, []);
+
+  useEffect(load, [load]);
+
+  const request = async (url: string, init: RequestInit, failure: string) => {
+    setError(null);
+
+    try {
+      const response = await fetch(url, init);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || failure);
+      }
+      load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    const saved = await request('/api/equipment', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...form,
+        replaceEveryDays: form.replaceEveryDays === '' ? undefined : Number(form.replaceEveryDays)
+      })
+    }, 'Failed to add equipment');
+    if (saved) setForm(EMPTY_FORM);
+    setIsSaving(false);
+  };
+
+  // The last night in use is the sleep day before the current one (or the
+  // item's first night, if it started since)
+  const retire = (item: EquipmentItem) => {
+    const yesterday = addDays(today!, -1);
+    return request(`/api/equipment/${item.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ endedOn: yesterday < item.startedOn ? item.startedOn : yesterday })
+    }, 'Failed to retire equipment');
+  };
+
+  const remove = (item: EquipmentItem) =>
+    request(`/api/equipment/${item.id}`, { method: 'DELETE' }, 'Failed to delete equipment');
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Package className="h-5 w-5" />
+          Equipment
+        </CardTitle>
+        <CardDescription>
+          Masks, cushions, tubing and filters, with when each went into use. Adding a replacement retires the
+          one it replaces, so leak and AHI can be compared before and after the change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reminders.map(reminder => (
+          <div
+            key={reminder.item.id}
+            className={`flex items-center gap-2 rounded-lg border p-3 text-sm ${
+              reminder.status === 'overdue' ? 'border-destructive text-destructive' : 'border-amber-500 text-amber-700'
+            }`}
+          >
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>
+              {TYPE_LABELS[reminder.item.type]} ({reminder.item.model}){' '}
+              {reminder.status === 'overdue' ?
+                `was due for replacement on ${reminder.dueOn} (${-reminder.daysUntilDue} days ago)` :
+                reminder.daysUntilDue === 0 ?
+                  'is due for replacement today' :
+                  `is due for replacement on ${reminder.dueOn} (in ${reminder.daysUntilDue} days)`}
+            </span>
+          </div>
+        ))}
+
+        {equipment.length === 0 && (
+          <p className="text-sm text-muted-foreground">No equipment recorded yet.</p>
+        )}
+
+        {equipment.map(item => (
+          <div key={item.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+            <div className="min-w-0 space-y-1">
+              <p className="font-medium">
+                {item.model} <span className="text-muted-foreground font-normal">· {TYPE_LABELS[item.type]}</span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {item.endedOn ? `${item.startedOn} to ${item.endedOn}` : `In use since ${item.startedOn}`}
+                {item.dueOn && ` · replace by ${item.dueOn}`}
+                {item.notes && ` · ${item.notes}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {!item.endedOn && today && (
+                <Button variant="outline" size="sm" onClick={() => retire(item)}>
+                  <Archive className="h-4 w-4" />
+                  Retire
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => remove(item)}>
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+          <label htmlFor="equipment-type" className="text-sm">Type</label>
+          <select
+            id="equipment-type"
+            className={inputClass}
+            value={form.type}
+            onChange={e => setForm({ ...form, type: e.target.value as EquipmentType })}
+          >
+            {Object.entries(TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+
+          <label htmlFor="equipment-model" className="text-sm">Model</label>
+          <input
+            id="equipment-model"
+            className={inputClass}
+            value={form.model}
+            placeholder="e.g. AirFit F20, medium"
+            onChange={e => setForm({ ...form, model: e.target.value })}
+          />
+
+          <label htmlFor="equipment-started" className="text-sm">First night</label>
+          <input
+            id="equipment-started"
+            type="date"
+            className={inputClass}
+            value={form.startedOn}
+            onChange={e => setForm({ ...form, startedOn: e.target.value })}
+          />
+
+          <label htmlFor="equipment-interval" className="text-sm">Replace every (days)</label>
+          <input
+            id="equipment-interval"
+            type="number"
+            min={1}
+            step={1}
+            className={inputClass}
+            value={form.replaceEveryDays}
+            placeholder="Usual interval for this type"
+            onChange={e => setForm({ ...form, replaceEveryDays: e.target.value })}
+          />
+
+          <label htmlFor="equipment-notes" className="text-sm">Notes</label>
+          <input
+            id="equipment-notes"
+            className={inputClass}
+            value={form.notes}
+            onChange={e => setForm({ ...form, notes: e.target.value })}
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={form.replaces}
+            onChange={e => setForm({ ...form, replaces: e.target.checked })}
+          />
+          Replaces the {TYPE_LABELS[form.type].toLowerCase()} currently in use
+        </label>
+
+        <Button onClick={save} disabled={!form.model.trim() || !form.startedOn || isSaving} className="w-full">
+          {isSaving ? 'Saving...' : 'Add Equipment'}
+        </Button>
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Terminal, AlertCircle, Trash2 } from 'lucide-react';
+
+interface ApiToken {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+const inputClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm';
+
+const SCOPE_LABELS: Record<string, string> = {
+  'read:nightly': 'Read nightly data',
+  'write:upload': 'Upload data',
+  chat: 'Insights chat'
+};
+
+export function ApiTokens() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [created, setCreated] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    fetch('/api/tokens')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load API tokens')))
+      .then(body => {
+        setTokens(body.tokens);
+        setScopes(body.scopes);
+      })
+      .catch(err => setError(err.message));
+  }, []);
+
+  useEffect(load, [load]);
+
+  const create = async () => {
+    setIsSaving(true);
+    setError(null);
+    setCreated(null);
+
+    try {
+      const response = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes: selected })
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.error || 'Failed to create API token');
+      }
+      setCreated(body.token);
+      setName('');
+      setSelected([]);
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API token');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const revoke = async (id: number) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tokens/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to revoke API token');
+      }
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API token');
+    }
+  };
+
+  const toggleScope = (scope: string) => {
+    setSelected(selected.includes(scope) ? selected.filter(s => s !== scope) : [...selected, scope]);
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Terminal className="h-5 w-5" />
+          API Tokens
+        </CardTitle>
+        <CardDescription>
+          For scripts, such as a cron job uploading from the bedside machine or a notebook reading nightly data.
+          Send the token as <code>Authorization: Bearer &lt;token&gt;</code>; it acts as this profile, only for its scopes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tokens.map(token => (
+          <div key={token.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+            <div className="min-w-0 space-y-1">
+              <p className="font-medium">{token.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {token.prefix}… · {token.scopes.join(', ')} · created {token.createdAt.slice(0, 10)} ·{' '}
+                {token.lastUsedAt ? `last used ${token.lastUsedAt}` : 'never used'}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => revoke(token.id)}>
+              <Trash2 className="h-4 w-4" />
+              Revoke
+            </Button>
+          </div>
+        ))}
+
+        {created && (
+          <div className="space-y-1 rounded-lg border border-green-600 p-3">
+            <p className="text-sm">Copy the new token now; it won&apos;t be shown again.</p>
+            <code className="block break-all text-xs">{created}</code>
+          </div>
+        )}
+
+        <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+          <label htmlFor="token-name" className="text-sm">Name</label>
+          <input
+            id="token-name"
+            className={inputClass}
+            placeholder="e.g. Bedside Pi"
+            value={name}
+            onChange={e => setName(e.target.value)}
+          />
+
+          <span className="text-sm">Scopes</span>
+          <div className="flex flex-wrap gap-4">
+            {scopes.map(scope => (
+              <label key={scope} className="flex items-center gap-1 text-sm">
+                <input type="checkbox" checked={selected.includes(scope)} onChange={() => toggleScope(scope)} />
+                {SCOPE_LABELS[scope] ?? scope}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <Button onClick={create} disabled={!name.trim() || selected.length === 0 || isSaving} className="w-full">
+          {isSaving ? 'Creating...' : 'Create Token'}
+        </Button>
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Archive, AlertCircle, CheckCircle, Download } from 'lucide-react';
+
+type RestoreMode = 'replace' | 'merge';
+
+const inputClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm';
+
+const MODES: Array<{ value: RestoreMode; label: string; description: string }> = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Add back rows missing from this database; rows it already has are kept. Only for backups of this installation.'
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Replace all data with the backup\'s, for every profile. Everyone is signed out.'
+  }
+];
+
+// Only shown to the owner, who alone can back up and restore the installation
+export function BackupRestore() {
+  const [isOwner, setIsOwner] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [password, setPassword] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [message, setMessage] = useState<{ kind: 'error' | 'success'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.ok ? response.json() : null)
+      .then(body => setIsOwner(!!body?.user?.isOwner))
+      .catch(() => setIsOwner(false));
+  }, []);
+
+  const handleRestore = async () => {
+    if (!file) return;
+    if (mode === 'replace' && !window.confirm('Replace all data, for every profile, with the backup?')) return;
+
+    setIsRestoring(true);
+    setMessage(null);
+
+    try {
+      // The archive is the request body, so the server can unzip it as it arrives
+      const response = await fetch(`/api/backup/restore?mode=${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/zip', 'X-Password': encodeURIComponent(password) },
+        body: file
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.error || 'Failed to restore backup');
+      }
+
+      if (mode === 'replace') {
+        window.location.href = '/login';
+        return;
+      }
+      const added = Object.values(body.rows as Record<string, number>).reduce((sum, n) => sum + n, 0);
+      setFile(null);
+      setPassword('');
+      setMessage({
+        kind: 'success',
+        text: `Backup merged: ${added} rows added, ${body.nightsRecalculated} night(s) recalculated.`
+      });
+    } catch (err) {
+      setMessage({ kind: 'error', text: err instanceof Error ? err.message : 'Failed to restore backup' });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOwner) return null;
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Backup &amp; Restore
+        </CardTitle>
+        <CardDescription>
+          A backup holds the data of every profile, password hashes included, so keep it somewhere safe.
+          Backups of an encrypted database stay encrypted with CPAP_DB_KEY.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button asChild variant="outline" className="w-full">
+          <a href="/api/backup" download>
+            <Download className="h-4 w-4" />
+            Download Backup
+          </a>
+        </Button>
+
+        <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+          <label htmlFor="restore-file" className="text-sm">Backup</label>
+          <input
+            id="restore-file"
+            type="file"
+            accept=".zip"
+            className="text-sm"
+            onChange={e => setFile(e.target.files?.[0] ?? null)}
+          />
+
+          <label htmlFor="restore-password" className="text-sm">Your password</label>
+          <input
+            id="restore-password"
+            type="password"
+            autoComplete="current-password"
+            className={inputClass}
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          {MODES.map(option => (
+            <label key={option.value} className="flex items-start gap-2 text-sm">
+              <input
+                type="radio"
+                name="restore-mode"
+                className="mt-1"
+                checked={mode === option.value}
+                onChange={() => setMode(option.value)}
+              />
+              <span>
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-xs text-muted-foreground">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <Button onClick={handleRestore} disabled={!file || !password || isRestoring} className="w-full">
+          {isRestoring ? 'Restoring...' : 'Restore Backup'}
+        </Button>
+
+        {message && (
+          <div className={`flex items-center gap-2 ${message.kind === 'error' ? 'text-destructive' : 'text-green-600'}`}>
+            {message.kind === 'error' ? <AlertCircle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+            <span className="text-sm">{message.text}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { KeyRound, AlertCircle, CheckCircle } from 'lucide-react';
+
+const inputClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm';
+
+const EMPTY_FORM = { currentPassword: '', newPassword: '', confirmation: '' };
+
+export function PasswordSettings() {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: 'error' | 'success'; text: string } | null>(null);
+
+  const handleSave = async () => {
+    if (form.newPassword !== form.confirmation) {
+      setMessage({ kind: 'error', text: 'New passwords do not match' });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/auth/password', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword: form.currentPassword, newPassword: form.newPassword })
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to change password');
+      }
+      setForm(EMPTY_FORM);
+      setMessage({ kind: 'success', text: 'Password changed. Other sessions have been signed out.' });
+    } catch (err) {
+      setMessage({ kind: 'error', text: err instanceof Error ? err.message : 'Failed to change password' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fields: Array<{ key: keyof typeof EMPTY_FORM; label: string; autoComplete: string }> = [
+    { key: 'currentPassword', label: 'Current password', autoComplete: 'current-password' },
+    { key: 'newPassword', label: 'New password', autoComplete: 'new-password' },
+    { key: 'confirmation', label: 'Repeat new password', autoComplete: 'new-password' }
+  ];
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Password
+        </CardTitle>
+        <CardDescription>
+          The password this profile signs in with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+          {fields.map(field => (
+            <React.Fragment key={field.key}>
+              <label htmlFor={`password-${field.key}`} className="text-sm">{field.label}</label>
+              <input
+                id={`password-${field.key}`}
+                type="password"
+                autoComplete={field.autoComplete}
+                className={inputClass}
+                value={form[field.key]}
+                onChange={e => setForm({ ...form, [field.key]: e.target.value })}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={!form.currentPassword || !form.newPassword || isSaving}
+          className="w-full"
+        >
+          {isSaving ? 'Saving...' : 'Change Password'}
+        </Button>
+
+        {message && (
+          <div className={`flex items-center gap-2 ${message.kind === 'error' ? 'text-destructive' : 'text-green-600'}`}>
+            {message.kind === 'error' ? <AlertCircle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+            <span className="text-sm">{message.text}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
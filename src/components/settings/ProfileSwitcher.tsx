@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { UserRound, Plus, PencilLine, Check, X, LogOut } from 'lucide-react';
+
+interface Profile {
+  id: number;
+  name: string;
+  nights: number;
+  hasPassword: boolean;
+  isOwner: boolean;
+}
+
+const inputClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm';
+
+// add: a new profile with its password; rename: the signed-in profile;
+// claim: the first password of a profile that has none (owner only)
+type Editing = { mode: 'add' } | { mode: 'rename' } | { mode: 'claim'; profile: Profile };
+
+function signInAs(name: string) {
+  window.location.href = `/login?name=${encodeURIComponent(name)}`;
+}
+
+// Every API route and analytics tool works on the signed-in profile, so
+// switching profiles means signing in as the other one
+export function ProfileSwitcher() {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [currentId, setCurrentId] = useState<number | null>(null);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/users')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load profiles')))
+      .then(body => {
+        setProfiles(body.users);
+        setCurrentId(body.currentUserId);
+      })
+      .catch(err => setError(err.message));
+  }, []);
+
+  const current = profiles.find(profile => profile.id === currentId);
+
+  const startEditing = (next: Editing, initialName = '') => {
+    setName(initialName);
+    setPassword('');
+    setError(null);
+    setEditing(next);
+  };
+
+  const select = (id: number) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    if (profile.hasPassword) {
+      signInAs(profile.name);
+    } else if (current?.isOwner) {
+      startEditing({ mode: 'claim', profile });
+    } else {
+      setError(`${profile.name} has no password yet; the owner can set one`);
+    }
+  };
+
+  const save = async () => {
+    if (!editing) return;
+    setError(null);
+
+    const [url, method, payload] =
+      editing.mode === 'add' ? ['/api/users', 'POST', { name, password }] :
+      editing.mode === 'rename' ? [`/api/users/${currentId}`, 'PUT', { name }] :
+      [`/api/users/${editing.profile.id}`, 'PUT', { password }];
+
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      setError(body?.error || 'Failed to save profile');
+      return;
+    }
+
+    if (editing.mode === 'rename') {
+      setProfiles(profiles.map(profile => profile.id === body.user.id ? body.user : profile));
+      setEditing(null);
+    } else {
+      signInAs(body.user.name);
+    }
+  };
+
+  const signOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => null);
+    window.location.href = '/login';
+  };
+
+  const canSave = editing?.mode === 'claim' ? !!password :
+    editing?.mode === 'add' ? !!name.trim() && !!password : !!name.trim();
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-2 text-sm">
+        <UserRound className="h-4 w-4 text-muted-foreground" />
+        {editing ? (
+          <>
+            {editing.mode === 'claim' && (
+              <span className="text-muted-foreground">Password for {editing.profile.name}</span>
+            )}
+            {editing.mode !== 'claim' && (
+              <input
+                aria-label="Profile name"
+                placeholder="Name"
+                className={inputClass}
+                value={name}
+                maxLength={50}
+                autoFocus
+                onChange={e => setName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && canSave && save()}
+              />
+            )}
+            {editing.mode !== 'rename' && (
+              <input
+                aria-label="Password"
+                type="password"
+                placeholder="Password"
+                autoComplete="new-password"
+                className={inputClass}
+                value={password}
+                autoFocus={editing.mode === 'claim'}
+                onChange={e => setPassword(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && canSave && save()}
+              />
+            )}
+            <Button variant="ghost" size="sm" onClick={save} disabled={!canSave}>
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => { setEditing(null); setError(null); }}>
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        ) : (
+          <>
+            <select
+              aria-label="Profile"
+              className={inputClass}
+              value={currentId ?? ''}
+              onChange={e => select(Number(e.target.value))}
+            >
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name} ({profile.nights} nights)
+                </option>
+              ))}
+            </select>
+            {current && (
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Rename profile"
+                onClick={() => startEditing({ mode: 'rename' }, current.name)}
+              >
+                <PencilLine className="h-4 w-4" />
+              </Button>
+            )}
+            {current?.isOwner && (
+              <Button variant="ghost" size="sm" title="Add profile" onClick={() => startEditing({ mode: 'add' })}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" title="Sign out" onClick={signOut}>
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </div>
+  );
+}
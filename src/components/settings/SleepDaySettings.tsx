@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Clock, AlertCircle, CheckCircle } from 'lucide-react';
+
+export interface SleepDaySettingsValue {
+  timezone: string;
+  sleepDayStartHour: number;
+  sessionGapMinutes: number;
+}
+
+interface SleepDaySettingsProps {
+  onSaved?: (settings: SleepDaySettingsValue) => void;
+}
+
+const inputClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm';
+
+function formatHour(hour: number) {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+export function SleepDaySettings({ onSaved }: SleepDaySettingsProps) {
+  const [settings, setSettings] = useState<SleepDaySettingsValue | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: 'error' | 'success'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetch('/api/settings')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load settings')))
+      .then(body => setSettings(body.settings))
+      .catch(err => setMessage({ kind: 'error', text: err.message }));
+  }, []);
+
+  const timeZones = typeof Intl.supportedValuesOf === 'function' ?
+    Intl.supportedValuesOf('timeZone') : [];
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(body?.error || 'Failed to save settings');
+      }
+
+      setSettings(body.settings);
+      onSaved?.(body.settings);
+      setMessage({
+        kind: 'success',
+        text: body.recalculated ?
+          `Saved. Recalculated ${body.recalculated.nightsImported} night(s).` : 'Saved.'
+      });
+    } catch (err) {
+      setMessage({ kind: 'error', text: err instanceof Error ? err.message : 'Failed to save settings' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Sleep Day
+        </CardTitle>
+        <CardDescription>
+          Which night a sample belongs to. A night runs from the boundary hour to the same time the next day,
+          measured on the device clock in this time zone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settings && (
+          <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+            <label htmlFor="settings-timezone" className="text-sm">Time zone</label>
+            <select
+              id="settings-timezone"
+              className={inputClass}
+              value={settings.timezone}
+              onChange={e => setSettings({ ...settings, timezone: e.target.value })}
+            >
+              {!timeZones.includes(settings.timezone) && (
+                <option value={settings.timezone}>{settings.timezone}</option>
+              )}
+              {timeZones.map(zone => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+
+            <label htmlFor="settings-boundary" className="text-sm">Day boundary</label>
+            <select
+              id="settings-boundary"
+              className={inputClass}
+              value={settings.sleepDayStartHour}
+              onChange={e => setSettings({ ...settings, sleepDayStartHour: Number(e.target.value) })}
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <option key={hour} value={hour}>{formatHour(hour)}</option>
+              ))}
+            </select>
+
+            <label htmlFor="settings-gap" className="text-sm">Session gap (minutes)</label>
+            <input
+              id="settings-gap"
+              type="number"
+              min={1}
+              className={inputClass}
+              value={settings.sessionGapMinutes}
+              onChange={e => setSettings({ ...settings, sessionGapMinutes: Number(e.target.value) })}
+            />
+          </div>
+        )}
+
+        <Button onClick={handleSave} disabled={!settings || isSaving} className="w-full">
+          {isSaving ? 'Saving and recalculating...' : 'Save Settings'}
+        </Button>
+
+        {message && (
+          <div className={`flex items-center gap-2 ${message.kind === 'error' ? 'text-destructive' : 'text-green-600'}`}>
+            {message.kind === 'error' ? <AlertCircle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+            <span className="text-sm">{message.text}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
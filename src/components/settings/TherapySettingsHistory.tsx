@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { SlidersHorizontal, AlertCircle, Trash2 } from 'lucide-react';
+
+interface SettingsPeriod {
+  start: string;
+  end: string;
+  label: string;
+  settings: {
+    id: number;
+    source: 'resmed' | 'prs1' | 'csv' | 'manual';
+    notes: string | null;
+  };
+}
+
+interface SettingsForm {
+  date: string;
+  mode: string;
+  pressure: string;
+  minPressure: string;
+  maxPressure: string;
+  epr: string;
+  rampMinutes: string;
+  humidity: string;
+  notes: string;
+}
+
+interface TherapySettingsHistoryProps {
+  // Bump to reload, e.g. after an upload completes
+  refreshKey?: number;
+}
+
+const SOURCE_LABELS: Record<SettingsPeriod['settings']['source'], string> = {
+  resmed: 'ResMed SD card',
+  prs1: 'DreamStation SD card',
+  csv: 'CSV',
+  manual: 'Entered manually'
+};
+
+const EMPTY_FORM: SettingsForm = {
+  date: '',
+  mode: '',
+  pressure: '',
+  minPressure: '',
+  maxPressure: '',
+  epr: '',
+  rampMinutes: '',
+  humidity: '',
+  notes: ''
+};
+
+const inputClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm';
+
+const NUMBER_FIELDS: Array<{ key: keyof SettingsForm; label: string; step: number }> = [
+  { key: 'pressure', label: 'Pressure (cmH2O)', step: 0.5 },
+  { key: 'minPressure', label: 'Min pressure (cmH2O)', step: 0.5 },
+  { key: 'maxPressure', label: 'Max pressure (cmH2O)', step: 0.5 },
+  { key: 'epr', label: 'EPR / Flex', step: 1 },
+  { key: 'rampMinutes', label: 'Ramp (minutes)', step: 5 },
+  { key: 'humidity', label: 'Humidity level', step: 1 }
+];
+
+export function TherapySettingsHistory({ refreshKey }: TherapySettingsHistoryProps) {
+  const [periods, setPeriods] = useState<SettingsPeriod[]>([]);
+  const [form, setForm] = useState<SettingsForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    fetch('/api/therapy-settings')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load therapy settings')))
+      .then(body => setPeriods(body.periods))
+      .catch(err => setError(err.message));
+  }, []);
+
+  useEffect(load, [load, refreshKey]);
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/therapy-settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to save therapy settings');
+      }
+      setForm(EMPTY_FORM);
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save therapy settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (id: number) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/therapy-settings/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to delete therapy settings');
+      }
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete therapy settings');
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Machine Settings
+        </CardTitle>
+        <CardDescription>
+          Therapy mode and comfort settings over time, read from SD card imports. Record changes the card
+          doesn&apos;t show (or nights imported from CSV) here; an entry applies from its date on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {periods.length === 0 && (
+          <p className="text-sm text-muted-foreground">No settings recorded yet.</p>
+        )}
+
+        {[...periods].reverse().map(period => (
+          <div key={`${period.start}-${period.settings.id}`} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+            <div className="min-w-0 space-y-1">
+              <p className="font-medium">{period.label}</p>
+              <p className="text-xs text-muted-foreground">
+                {period.start} to {period.end} · {SOURCE_LABELS[period.settings.source]}
+                {period.settings.notes && ` · ${period.settings.notes}`}
+              </p>
+            </div>
+            {period.settings.source === 'manual' && (
+              <Button variant="outline" size="sm" onClick={() => remove(period.settings.id)}>
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            )}
+          </div>
+        ))}
+
+        <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+          <label htmlFor="therapy-date" className="text-sm">From</label>
+          <input
+            id="therapy-date"
+            type="date"
+            className={inputClass}
+            value={form.date}
+            onChange={e => setForm({ ...form, date: e.target.value })}
+          />
+
+          <label htmlFor="therapy-mode" className="text-sm">Mode</label>
+          <select
+            id="therapy-mode"
+            className={inputClass}
+            value={form.mode}
+            onChange={e => setForm({ ...form, mode: e.target.value })}
+          >
+            <option value="">Not set</option>
+            <option value="CPAP">CPAP</option>
+            <option value="APAP">APAP</option>
+            <option value="BiLevel">BiLevel</option>
+            <option value="ASV">ASV</option>
+          </select>
+
+          {NUMBER_FIELDS.map(field => (
+            <React.Fragment key={field.key}>
+              <label htmlFor={`therapy-${field.key}`} className="text-sm">{field.label}</label>
+              <input
+                id={`therapy-${field.key}`}
+                type="number"
+                min={0}
+                step={field.step}
+                className={inputClass}
+                value={form[field.key]}
+                onChange={e => setForm({ ...form, [field.key]: e.target.value })}
+              />
+            </React.Fragment>
+          ))}
+
+          <label htmlFor="therapy-notes" className="text-sm">Notes</label>
+          <input
+            id="therapy-notes"
+            className={inputClass}
+            value={form.notes}
+            placeholder="e.g. changed at sleep clinic follow-up"
+            onChange={e => setForm({ ...form, notes: e.target.value })}
+          />
+        </div>
+
+        <Button onClick={save} disabled={!form.date || isSaving} className="w-full">
+          {isSaving ? 'Saving...' : 'Add Settings Change'}
+        </Button>
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
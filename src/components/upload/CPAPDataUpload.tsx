@@ -1,24 +1,77 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Upload, FileText, CheckCircle, AlertCircle, X } from 'lucide-react';
+import { ColumnMappingStep, CSVPreview, MappingSelection } from './ColumnMappingStep';
+import { isViatomFileName } from '@/lib/data/oximetry';
 
 interface IngestResult {
   nightsImported: number;
   samplesImported: number;
   eventsImported: number;
+  oximetryImported: number;
+  rowsNew: number;
+  rowsDuplicated: number;
+  rowsUpdated: number;
   errors: string[];
   dateRange: { start: string; end: string } | null;
 }
 
-export function CPAPDataUpload() {
+interface ImportJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress: {
+    phase: 'parsing' | 'computing';
+    rowsParsed: number;
+    parsedFraction: number | null;
+    nightsTotal: number;
+    nightsComputed: number;
+  };
+  errors: string[];
+  result: IngestResult | null;
+}
+
+function isFinished(job: ImportJob) {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+// Reading the file takes most of an import; recomputing nights the rest
+function progressPercent(job: ImportJob) {
+  const { phase, parsedFraction, nightsTotal, nightsComputed } = job.progress;
+  if (job.status === 'queued') return 0;
+  if (phase === 'parsing') return (parsedFraction ?? 0) * 80;
+  return 80 + (nightsTotal > 0 ? (nightsComputed / nightsTotal) * 20 : 20);
+}
+
+function progressLabel(job: ImportJob) {
+  const { phase, rowsParsed, nightsTotal, nightsComputed } = job.progress;
+  if (job.status === 'queued') return 'Waiting for another import to finish...';
+  if (phase === 'parsing') return `Reading data: ${rowsParsed.toLocaleString()} rows`;
+  return `Computing nights: ${nightsComputed} of ${nightsTotal}`;
+}
+
+interface CPAPDataUploadProps {
+  onImported?: (result: IngestResult) => void;
+}
+
+function isSupportedFile(file: File) {
+  const name = file.name.toLowerCase();
+  return file.type === 'text/csv' || name.endsWith('.csv') || name.endsWith('.zip') || isViatomFileName(name);
+}
+
+export function CPAPDataUpload({ onImported }: CPAPDataUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadResult, setUploadResult] = useState<IngestResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<CSVPreview | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const stopWatching = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopWatching.current?.(), []);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -35,14 +88,15 @@ export function CPAPDataUpload() {
     setIsDragging(false);
     
     const files = Array.from(e.dataTransfer.files);
-    const csvFile = files.find(f => f.type === 'text/csv' || f.name.endsWith('.csv'));
+    const dataFile = files.find(f => isSupportedFile(f));
     
-    if (csvFile) {
-      setFile(csvFile);
+    if (dataFile) {
+      setFile(dataFile);
       setError(null);
       setUploadResult(null);
+      setPreview(null);
     } else {
-      setError('Please drop a CSV file');
+      setError('Please drop a CSV file, a zipped SD card or an oximeter recording');
     }
   }, []);
 
@@ -52,33 +106,124 @@ export function CPAPDataUpload() {
       setFile(selectedFile);
       setError(null);
       setUploadResult(null);
+      setPreview(null);
     }
   }, []);
 
-  const handleUpload = async () => {
-    if (!file) return;
+  const postFile = async (fields: Record<string, string>) => {
+    const formData = new FormData();
+    formData.append('file', file!);
+    for (const [key, value] of Object.entries(fields)) {
+      formData.append(key, value);
+    }
+
+    const response = await fetch('/api/upload', {
+      method: 'POST',
+      body: formData,
+    });
 
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || 'Upload failed');
+    }
+
+    return response.json();
+  };
+
+  const handleJobUpdate = (update: ImportJob) => {
+    setJob(update);
+    if (!isFinished(update)) return;
+
+    stopWatching.current?.();
+    stopWatching.current = null;
+    setIsUploading(false);
+    setJob(null);
+
+    if (update.status === 'completed' && update.result) {
+      setUploadResult(update.result);
+      onImported?.(update.result);
+    } else if (update.status === 'cancelled') {
+      setError('Import cancelled; nothing was saved');
+    } else {
+      setError(update.errors[0] || 'Import failed');
+    }
+  };
+
+  // Follow a job over server-sent events, falling back to polling if the
+  // stream drops
+  const watchJob = (jobId: string) => {
+    const events = new EventSource(`/api/upload/jobs/${jobId}/events`);
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    events.onmessage = e => handleJobUpdate(JSON.parse(e.data));
+    events.onerror = () => {
+      events.close();
+      if (timer) return;
+      timer = setInterval(async () => {
+        const response = await fetch(`/api/upload/jobs/${jobId}`).catch(() => null);
+        if (response?.ok) handleJobUpdate((await response.json()).job);
+      }, 1000);
+    };
+
+    stopWatching.current = () => {
+      events.close();
+      if (timer) clearInterval(timer);
+    };
+  };
+
+  const importFile = async (selection?: MappingSelection) => {
     setIsUploading(true);
     setError(null);
 
     try {
-      const formData = new FormData();
-      formData.append('file', file);
+      const fields: Record<string, string> = {};
+      if (selection) {
+        fields.mapping = JSON.stringify(selection.mapping);
+        fields.units = JSON.stringify(selection.units);
+        if (selection.saveProfileAs) fields.saveProfileAs = selection.saveProfileAs;
+      }
 
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      });
+      const { job: queued }: { job: ImportJob } = await postFile(fields);
+      setPreview(null);
+      setJob(queued);
+      watchJob(queued.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed');
+      setIsUploading(false);
+    }
+  };
 
-      if (!response.ok) {
-        throw new Error('Upload failed');
-      }
+  const cancelJob = async () => {
+    if (!job) return;
+
+    const response = await fetch(`/api/upload/jobs/${job.id}`, { method: 'DELETE' }).catch(() => null);
+    if (!response?.ok) {
+      setError('Failed to cancel import');
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    if (file.name.toLowerCase().endsWith('.zip') || isViatomFileName(file.name)) {
+      return importFile();
+    }
+
+    // CSVs in a known layout import straight away; anything else (or a layout
+    // with a saved profile) goes through the column-mapping step first
+    setIsUploading(true);
+    setError(null);
 
-      const result: IngestResult = await response.json();
-      setUploadResult(result);
+    try {
+      const csvPreview: CSVPreview = await postFile({ mode: 'preview' });
+      if (csvPreview.layout && !csvPreview.profile) {
+        setIsUploading(false);
+        return importFile();
+      }
+      setPreview(csvPreview);
+      setIsUploading(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Upload failed');
-    } finally {
       setIsUploading(false);
     }
   };
@@ -87,6 +232,7 @@ export function CPAPDataUpload() {
     setFile(null);
     setError(null);
     setUploadResult(null);
+    setPreview(null);
   };
 
   return (
@@ -97,8 +243,8 @@ export function CPAPDataUpload() {
           Upload CPAP Data
         </CardTitle>
         <CardDescription>
-          Upload your CPAP data in CSV format. This should include timestamped measurements 
-          for leak rate, pressure, flow limitation, and events.
+          Upload your CPAP data in CSV format, or a zip of a ResMed AirSense 10/11 or Philips DreamStation SD card. 
+          This should include timestamped measurements for leak rate, pressure, flow limitation, and events.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -124,18 +270,18 @@ export function CPAPDataUpload() {
                   </p>
                 </div>
               </div>
-              <Button variant="ghost" size="sm" onClick={clearFile}>
+              <Button variant="ghost" size="sm" onClick={clearFile} disabled={!!job}>
                 <X className="h-4 w-4" />
               </Button>
             </div>
           ) : (
             <div className="space-y-2">
               <Upload className="h-12 w-12 mx-auto text-muted-foreground" />
-              <p className="text-lg font-medium">Drop your CSV file here</p>
+              <p className="text-lg font-medium">Drop your CSV or SD card zip here</p>
               <p className="text-sm text-muted-foreground">or click to browse</p>
               <input
                 type="file"
-                accept=".csv"
+                accept=".csv,.zip,.dat"
                 onChange={handleFileSelect}
                 className="hidden"
                 id="file-upload"
@@ -149,8 +295,37 @@ export function CPAPDataUpload() {
           )}
         </div>
 
+        {/* Column mapping for unrecognised CSV layouts */}
+        {file && preview && (
+          <ColumnMappingStep
+            preview={preview}
+            isUploading={isUploading}
+            onConfirm={importFile}
+            onCancel={() => setPreview(null)}
+          />
+        )}
+
+        {/* Import progress */}
+        {job && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>{progressLabel(job)}</span>
+              <span className="text-muted-foreground">{Math.round(progressPercent(job))}%</span>
+            </div>
+            <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${progressPercent(job)}%` }}
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={cancelJob} className="w-full">
+              Cancel import
+            </Button>
+          </div>
+        )}
+
         {/* Upload Button */}
-        {file && (
+        {file && !preview && !job && (
           <Button 
             onClick={handleUpload} 
             disabled={isUploading}
@@ -176,7 +351,7 @@ export function CPAPDataUpload() {
               <span className="font-medium">Upload successful!</span>
             </div>
             
-            <div className="grid grid-cols-3 gap-4 p-4 bg-muted rounded-lg">
+            <div className={`grid ${uploadResult.oximetryImported > 0 ? 'grid-cols-4' : 'grid-cols-3'} gap-4 p-4 bg-muted rounded-lg`}>
               <div className="text-center">
                 <p className="text-2xl font-bold">{uploadResult.nightsImported}</p>
                 <p className="text-sm text-muted-foreground">Nights</p>
@@ -189,8 +364,21 @@ export function CPAPDataUpload() {
                 <p className="text-2xl font-bold">{uploadResult.eventsImported}</p>
                 <p className="text-sm text-muted-foreground">Events</p>
               </div>
+              {uploadResult.oximetryImported > 0 && (
+                <div className="text-center">
+                  <p className="text-2xl font-bold">{uploadResult.oximetryImported.toLocaleString()}</p>
+                  <p className="text-sm text-muted-foreground">SpO2 readings</p>
+                </div>
+              )}
             </div>
 
+            {(uploadResult.rowsDuplicated > 0 || uploadResult.rowsUpdated > 0) && (
+              <p className="text-sm text-muted-foreground">
+                {uploadResult.rowsNew.toLocaleString()} new, {uploadResult.rowsDuplicated.toLocaleString()} already
+                imported, {uploadResult.rowsUpdated.toLocaleString()} updated
+              </p>
+            )}
+
             {uploadResult.dateRange && (
               <p className="text-sm text-muted-foreground">
                 Data range: {uploadResult.dateRange.start} to {uploadResult.dateRange.end}
@@ -213,6 +401,11 @@ export function CPAPDataUpload() {
           <p>Expected CSV format:</p>
           <p>timestamp, leak_rate, pressure, flow_limitation, mask_on, event_type, event_duration</p>
           <p>All fields are optional except timestamp.</p>
+          <p>OSCAR Summary, Sessions and Details exports and SleepHQ exports are recognised automatically.</p>
+          <p>Other CSV layouts can be mapped column by column and saved as a profile for later uploads.</p>
+          <p>ResMed: zip the SD card root (STR.edf and the DATALOG folder) and upload the .zip.</p>
+          <p>Philips DreamStation / System One: zip the SD card root containing the P-Series folder.</p>
+          <p>Oximeters: Wellue/Viatom and Contec CSV exports, or Viatom recordings from the ViHealth app (one file, or several in a .zip).</p>
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  MAPPABLE_FIELDS, UNIT_OPTIONS, ColumnMapping, ColumnUnits, MappableField
+} from '@/lib/data/csv-formats';
+
+export interface CSVPreview {
+  headers: string[];
+  sampleRows: string[][];
+  layout: string | null;
+  suggestedMapping: ColumnMapping;
+  suggestedUnits: ColumnUnits;
+  profile: ImportProfile | null;
+}
+
+interface ImportProfile {
+  id: number;
+  name: string;
+  mapping: ColumnMapping;
+  units: ColumnUnits;
+}
+
+export interface MappingSelection {
+  mapping: ColumnMapping;
+  units: ColumnUnits;
+  saveProfileAs?: string;
+}
+
+const FIELD_LABELS: Record<MappableField, string> = {
+  timestamp: 'Timestamp',
+  leak_rate: 'Leak rate',
+  pressure: 'Pressure',
+  flow_limitation: 'Flow limitation',
+  mask_on: 'Mask on',
+  event_type: 'Event type',
+  event_duration: 'Event duration',
+  event_severity: 'Event severity'
+};
+
+const selectClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm';
+
+interface ColumnMappingStepProps {
+  preview: CSVPreview;
+  isUploading: boolean;
+  onConfirm: (selection: MappingSelection) => void;
+  onCancel: () => void;
+}
+
+export function ColumnMappingStep({ preview, isUploading, onConfirm, onCancel }: ColumnMappingStepProps) {
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(preview.profile?.mapping ?? preview.suggestedMapping);
+  const [units, setUnits] = useState<ColumnUnits>(preview.profile?.units ?? preview.suggestedUnits);
+  const [profileName, setProfileName] = useState('');
+
+  useEffect(() => {
+    fetch('/api/import-profiles')
+      .then(response => response.ok ? response.json() : { profiles: [] })
+      .then(body => setProfiles(body.profiles))
+      .catch(() => setProfiles([]));
+  }, []);
+
+  const applyProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === Number(id));
+    if (profile) {
+      setMapping(profile.mapping);
+      setUnits(profile.units);
+    }
+  };
+
+  const setColumn = (field: MappableField, header: string) => {
+    setMapping(current => ({ ...current, [field]: header || undefined }));
+  };
+
+  const setUnit = (field: keyof ColumnUnits, unit: string) => {
+    setUnits(current => ({ ...current, [field]: unit }));
+  };
+
+  const mappedHeaders = MAPPABLE_FIELDS.map(f => mapping[f]).filter(Boolean) as string[];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="font-medium">
+          {preview.profile ? `Using saved profile "${preview.profile.name}"` : 'Unrecognised CSV layout'}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Confirm which column holds each value and the units it is recorded in.
+        </p>
+      </div>
+
+      {profiles.length > 0 && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="import-profile" className="text-sm">Saved profile</label>
+          <select
+            id="import-profile"
+            className={selectClass}
+            defaultValue={preview.profile?.id ?? ''}
+            onChange={e => applyProfile(e.target.value)}
+          >
+            <option value="">Suggested mapping</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-[auto_1fr_auto] items-center gap-2">
+        {MAPPABLE_FIELDS.map(field => {
+          const unitOptions = (UNIT_OPTIONS as Record<string, readonly string[]>)[field];
+          return (
+            <React.Fragment key={field}>
+              <span className="text-sm">
+                {FIELD_LABELS[field]}{field === 'timestamp' && ' *'}
+              </span>
+              <select
+                className={selectClass}
+                value={mapping[field] ?? ''}
+                onChange={e => setColumn(field, e.target.value)}
+              >
+                <option value="">Not mapped</option>
+                {preview.headers.map(header => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+              {unitOptions ? (
+                <select
+                  className={selectClass}
+                  value={units[field as keyof ColumnUnits] ?? unitOptions[0]}
+                  onChange={e => setUnit(field as keyof ColumnUnits, e.target.value)}
+                  disabled={!mapping[field]}
+                >
+                  {unitOptions.map(unit => (
+                    <option key={unit} value={unit}>{unit}</option>
+                  ))}
+                </select>
+              ) : <span />}
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      {/* Sample rows, mapped columns only */}
+      {mappedHeaders.length > 0 && (
+        <div className="overflow-x-auto rounded-lg bg-muted p-2">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                {mappedHeaders.map(header => (
+                  <th key={header} className="px-2 py-1 text-left font-medium">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.sampleRows.map((row, i) => (
+                <tr key={i}>
+                  {mappedHeaders.map(header => (
+                    <td key={header} className="px-2 py-1 text-muted-foreground">
+                      {row[preview.headers.indexOf(header)]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          placeholder="Save as profile (optional)"
+          value={profileName}
+          onChange={e => setProfileName(e.target.value)}
+          className="h-8 flex-1 rounded-md border border-input bg-background px-2 text-sm"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          className="flex-1"
+          disabled={isUploading || !mapping.timestamp}
+          onClick={() => onConfirm({ mapping, units, saveProfileAs: profileName.trim() || undefined })}
+        >
+          {isUploading ? 'Importing...' : 'Import with this mapping'}
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={isUploading}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { History, AlertCircle, Undo2 } from 'lucide-react';
+
+interface ImportRecord {
+  id: number;
+  fileName: string | null;
+  fileSize: number | null;
+  sourceFormat: string;
+  rowsNew: number;
+  rowsDuplicated: number;
+  rowsUpdated: number;
+  nightsImported: number;
+  dateRange: { start: string; end: string } | null;
+  errors: string[];
+  createdAt: string;
+  undoneAt: string | null;
+}
+
+interface ImportHistoryProps {
+  // Bump to reload, e.g. after an upload completes
+  refreshKey?: number;
+}
+
+const FORMAT_LABELS: Record<string, string> = {
+  simplified: 'CSV',
+  'oscar-summary': 'OSCAR Summary',
+  'oscar-sessions': 'OSCAR Sessions',
+  'oscar-details': 'OSCAR Details',
+  sleephq: 'SleepHQ',
+  oximetry: 'Oximeter CSV',
+  viatom: 'Viatom oximeter',
+  resmed: 'ResMed SD card',
+  prs1: 'DreamStation SD card'
+};
+
+// Ledger timestamps are SQLite CURRENT_TIMESTAMP values (UTC)
+function formatTime(timestamp: string) {
+  return new Date(timestamp.replace(' ', 'T') + 'Z').toLocaleString();
+}
+
+export function ImportHistory({ refreshKey }: ImportHistoryProps) {
+  const [imports, setImports] = useState<ImportRecord[]>([]);
+  const [undoingId, setUndoingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    fetch('/api/imports')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load import history')))
+      .then(body => setImports(body.imports))
+      .catch(err => setError(err.message));
+  }, []);
+
+  useEffect(load, [load, refreshKey]);
+
+  const undo = async (record: ImportRecord) => {
+    const name = record.fileName ?? `import #${record.id}`;
+    if (!window.confirm(`Undo ${name}? Its samples, events and nights will be removed.`)) return;
+
+    setUndoingId(record.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/imports/${record.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to undo import');
+      }
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo import');
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Import History
+        </CardTitle>
+        <CardDescription>
+          Every upload, newest first. Undoing an import removes the rows it added and recalculates the nights it touched.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {imports.length === 0 && (
+          <p className="text-sm text-muted-foreground">No imports yet.</p>
+        )}
+
+        {imports.map(record => (
+          <div key={record.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+            <div className="min-w-0 space-y-1">
+              <p className={`truncate font-medium ${record.undoneAt ? 'line-through text-muted-foreground' : ''}`}>
+                {record.fileName ?? `Import #${record.id}`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {FORMAT_LABELS[record.sourceFormat] ?? record.sourceFormat} · {formatTime(record.createdAt)}
+                {record.fileSize !== null && ` · ${(record.fileSize / 1024).toFixed(1)} KB`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {record.rowsNew.toLocaleString()} new, {record.rowsDuplicated.toLocaleString()} already imported,{' '}
+                {record.rowsUpdated.toLocaleString()} updated · {record.nightsImported} night(s)
+                {record.dateRange && ` · ${record.dateRange.start} to ${record.dateRange.end}`}
+              </p>
+              {record.errors.length > 0 && (
+                <p className="text-xs text-yellow-600">{record.errors.length} warning(s): {record.errors[0]}</p>
+              )}
+              {record.undoneAt && (
+                <p className="text-xs text-muted-foreground">Undone {formatTime(record.undoneAt)}</p>
+              )}
+            </div>
+            {!record.undoneAt && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => undo(record)}
+                disabled={undoingId !== null}
+              >
+                <Undo2 className="h-4 w-4" />
+                {undoingId === record.id ? 'Undoing...' : 'Undo'}
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
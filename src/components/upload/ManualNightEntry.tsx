@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { PencilLine, AlertCircle, Trash2 } from 'lucide-react';
+
+interface ManualNight {
+  date: string;
+  usageMinutes: number;
+  ahi: number | null;
+  leakRate: number | null;
+  largeLeakPercent: number | null;
+  pressure: number | null;
+}
+
+interface NightForm {
+  date: string;
+  usageHours: string;
+  ahi: string;
+  leakRate: string;
+  largeLeakPercent: string;
+  pressure: string;
+}
+
+const EMPTY_FORM: NightForm = {
+  date: '',
+  usageHours: '',
+  ahi: '',
+  leakRate: '',
+  largeLeakPercent: '',
+  pressure: ''
+};
+
+const inputClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm';
+
+const NUMBER_FIELDS: Array<{ key: keyof NightForm; label: string; step: number }> = [
+  { key: 'usageHours', label: 'Usage (hours)', step: 0.1 },
+  { key: 'ahi', label: 'AHI (events/hour)', step: 0.1 },
+  { key: 'leakRate', label: 'Leak (L/min)', step: 1 },
+  { key: 'largeLeakPercent', label: 'Large leak (%)', step: 1 },
+  { key: 'pressure', label: 'Pressure (cmH2O)', step: 0.5 }
+];
+
+export function ManualNightEntry() {
+  const [nights, setNights] = useState<ManualNight[]>([]);
+  const [form, setForm] = useState<NightForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    fetch('/api/manual-nights')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load manual nights')))
+      .then(body => setNights(body.nights))
+      .catch(err => setError(err.message));
+  }, []);
+
+  useEffect(load, [load]);
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { usageHours, ...values } = form;
+      const response = await fetch('/api/manual-nights', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...values, usageMinutes: Math.round(Number(usageHours) * 60) })
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to save night');
+      }
+      setForm(EMPTY_FORM);
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save night');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (date: string) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/manual-nights/${date}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to delete night');
+      }
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete night');
+    }
+  };
+
+  const describe = (night: ManualNight) => [
+    `${(night.usageMinutes / 60).toFixed(1)} h`,
+    night.ahi !== null && `AHI ${night.ahi}`,
+    night.leakRate !== null && `leak ${night.leakRate} L/min`,
+    night.largeLeakPercent !== null && `large leak ${night.largeLeakPercent}%`,
+    night.pressure !== null && `${night.pressure} cmH2O`
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PencilLine className="h-5 w-5" />
+          Manual Nights
+        </CardTitle>
+        <CardDescription>
+          For machines that only show results on their screen: enter a night&apos;s usage, AHI and leak by hand.
+          Manual nights are marked as such in the analytics, and importing data for the night replaces them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {nights.map(night => (
+          <div key={night.date} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+            <div className="min-w-0 space-y-1">
+              <p className="font-medium">{night.date}</p>
+              <p className="text-xs text-muted-foreground">{describe(night)}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => remove(night.date)}>
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+          <label htmlFor="manual-date" className="text-sm">Night of</label>
+          <input
+            id="manual-date"
+            type="date"
+            className={inputClass}
+            value={form.date}
+            onChange={e => setForm({ ...form, date: e.target.value })}
+          />
+
+          {NUMBER_FIELDS.map(field => (
+            <React.Fragment key={field.key}>
+              <label htmlFor={`manual-${field.key}`} className="text-sm">{field.label}</label>
+              <input
+                id={`manual-${field.key}`}
+                type="number"
+                min={0}
+                step={field.step}
+                className={inputClass}
+                value={form[field.key]}
+                onChange={e => setForm({ ...form, [field.key]: e.target.value })}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+
+        <Button onClick={save} disabled={!form.date || !form.usageHours || isSaving} className="w-full">
+          {isSaving ? 'Saving...' : 'Save Night'}
+        </Button>
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
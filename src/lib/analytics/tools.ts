@@ -1,6 +1,12 @@
-import { getDatabase } from '@/lib/db';
+import { getDatabase, openReadOnlyDatabase } from '@/lib/db';
 import { v4 as uuidv4 } from 'uuid';
 import { METRIC_DEFINITIONS, MetricName } from '@/lib/db/schema';
+import { getSettings } from '@/lib/db/settings';
+import { sampleDurations, MAX_GAP_INTERVALS } from '@/lib/data/sessions';
+import { naiveMillis, formatNaive, addDays } from '@/lib/data/time';
+import { getSettingsPeriods } from '@/lib/data/therapy-settings';
+import { listEquipment, EquipmentType } from '@/lib/data/equipment';
+import { getDevice } from '@/lib/data/devices';
 
 export interface ToolResult<T = any> {
   data: T;
@@ -10,9 +16,22 @@ export interface ToolResult<T = any> {
     computedAt: string;
     definitions: string[];
     artifactId: string;
+    // Nights in the data that were entered by hand rather than imported
+    manualNights?: string[];
   };
 }
 
+// A tool's result before it is stored as an evidence artifact, for callers
+// that only read (the nights API)
+export interface ToolReading<T> {
+  data: T;
+  provenance: Omit<ToolResult<T>['provenance'], 'artifactId'>;
+}
+
+// Where a nightly row's numbers came from: computed from imported data, or
+// typed in from the machine's display
+export type NightProvenance = 'derived' | 'manual';
+
 export interface NightlySummary {
   date: string;
   ahi: number;
@@ -22,6 +41,7 @@ export interface NightlySummary {
   median_leak_rate: number;
   large_leak_percent: number;
   sleep_quality_score: number;
+  provenance: NightProvenance;
 }
 
 export interface TrendData {
@@ -30,6 +50,15 @@ export interface TrendData {
   trend: 'improving' | 'worsening' | 'stable';
   rolling_avg: number[];
   dates: string[];
+  // The same metric within each machine-settings period of the range
+  settings_periods: Array<{
+    start: string;
+    end: string;
+    settings: string;
+    nights: number;
+    average: number | null;
+    slope: number;
+  }>;
 }
 
 export interface Anomaly {
@@ -39,6 +68,7 @@ export interface Anomaly {
   expected_range: { min: number; max: number };
   reason_code: string;
   severity: 'mild' | 'moderate' | 'severe';
+  provenance: NightProvenance;
 }
 
 export interface CorrelationResult {
@@ -50,16 +80,35 @@ export interface CorrelationResult {
   interpretation: string;
 }
 
+// Machine settings in force during part of a compared range
+export interface SettingsPeriodLabel {
+  start: string;
+  end: string;
+  settings: string;
+}
+
 export interface RangeComparison {
+  settings: {
+    rangeA: SettingsPeriodLabel[];
+    rangeB: SettingsPeriodLabel[];
+  };
   metrics: Record<string, {
-    rangeA: { avg: number; min: number; max: number };
-    rangeB: { avg: number; min: number; max: number };
-    delta: number;
-    percent_change: number;
-    significance: 'increase' | 'decrease' | 'no_change';
+    rangeA: { avg: number | null; min: number | null; max: number | null };
+    rangeB: { avg: number | null; min: number | null; max: number | null };
+    delta: number | null; // null when either range has no nights with the metric
+    percent_change: number | null;
+    significance: 'increase' | 'decrease' | 'no_change' | 'insufficient_data';
   }>;
 }
 
+export interface EquipmentChange {
+  equipment: { id: number; type: EquipmentType; model: string };
+  change_date: string;
+  before: { start: string; end: string };
+  after: { start: string; end: string };
+  comparison: RangeComparison;
+}
+
 export interface SessionBreakdown {
   date: string;
   total_sessions: number;
@@ -67,6 +116,8 @@ export interface SessionBreakdown {
     start_time: string;
     end_time: string;
     duration_minutes: number;
+    sampling_interval_seconds: number | null;
+    device: string | null;
     avg_pressure: number;
     avg_leak_rate: number;
     large_leak_periods: Array<{
@@ -79,9 +130,22 @@ export interface SessionBreakdown {
 }
 
 // Tool 1: Get Nightly Summary
-export function getNightlySummary(dateRange: { start: string; end: string }): ToolResult<NightlySummary[]> {
+export function getNightlySummary(
+  userId: number,
+  dateRange: { start: string; end: string },
+  deviceId?: number | null,
+  includeManual: boolean = true
+): ToolResult<NightlySummary[]> {
+  return storeReading(userId, readNightlySummary(userId, dateRange, deviceId, includeManual));
+}
+
+export function readNightlySummary(
+  userId: number,
+  dateRange: { start: string; end: string },
+  deviceId?: number | null,
+  includeManual: boolean = true
+): ToolReading<NightlySummary[]> {
   const db = getDatabase();
-  const artifactId = uuidv4();
   
   const stmt = db.prepare(`
     SELECT 
@@ -92,41 +156,49 @@ export function getNightlySummary(dateRange: { start: string; end: string }): To
       median_pressure,
       median_leak_rate,
       large_leak_percent,
-      sleep_quality_score
+      sleep_quality_score,
+      provenance
     FROM nightly_aggregates
-    WHERE date >= ? AND date <= ?
+    WHERE date >= ? AND date <= ? AND ${nightCondition(userId, deviceId, includeManual)}
     ORDER BY date ASC
   `);
   
   const results = stmt.all(dateRange.start, dateRange.end) as NightlySummary[];
   
-  const result: ToolResult<NightlySummary[]> = {
+  const manualNights = results.filter(night => night.provenance === 'manual').map(night => night.date);
+  return {
     data: results,
     provenance: {
       toolName: 'getNightlySummary',
-      parameters: { dateRange },
+      parameters: { dateRange, deviceId, includeManual },
       computedAt: new Date().toISOString(),
       definitions: [
+        deviceScope(userId, deviceId),
+        manualEntryScope(manualNights, includeManual),
         `AHI: ${METRIC_DEFINITIONS.ahi.description} (${METRIC_DEFINITIONS.ahi.unit})`,
         `Usage: Total time device was used (${METRIC_DEFINITIONS.total_usage_minutes.unit})`,
         `Leak Rate: ${METRIC_DEFINITIONS.leak_rate.description} (${METRIC_DEFINITIONS.leak_rate.unit})`,
         `Quality Score: ${METRIC_DEFINITIONS.sleep_quality_score.description}`
       ],
-      artifactId
+      manualNights
     }
   };
-  
-  // Store evidence artifact
-  storeEvidenceArtifact(artifactId, result);
-  
-  return result;
 }
 
+// Metrics where a falling value is an improvement
+const LOWER_IS_BETTER: MetricName[] = [
+  'ahi', 'oai', 'cai', 'hi', 'rera_index', 'csr_minutes',
+  'leak_rate', 'large_leak_percent', 'odi_3', 'odi_4', 't90_minutes'
+];
+
 // Tool 2: Get Trends
 export function getTrends(
+  userId: number,
   metric: MetricName,
   dateRange: { start: string; end: string },
-  window: number = 7
+  window: number = 7,
+  deviceId?: number | null,
+  includeManual: boolean = true
 ): ToolResult<TrendData> {
   const db = getDatabase();
   const artifactId = uuidv4();
@@ -134,7 +206,7 @@ export function getTrends(
   const stmt = db.prepare(`
     SELECT date, ${metric} as value
     FROM nightly_aggregates
-    WHERE date >= ? AND date <= ?
+    WHERE date >= ? AND date <= ? AND ${nightCondition(userId, deviceId, includeManual)}
     ORDER BY date ASC
   `);
   
@@ -152,11 +224,24 @@ export function getTrends(
   
   // Calculate slope (linear regression)
   const slope = calculateSlope(results.map((r, i) => ({ x: i, y: r.value || 0 })));
+
+  // Split the nights by the machine settings they were recorded under
+  const settingsPeriods = getSettingsPeriods(userId, dateRange.start, dateRange.end).map(period => {
+    const nights = results.filter(r => r.date >= period.start && r.date <= period.end);
+    const values = nights.map(r => r.value).filter(v => v !== null);
+    return {
+      start: period.start,
+      end: period.end,
+      settings: period.label,
+      nights: nights.length,
+      average: values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null,
+      slope: calculateSlope(nights.map((r, i) => ({ x: i, y: r.value || 0 })))
+    };
+  });
   
   // Determine trend
   let trend: 'improving' | 'worsening' | 'stable' = 'stable';
-  if (metric === 'ahi' || metric === 'leak_rate' || metric === 'large_leak_percent') {
-    // Lower is better for these metrics
+  if (LOWER_IS_BETTER.includes(metric)) {
     if (slope < -0.1) trend = 'improving';
     else if (slope > 0.1) trend = 'worsening';
   } else {
@@ -165,49 +250,62 @@ export function getTrends(
     else if (slope < -0.1) trend = 'worsening';
   }
   
+  const manualNights = findManualNights(userId, [dateRange], deviceId, includeManual);
   const result: ToolResult<TrendData> = {
     data: {
       metric,
       slope,
       trend,
       rolling_avg: rollingAvg,
-      dates: results.map(r => r.date)
+      dates: results.map(r => r.date),
+      settings_periods: settingsPeriods
     },
     provenance: {
       toolName: 'getTrends',
-      parameters: { metric, dateRange, window },
+      parameters: { metric, dateRange, window, deviceId, includeManual },
       computedAt: new Date().toISOString(),
       definitions: [
+        deviceScope(userId, deviceId),
+        manualEntryScope(manualNights, includeManual),
         `${METRIC_DEFINITIONS[metric].name}: ${METRIC_DEFINITIONS[metric].description}`,
         `Trend calculated over ${window}-day rolling average`,
-        `Slope: Linear regression coefficient (${metric === 'ahi' ? 'lower is better' : 'varies by metric'})`
+        `Slope: Linear regression coefficient (${LOWER_IS_BETTER.includes(metric) ? 'lower is better' : 'higher is better'})`,
+        'Settings periods: consecutive nights with the same machine settings'
       ],
-      artifactId
+      artifactId,
+      manualNights
     }
   };
   
-  storeEvidenceArtifact(artifactId, result);
+  storeEvidenceArtifact(userId, artifactId, result);
   
   return result;
 }
 
 // Tool 3: Detect Anomalies
 export function detectAnomalies(
+  userId: number,
   metric: MetricName,
   dateRange: { start: string; end: string },
-  threshold: number = 2
+  threshold: number = 2,
+  deviceId?: number | null,
+  includeManual: boolean = true
 ): ToolResult<Anomaly[]> {
   const db = getDatabase();
   const artifactId = uuidv4();
   
   const stmt = db.prepare(`
-    SELECT date, ${metric} as value
+    SELECT date, ${metric} as value, provenance
     FROM nightly_aggregates
-    WHERE date >= ? AND date <= ? AND ${metric} IS NOT NULL
+    WHERE date >= ? AND date <= ? AND ${metric} IS NOT NULL AND ${nightCondition(userId, deviceId, includeManual)}
     ORDER BY date ASC
   `);
   
-  const results = stmt.all(dateRange.start, dateRange.end) as { date: string; value: number }[];
+  const results = stmt.all(dateRange.start, dateRange.end) as {
+    date: string;
+    value: number;
+    provenance: NightProvenance;
+  }[];
   
   // Calculate statistics
   const values = results.map(r => r.value);
@@ -224,15 +322,27 @@ export function detectAnomalies(
       else if (zScore > 2.5) severity = 'moderate';
       
       let reasonCode = '';
-      if (metric === 'ahi') {
+      if (metric === 'ahi' || metric === 'oai' || metric === 'cai' || metric === 'hi' || metric === 'rera_index') {
         if (result.value > mean) reasonCode = 'elevated_events';
         else reasonCode = 'low_events';
+      } else if (metric === 'csr_minutes') {
+        if (result.value > mean) reasonCode = 'periodic_breathing';
+        else reasonCode = 'regular_breathing';
       } else if (metric === 'leak_rate' || metric === 'large_leak_percent') {
         if (result.value > mean) reasonCode = 'mask_leak';
         else reasonCode = 'good_seal';
       } else if (metric === 'sleep_quality_score') {
         if (result.value < mean) reasonCode = 'poor_quality';
         else reasonCode = 'high_quality';
+      } else if (metric === 'odi_3' || metric === 'odi_4' || metric === 't90_minutes') {
+        if (result.value > mean) reasonCode = 'frequent_desaturations';
+        else reasonCode = 'stable_oxygenation';
+      } else if (metric === 'min_spo2' || metric === 'median_spo2') {
+        if (result.value < mean) reasonCode = 'low_oxygen';
+        else reasonCode = 'good_oxygenation';
+      } else if (metric === 'min_pulse_rate' || metric === 'median_pulse_rate' || metric === 'max_pulse_rate') {
+        if (result.value > mean) reasonCode = 'elevated_pulse';
+        else reasonCode = 'low_pulse';
       }
       
       anomalies.push({
@@ -244,36 +354,44 @@ export function detectAnomalies(
           max: mean + 2 * stdDev
         },
         reason_code: reasonCode,
-        severity
+        severity,
+        provenance: result.provenance
       });
     }
   }
   
+  const manualNights = findManualNights(userId, [dateRange], deviceId, includeManual);
   const result: ToolResult<Anomaly[]> = {
     data: anomalies,
     provenance: {
       toolName: 'detectAnomalies',
-      parameters: { metric, dateRange, threshold },
+      parameters: { metric, dateRange, threshold, deviceId, includeManual },
       computedAt: new Date().toISOString(),
       definitions: [
+        deviceScope(userId, deviceId),
+        manualEntryScope(manualNights, includeManual),
         `Anomaly detection using z-score > ${threshold} standard deviations`,
         `Mean: ${mean.toFixed(2)}, StdDev: ${stdDev.toFixed(2)}`,
         `${anomalies.length} anomalies detected out of ${results.length} data points`
       ],
-      artifactId
+      artifactId,
+      manualNights
     }
   };
   
-  storeEvidenceArtifact(artifactId, result);
+  storeEvidenceArtifact(userId, artifactId, result);
   
   return result;
 }
 
 // Tool 4: Correlate Metrics
 export function correlate(
+  userId: number,
   metricA: MetricName,
   metricB: MetricName,
-  dateRange: { start: string; end: string }
+  dateRange: { start: string; end: string },
+  deviceId?: number | null,
+  includeManual: boolean = true
 ): ToolResult<CorrelationResult> {
   const db = getDatabase();
   const artifactId = uuidv4();
@@ -282,7 +400,7 @@ export function correlate(
     SELECT ${metricA} as valueA, ${metricB} as valueB
     FROM nightly_aggregates
     WHERE date >= ? AND date <= ? 
-      AND ${metricA} IS NOT NULL AND ${metricB} IS NOT NULL
+      AND ${metricA} IS NOT NULL AND ${metricB} IS NOT NULL AND ${nightCondition(userId, deviceId, includeManual)}
     ORDER BY date ASC
   `);
   
@@ -311,6 +429,7 @@ export function correlate(
     interpretation = `No clear relationship found between ${METRIC_DEFINITIONS[metricA].name.toLowerCase()} and ${METRIC_DEFINITIONS[metricB].name.toLowerCase()}.`;
   }
   
+  const manualNights = findManualNights(userId, [dateRange], deviceId, includeManual);
   const result: ToolResult<CorrelationResult> = {
     data: {
       metricA,
@@ -322,55 +441,117 @@ export function correlate(
     },
     provenance: {
       toolName: 'correlate',
-      parameters: { metricA, metricB, dateRange },
+      parameters: { metricA, metricB, dateRange, deviceId, includeManual },
       computedAt: new Date().toISOString(),
       definitions: [
+        deviceScope(userId, deviceId),
+        manualEntryScope(manualNights, includeManual),
         `Pearson correlation coefficient ranges from -1 to 1`,
         `${results.length} data points analyzed`,
         `Strength: ${strength} (${absCorr.toFixed(2)})`
       ],
-      artifactId
+      artifactId,
+      manualNights
     }
   };
   
-  storeEvidenceArtifact(artifactId, result);
+  storeEvidenceArtifact(userId, artifactId, result);
   
   return result;
 }
 
 // Tool 5: Compare Ranges
 export function compareRanges(
+  userId: number,
   rangeA: { start: string; end: string },
   rangeB: { start: string; end: string },
-  metrics: MetricName[]
+  metrics: MetricName[],
+  deviceId?: number | null,
+  includeManual: boolean = true
 ): ToolResult<RangeComparison> {
-  const db = getDatabase();
   const artifactId = uuidv4();
+  const comparison = compareRangeStats(userId, rangeA, rangeB, metrics, deviceId, includeManual);
   
-  const comparison: RangeComparison = { metrics: {} };
+  const manualNights = findManualNights(userId, [rangeA, rangeB], deviceId, includeManual);
+  const result: ToolResult<RangeComparison> = {
+    data: comparison,
+    provenance: {
+      toolName: 'compareRanges',
+      parameters: { rangeA, rangeB, metrics, deviceId, includeManual },
+      computedAt: new Date().toISOString(),
+      definitions: [
+        deviceScope(userId, deviceId),
+        manualEntryScope(manualNights, includeManual),
+        `Comparing ${metrics.length} metrics between two date ranges`,
+        `Significance threshold: >5% change`,
+        `Percent change calculated from average values`,
+        'Metrics with no nights in either range are marked insufficient_data',
+        'Each range is labelled with the machine settings in force during it'
+      ],
+      artifactId,
+      manualNights
+    }
+  };
+  
+  storeEvidenceArtifact(userId, artifactId, result);
+  
+  return result;
+}
+
+// Sample-level metrics are compared through their nightly median column
+const NIGHTLY_COLUMNS: Partial<Record<MetricName, string>> = {
+  leak_rate: 'median_leak_rate',
+  pressure: 'median_pressure',
+  flow_limitation: 'median_flow_limitation'
+};
+
+// Per-metric statistics for two date ranges (shared by compareRanges and
+// compareEquipmentChanges)
+function compareRangeStats(
+  userId: number,
+  rangeA: { start: string; end: string },
+  rangeB: { start: string; end: string },
+  metrics: MetricName[],
+  deviceId?: number | null,
+  includeManual: boolean = true
+): RangeComparison {
+  const db = getDatabase();
+
+  const settingsLabels = (range: { start: string; end: string }) =>
+    getSettingsPeriods(userId, range.start, range.end).map(period => ({
+      start: period.start,
+      end: period.end,
+      settings: period.label
+    }));
+
+  const comparison: RangeComparison = {
+    settings: { rangeA: settingsLabels(rangeA), rangeB: settingsLabels(rangeB) },
+    metrics: {}
+  };
   
   for (const metric of metrics) {
-    // Get stats for range A
-    const stmtA = db.prepare(`
+    const column = NIGHTLY_COLUMNS[metric] ?? metric;
+    const stmt = db.prepare(`
       SELECT 
-        AVG(${metric}) as avg,
-        MIN(${metric}) as min,
-        MAX(${metric}) as max
+        AVG(${column}) as avg,
+        MIN(${column}) as min,
+        MAX(${column}) as max
       FROM nightly_aggregates
-      WHERE date >= ? AND date <= ? AND ${metric} IS NOT NULL
+      WHERE date >= ? AND date <= ? AND ${column} IS NOT NULL AND ${nightCondition(userId, deviceId, includeManual)}
     `);
-    const statsA = stmtA.get(rangeA.start, rangeA.end) as { avg: number; min: number; max: number };
+    const statsA = stmt.get(rangeA.start, rangeA.end) as { avg: number | null; min: number | null; max: number | null };
+    const statsB = stmt.get(rangeB.start, rangeB.end) as { avg: number | null; min: number | null; max: number | null };
     
-    // Get stats for range B
-    const stmtB = db.prepare(`
-      SELECT 
-        AVG(${metric}) as avg,
-        MIN(${metric}) as min,
-        MAX(${metric}) as max
-      FROM nightly_aggregates
-      WHERE date >= ? AND date <= ? AND ${metric} IS NOT NULL
-    `);
-    const statsB = stmtB.get(rangeB.start, rangeB.end) as { avg: number; min: number; max: number };
+    if (statsA.avg === null || statsB.avg === null) {
+      comparison.metrics[metric] = {
+        rangeA: statsA,
+        rangeB: statsB,
+        delta: null,
+        percent_change: null,
+        significance: 'insufficient_data'
+      };
+      continue;
+    }
     
     // Calculate change
     const delta = statsB.avg - statsA.avg;
@@ -389,133 +570,200 @@ export function compareRanges(
       significance
     };
   }
-  
-  const result: ToolResult<RangeComparison> = {
-    data: comparison,
-    provenance: {
-      toolName: 'compareRanges',
-      parameters: { rangeA, rangeB, metrics },
-      computedAt: new Date().toISOString(),
-      definitions: [
-        `Comparing ${metrics.length} metrics between two date ranges`,
-        `Significance threshold: >5% change`,
-        `Percent change calculated from average values`
-      ],
-      artifactId
-    }
-  };
-  
-  storeEvidenceArtifact(artifactId, result);
-  
-  return result;
+
+  return comparison;
 }
 
 // Tool 6: Get Session Breakdown
-export function getSessionBreakdown(date: string): ToolResult<SessionBreakdown> {
+export function getSessionBreakdown(
+  userId: number,
+  date: string,
+  deviceId?: number | null
+): ToolResult<SessionBreakdown> {
+  return storeReading(userId, readSessionBreakdown(userId, date, deviceId));
+}
+
+export function readSessionBreakdown(
+  userId: number,
+  date: string,
+  deviceId?: number | null
+): ToolReading<SessionBreakdown> {
   const db = getDatabase();
-  const artifactId = uuidv4();
   
-  // Get samples for the night
+  // Sessions are segmented at import time and stored per sleep day
+  const sessionRows = db.prepare(`
+    SELECT id, start_time, end_time, duration_minutes, device, sampling_interval_seconds
+    FROM sessions
+    WHERE user_id = ? AND sleep_day = ? AND (? IS NULL OR device_id = ?)
+    ORDER BY start_time ASC
+  `).all(userId, date, deviceId ?? null, deviceId ?? null) as {
+    id: string;
+    start_time: string;
+    end_time: string;
+    duration_minutes: number;
+    device: string | null;
+    sampling_interval_seconds: number | null;
+  }[];
+  
   const samplesStmt = db.prepare(`
-    SELECT timestamp, pressure, leak_rate, mask_on
+    SELECT timestamp, pressure, leak_rate
     FROM cpap_samples
-    WHERE date(timestamp) = ?
+    WHERE session_id = ? AND (mask_on IS NULL OR mask_on != 0)
     ORDER BY timestamp ASC
   `);
-  const samples = samplesStmt.all(date) as {
-    timestamp: string;
-    pressure: number;
-    leak_rate: number;
-    mask_on: number;
-  }[];
-  
-  // Identify sessions (continuous mask-on periods)
-  const sessions: any[] = [];
-  let currentSession: any = null;
-  
-  for (const sample of samples) {
-    if (sample.mask_on === 1 && !currentSession) {
-      // Start new session
-      currentSession = {
-        start_time: sample.timestamp,
-        end_time: null,
-        duration_minutes: 0,
-        avg_pressure: 0,
-        avg_leak_rate: 0,
-        large_leak_periods: [],
-        pressures: [],
-        leak_rates: []
-      };
-    } else if (sample.mask_on === 0 && currentSession) {
-      // End session
-      currentSession.end_time = sample.timestamp;
-      currentSession.duration_minutes = calculateDurationMinutes(
-        currentSession.start_time,
-        currentSession.end_time
-      );
-      currentSession.avg_pressure = currentSession.pressures.length > 0 ?
-        currentSession.pressures.reduce((a: number, b: number) => a + b, 0) / currentSession.pressures.length : 0;
-      currentSession.avg_leak_rate = currentSession.leak_rates.length > 0 ?
-        currentSession.leak_rates.reduce((a: number, b: number) => a + b, 0) / currentSession.leak_rates.length : 0;
-      
-      // Identify large leak periods
-      currentSession.large_leak_periods = identifyLargeLeakPeriods(
-        currentSession.leak_rates,
-        currentSession.start_time
-      );
-      
-      sessions.push(currentSession);
-      currentSession = null;
-    }
+  const { timezone } = getSettings(userId);
+  
+  const sessions = sessionRows.map(session => {
+    const samples = samplesStmt.all(session.id) as {
+      timestamp: string;
+      pressure: number | null;
+      leak_rate: number | null;
+    }[];
+    const pressures = samples.filter(s => s.pressure).map(s => s.pressure!);
+    const leakRates = samples.filter(s => s.leak_rate).map(s => s.leak_rate!);
     
-    if (currentSession && sample.mask_on === 1) {
-      if (sample.pressure) currentSession.pressures.push(sample.pressure);
-      if (sample.leak_rate) currentSession.leak_rates.push(sample.leak_rate);
-    }
-  }
-  
-  // Handle session that extends to end of data
-  if (currentSession) {
-    currentSession.end_time = samples[samples.length - 1].timestamp;
-    currentSession.duration_minutes = calculateDurationMinutes(
-      currentSession.start_time,
-      currentSession.end_time
-    );
-    sessions.push(currentSession);
-  }
+    return {
+      start_time: session.start_time,
+      end_time: session.end_time,
+      duration_minutes: session.duration_minutes,
+      sampling_interval_seconds: session.sampling_interval_seconds,
+      device: session.device,
+      avg_pressure: pressures.length > 0 ?
+        pressures.reduce((a, b) => a + b, 0) / pressures.length : 0,
+      avg_leak_rate: leakRates.length > 0 ?
+        leakRates.reduce((a, b) => a + b, 0) / leakRates.length : 0,
+      large_leak_periods: identifyLargeLeakPeriods(samples, session.sampling_interval_seconds, timezone)
+    };
+  });
   
-  const result: ToolResult<SessionBreakdown> = {
+  return {
     data: {
       date,
       total_sessions: sessions.length,
-      sessions: sessions.map(s => ({
-        start_time: s.start_time,
-        end_time: s.end_time,
-        duration_minutes: s.duration_minutes,
-        avg_pressure: s.avg_pressure,
-        avg_leak_rate: s.avg_leak_rate,
-        large_leak_periods: s.large_leak_periods
-      }))
+      sessions
     },
     provenance: {
       toolName: 'getSessionBreakdown',
-      parameters: { date },
+      parameters: { date, deviceId },
       computedAt: new Date().toISOString(),
       definitions: [
-        `Session: Continuous period with mask on`,
-        `Large leak period: Leak rate > 24 L/min for > 1 minute`,
+        deviceScope(userId, deviceId),
+        `Session: Continuous period with mask on from one device, split at mask-off or gaps between samples`,
+        `Sleep day: Runs from the configured boundary hour (default noon) to the same hour the next day`,
+        `Large leak period: Leak rate > 24 L/min for at least 1 minute`,
+        `Durations: Each sample counts until the next one, gaps over ${MAX_GAP_INTERVALS} sampling intervals excluded`,
         `${sessions.length} sessions identified for ${date}`
+      ]
+    }
+  };
+}
+
+// Tool 7: Compare Equipment Changes
+// Each item started in the range is compared over the windowDays before it
+// and its first windowDays in use (cut short if it was retired sooner)
+export function compareEquipmentChanges(
+  userId: number,
+  dateRange: { start: string; end: string },
+  windowDays: number = 14,
+  metrics: MetricName[] = ['ahi', 'leak_rate', 'large_leak_percent'],
+  deviceId?: number | null,
+  includeManual: boolean = true
+): ToolResult<EquipmentChange[]> {
+  const artifactId = uuidv4();
+  
+  const changes = listEquipment(userId)
+    .filter(item => item.startedOn >= dateRange.start && item.startedOn <= dateRange.end)
+    .sort((a, b) => a.startedOn.localeCompare(b.startedOn))
+    .map(item => {
+      const before = { start: addDays(item.startedOn, -windowDays), end: addDays(item.startedOn, -1) };
+      const windowEnd = addDays(item.startedOn, windowDays - 1);
+      const after = {
+        start: item.startedOn,
+        end: item.endedOn && item.endedOn < windowEnd ? item.endedOn : windowEnd
+      };
+      
+      return {
+        equipment: { id: item.id, type: item.type, model: item.model },
+        change_date: item.startedOn,
+        before,
+        after,
+        comparison: compareRangeStats(userId, before, after, metrics, deviceId, includeManual)
+      };
+    });
+  
+  const manualNights = findManualNights(
+    userId,
+    changes.flatMap(change => [change.before, change.after]),
+    deviceId,
+    includeManual
+  );
+  const result: ToolResult<EquipmentChange[]> = {
+    data: changes,
+    provenance: {
+      toolName: 'compareEquipmentChanges',
+      parameters: { dateRange, windowDays, metrics, deviceId, includeManual },
+      computedAt: new Date().toISOString(),
+      definitions: [
+        deviceScope(userId, deviceId),
+        manualEntryScope(manualNights, includeManual),
+        `Equipment change: an item from the equipment registry first used on a sleep day in the range`,
+        `Before: the ${windowDays} sleep days before the change; after: its first ${windowDays} days in use`,
+        `Significance threshold: >5% change, as in compareRanges`,
+        `${changes.length} equipment changes found`
       ],
-      artifactId
+      artifactId,
+      manualNights
     }
   };
   
-  storeEvidenceArtifact(artifactId, result);
+  storeEvidenceArtifact(userId, artifactId, result);
   
   return result;
 }
 
 // Helper functions
+
+// A profile's nightly rows for one device, or its all-devices rows when none
+// is given. Manual nights are all-devices rows, so they only appear unfiltered.
+function nightCondition(userId: number, deviceId?: number | null, includeManual = true): string {
+  if (!Number.isInteger(userId)) {
+    throw new Error(`Invalid user id: ${userId}`);
+  }
+  const manual = includeManual ? '' : ` AND provenance <> 'manual'`;
+  if (deviceId === undefined || deviceId === null) return `user_id = ${userId} AND device_id IS NULL${manual}`;
+  if (!Number.isInteger(deviceId)) {
+    throw new Error(`Invalid device id: ${deviceId}`);
+  }
+  return `user_id = ${userId} AND device_id = ${deviceId}`;
+}
+
+function findManualNights(
+  userId: number,
+  ranges: Array<{ start: string; end: string }>,
+  deviceId?: number | null,
+  includeManual = true
+): string[] {
+  if (!includeManual || (deviceId !== undefined && deviceId !== null) || ranges.length === 0) return [];
+  return getDatabase().prepare(`
+    SELECT DISTINCT date FROM nightly_aggregates
+    WHERE user_id = ? AND provenance = 'manual' AND (${ranges.map(() => '(date >= ? AND date <= ?)').join(' OR ')})
+    ORDER BY date
+  `).pluck().all(userId, ...ranges.flatMap(range => [range.start, range.end])) as string[];
+}
+
+function manualEntryScope(manualNights: string[], includeManual: boolean): string {
+  if (!includeManual) return 'Manual entry: nights entered by hand are excluded';
+  if (manualNights.length === 0) return 'Manual entry: none; every night was computed from imported data';
+  return `Manual entry: ${manualNights.length} night(s) were typed in from the machine's display, ` +
+    `not computed from imported data (${manualNights.join(', ')})`;
+}
+
+function deviceScope(userId: number, deviceId?: number | null): string {
+  if (deviceId === undefined || deviceId === null) return 'Devices: all machines combined';
+  const device = getDevice(userId, deviceId);
+  return `Device: only nights recorded by ${device ? device.label : `device ${deviceId}`}`;
+}
+
 function calculateSlope(points: { x: number; y: number }[]): number {
   if (points.length < 2) return 0;
   
@@ -544,13 +792,12 @@ function calculateCorrelation(x: number[], y: number[]): number {
   return denominator === 0 ? 0 : numerator / denominator;
 }
 
-function calculateDurationMinutes(startTime: string, endTime: string): number {
-  const start = new Date(startTime);
-  const end = new Date(endTime);
-  return (end.getTime() - start.getTime()) / (1000 * 60);
-}
-
-function identifyLargeLeakPeriods(leakRates: number[], startTime: string): Array<{
+// Runs of samples above the large-leak threshold, timed from the samples' own spacing
+function identifyLargeLeakPeriods(
+  samples: Array<{ timestamp: string; leak_rate: number | null }>,
+  intervalSeconds: number | null,
+  timeZone: string
+): Array<{
   start: string;
   end: string;
   duration_minutes: number;
@@ -558,53 +805,52 @@ function identifyLargeLeakPeriods(leakRates: number[], startTime: string): Array
 }> {
   const periods = [];
   const threshold = 24; // L/min
-  let inPeriod = false;
-  let periodStart = 0;
-  let currentPeak = 0;
-  
-  for (let i = 0; i < leakRates.length; i++) {
-    if (leakRates[i] > threshold && !inPeriod) {
-      // Start large leak period
-      inPeriod = true;
+  const durations = sampleDurations(samples.map(s => s.timestamp), intervalSeconds, timeZone);
+  let periodStart = -1;
+  
+  for (let i = 0; i <= samples.length; i++) {
+    const isLarge = i < samples.length && (samples[i].leak_rate ?? 0) > threshold;
+    if (isLarge && periodStart === -1) {
       periodStart = i;
-      currentPeak = leakRates[i];
-    } else if (leakRates[i] > threshold && inPeriod) {
-      // Continue large leak period
-      currentPeak = Math.max(currentPeak, leakRates[i]);
-    } else if (leakRates[i] <= threshold && inPeriod) {
-      // End large leak period
-      const duration = i - periodStart;
-      if (duration >= 5) { // At least 5 data points
-        const startOffset = periodStart * 5; // Assuming 5-minute intervals
-        const endOffset = i * 5;
-        const startDate = new Date(startTime);
-        startDate.setMinutes(startDate.getMinutes() + startOffset);
-        const endDate = new Date(startTime);
-        endDate.setMinutes(endDate.getMinutes() + endOffset);
-        
+    } else if (!isLarge && periodStart !== -1) {
+      const seconds = durations.slice(periodStart, i).reduce((a, b) => a + b, 0);
+      if (seconds >= 60) {
+        const last = samples[i - 1];
         periods.push({
-          start: startDate.toISOString(),
-          end: endDate.toISOString(),
-          duration_minutes: duration * 5,
-          peak_leak: currentPeak
+          start: samples[periodStart].timestamp,
+          end: formatNaive(naiveMillis(last.timestamp) + durations[i - 1] * 1000),
+          duration_minutes: seconds / 60,
+          peak_leak: samples.slice(periodStart, i).reduce((peak, s) => Math.max(peak, s.leak_rate ?? 0), 0)
         });
       }
-      inPeriod = false;
+      periodStart = -1;
     }
   }
   
   return periods;
 }
 
-function storeEvidenceArtifact(artifactId: string, result: ToolResult) {
+// Stores a reading as a new evidence artifact the chat can cite
+function storeReading<T>(userId: number, reading: ToolReading<T>): ToolResult<T> {
+  const artifactId = uuidv4();
+  const result: ToolResult<T> = {
+    data: reading.data,
+    provenance: { ...reading.provenance, artifactId }
+  };
+  storeEvidenceArtifact(userId, artifactId, result);
+  return result;
+}
+
+function storeEvidenceArtifact(userId: number, artifactId: string, result: ToolResult) {
   const db = getDatabase();
   const stmt = db.prepare(`
-    INSERT INTO evidence_artifacts (id, tool_name, parameters, result, provenance)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO evidence_artifacts (id, user_id, tool_name, parameters, result, provenance)
+    VALUES (?, ?, ?, ?, ?, ?)
   `);
   
   stmt.run(
     artifactId,
+    userId,
     result.provenance.toolName,
     JSON.stringify(result.provenance.parameters),
     JSON.stringify(result.data),
@@ -622,6 +868,7 @@ export interface CustomQueryResult {
 }
 
 export async function executeCustomQuery(
+  userId: number,
   naturalLanguageQuery: string,
   dateRange?: { start: string; end: string }
 ): Promise<ToolResult<CustomQueryResult>> {
@@ -632,7 +879,7 @@ export async function executeCustomQuery(
     const sqlIntent = await generateSQLIntent(naturalLanguageQuery, dateRange);
     
     // Phase 2: Validate and build secure SQL
-    const secureSQL = buildSecureSQL(sqlIntent);
+    const secureSQL = buildSecureSQL(sqlIntent, userId);
     
     // Phase 3: Execute with safeguards
     const result = await executeSecurely(secureSQL.sql, secureSQL.params);
@@ -648,7 +895,7 @@ export async function executeCustomQuery(
       }
     };
     
-    storeEvidenceArtifact(artifactId, toolResult);
+    storeEvidenceArtifact(userId, artifactId, toolResult);
     return toolResult;
     
   } catch (error) {
@@ -671,16 +918,20 @@ Query: "${query}"
 ${dateRange ? `Date range: ${dateRange.start} to ${dateRange.end}` : ''}
 
 Valid tables: 
-- nightly_aggregates: contains daily summaries with columns: date, ahi, total_usage_minutes, mask_on_minutes, median_pressure, median_leak_rate, large_leak_percent, sleep_quality_score
-- cpap_samples: contains raw 5-minute samples with columns: timestamp, leak_rate, pressure, flow_limitation, mask_on
-- cpap_events: contains events with columns: timestamp, event_type, event_duration, event_severity
+- nightly_aggregates: contains daily summaries with columns: date, device_id (omit to get all machines combined), provenance (derived, or manual for nights typed in by hand), ahi, total_usage_minutes, mask_on_minutes, median_pressure, median_leak_rate, large_leak_percent, sleep_quality_score, oai, cai, hi, rera_index, csr_minutes, odi_3, odi_4, t90_minutes, min_spo2, median_spo2, min_pulse_rate, median_pulse_rate, max_pulse_rate
+- cpap_samples: contains raw 5-minute samples with columns: timestamp, device_id, leak_rate, pressure, flow_limitation, mask_on
+- cpap_events: contains events with columns: timestamp, device_id, event_type, normalized_type (OA, CA, UA, H, RERA, CSR, LL, FL, VS, PP), event_duration, event_severity
+- oximetry_samples: contains pulse oximeter readings with columns: timestamp, spo2, pulse_rate
+- therapy_settings: machine settings in force from a sleep day on, with columns: effective_date, mode (CPAP, APAP, BiLevel, ASV), pressure, min_pressure, max_pressure, epr, ramp_minutes, humidity, source
+- equipment: masks, cushions, tubing and other consumables, with columns: type (mask, cushion, headgear, tubing, filter, water_chamber, other), model, started_on, ended_on, replace_every_days
+- devices: CPAP machines data was imported from, with columns: id, manufacturer, model, serial, name
 
 Return ONLY a JSON object with:
 {
   "table": "table_name",
   "columns": ["col1", "col2"],
   "aggregations": [{"column": "col", "func": "avg|sum|count|min|max"}],
-  "filters": [{"column": "col", "operator": ">|<|=|>=|<=", "value": "number|string"}],
+  "filters": [{"column": "col", "operator": ">|<|=|!=|>=|<=", "value": "number|string"}],
   "groupBy": ["col1"],
   "orderBy": {"column": "col", "direction": "asc|desc"},
   "limit": number
@@ -757,26 +1008,39 @@ Rules:
   }
 }
 
+const ALLOWED_AGGREGATIONS = ['avg', 'sum', 'count', 'min', 'max'] as const;
+const ALLOWED_OPERATORS = ['=', '!=', '<', '<=', '>', '>='] as const;
+const ALLOWED_DIRECTIONS = ['asc', 'desc'] as const;
+
 interface SQLIntent {
   table: string;
   columns: string[];
-  aggregations: { column: string; func: 'avg' | 'sum' | 'count' | 'min' | 'max' }[];
-  filters: { column: string; operator: '>' | '<' | '=' | '>=' | '<='; value: number | string }[];
+  aggregations: { column: string; func: typeof ALLOWED_AGGREGATIONS[number] }[];
+  filters: { column: string; operator: typeof ALLOWED_OPERATORS[number]; value: number | string }[];
   groupBy: string[];
-  orderBy: { column: string; direction: 'asc' | 'desc' };
+  orderBy?: { column: string; direction: typeof ALLOWED_DIRECTIONS[number] };
   limit: number;
 }
 
-// Phase 2: Build secure SQL from intent
-function buildSecureSQL(intent: SQLIntent): { sql: string; params: any[] } {
+// Phase 2: Build secure SQL from intent, limited to one profile's rows
+function buildSecureSQL(intent: SQLIntent, userId: number): { sql: string; params: any[] } {
   // Whitelist of allowed tables and columns
-  const allowedTables = ['nightly_aggregates', 'cpap_samples', 'cpap_events'];
+  const allowedTables = [
+    'nightly_aggregates', 'cpap_samples', 'cpap_events', 'oximetry_samples', 'therapy_settings', 'equipment', 'devices'
+  ];
   const allowedColumns = {
-    nightly_aggregates: ['date', 'ahi', 'total_usage_minutes', 'mask_on_minutes', 
+    nightly_aggregates: ['date', 'device_id', 'provenance', 'ahi', 'total_usage_minutes', 'mask_on_minutes', 
                         'median_pressure', 'median_leak_rate', 'large_leak_percent', 
-                        'sleep_quality_score'],
-    cpap_samples: ['timestamp', 'leak_rate', 'pressure', 'flow_limitation', 'mask_on'],
-    cpap_events: ['timestamp', 'event_type', 'event_duration', 'event_severity']
+                        'sleep_quality_score', 'oai', 'cai', 'hi', 'rera_index', 'csr_minutes',
+                        'odi_3', 'odi_4', 't90_minutes', 'min_spo2', 'median_spo2',
+                        'min_pulse_rate', 'median_pulse_rate', 'max_pulse_rate'],
+    cpap_samples: ['timestamp', 'device_id', 'leak_rate', 'pressure', 'flow_limitation', 'mask_on'],
+    oximetry_samples: ['timestamp', 'spo2', 'pulse_rate'],
+    therapy_settings: ['effective_date', 'mode', 'pressure', 'min_pressure', 'max_pressure',
+                       'epr', 'ramp_minutes', 'humidity', 'source'],
+    equipment: ['type', 'model', 'started_on', 'ended_on', 'replace_every_days'],
+    devices: ['id', 'manufacturer', 'model', 'serial', 'name'],
+    cpap_events: ['timestamp', 'device_id', 'event_type', 'normalized_type', 'event_duration', 'event_severity']
   };
   
   // Validate table
@@ -796,25 +1060,63 @@ function buildSecureSQL(intent: SQLIntent): { sql: string; params: any[] } {
     }
   }
   
+  // Every other identifier and keyword the intent names is checked too: only
+  // the filter values are passed as parameters, the rest goes into the SQL
+  for (const agg of intent.aggregations) {
+    if (!tableColumns.includes(agg.column)) {
+      throw new Error(`Column not allowed for aggregation: ${agg.column}`);
+    }
+    if (!ALLOWED_AGGREGATIONS.includes(agg.func)) {
+      throw new Error(`Aggregation not allowed: ${agg.func}`);
+    }
+  }
+  for (const f of intent.filters) {
+    if (!tableColumns.includes(f.column)) {
+      throw new Error(`Column not allowed for filter: ${f.column}`);
+    }
+    if (!ALLOWED_OPERATORS.includes(f.operator)) {
+      throw new Error(`Operator not allowed: ${f.operator}`);
+    }
+    if (typeof f.value !== 'number' && typeof f.value !== 'string') {
+      throw new Error(`Filter value must be a number or a string: ${f.column}`);
+    }
+  }
+  for (const col of intent.groupBy) {
+    if (!tableColumns.includes(col)) {
+      throw new Error(`Column not allowed for grouping: ${col}`);
+    }
+  }
+  if (intent.orderBy) {
+    if (!tableColumns.includes(intent.orderBy.column)) {
+      throw new Error(`Column not allowed for ordering: ${intent.orderBy.column}`);
+    }
+    if (!ALLOWED_DIRECTIONS.includes(intent.orderBy.direction)) {
+      throw new Error(`Sort direction not allowed: ${intent.orderBy.direction}`);
+    }
+  }
+
   // Build SELECT clause
   let select = intent.columns.map(col => `"${col}"`).join(', ');
   
   // Add aggregations
   for (const agg of intent.aggregations) {
-    if (!tableColumns.includes(agg.column)) {
-      throw new Error(`Column not allowed for aggregation: ${agg.column}`);
-    }
-    select = select.replace(`"${agg.column}"`, `${agg.func}("${agg.column}") as ${agg.column}_${agg.func}`);
+    select = select.replace(`"${agg.column}"`, `${agg.func.toUpperCase()}("${agg.column}") AS "${agg.column}_${agg.func}"`);
   }
   
   // Build query
   let sql = `SELECT ${select} FROM "${intent.table}"`;
   
   // Add WHERE clause with parameterized filters
-  if (intent.filters.length > 0) {
-    const whereClause = intent.filters.map(f => `"${f.column}" ${f.operator} ?`).join(' AND ');
-    sql += ` WHERE ${whereClause}`;
+  const conditions = intent.filters.map(f => `"${f.column}" ${f.operator} ?`);
+  // Each night has a combined row plus one per device; without a device
+  // filter, read the combined rows so nights aren't counted twice
+  if (intent.table === 'nightly_aggregates' && !intent.filters.some(f => f.column === 'device_id')) {
+    conditions.push('"device_id" IS NULL');
   }
+  // Only the current profile's rows, whatever the filters say
+  sql += conditions.length > 0
+    ? ` WHERE (${conditions.join(' AND ')}) AND "user_id" = ?`
+    : ' WHERE "user_id" = ?';
   
   // Add GROUP BY
   if (intent.groupBy.length > 0) {
@@ -827,11 +1129,11 @@ function buildSecureSQL(intent: SQLIntent): { sql: string; params: any[] } {
   }
   
   // Always add LIMIT (max 100)
-  const limit = Math.min(intent.limit || 100, 100);
+  const limit = Math.max(1, Math.min(Math.floor(Number(intent.limit)) || 100, 100));
   sql += ` LIMIT ${limit}`;
   
   // Extract parameter values in the same order as placeholders
-  const params = intent.filters.map(f => f.value);
+  const params = [...intent.filters.map(f => f.value), userId];
   
   return { sql, params };
 }
@@ -839,7 +1141,7 @@ function buildSecureSQL(intent: SQLIntent): { sql: string; params: any[] } {
 // Phase 3: Execute with security measures
 async function executeSecurely(sql: string, params: any[] = []): Promise<CustomQueryResult> {
   // Create read-only connection
-  const readOnlyDb = new (require('better-sqlite3'))('cpap-data.db', { readonly: true });
+  const readOnlyDb = openReadOnlyDatabase();
   
   try {
     // Parse and validate SQL structure
@@ -866,7 +1168,7 @@ async function executeSecurely(sql: string, params: any[] = []): Promise<CustomQ
     // Execute with timeout
     const startTime = Date.now();
     const stmt = readOnlyDb.prepare(sql);
-    const results = stmt.all(...params);
+    const results = stmt.all(...params) as Record<string, unknown>[];
     const executionTime = Date.now() - startTime;
     
     // Return structured result
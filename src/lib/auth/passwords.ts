@@ -0,0 +1,43 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+// Passwords are stored as "scrypt$N$r$p$salt$key" (salt and key in base64), so
+// the cost can be raised later without invalidating existing hashes
+
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELISM = 1;
+const KEY_LENGTH = 64;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function validatePassword(password: unknown): string {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (password.length > 200) {
+    throw new Error('Password must be at most 200 characters');
+  }
+  return password;
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, KEY_LENGTH, { N: COST, r: BLOCK_SIZE, p: PARALLELISM });
+  return ['scrypt', COST, BLOCK_SIZE, PARALLELISM, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+// A missing hash still costs one scrypt run, so an unknown name takes as long
+// to reject as a wrong password
+export function verifyPassword(password: string, stored: string | null): boolean {
+  const [scheme, cost, blockSize, parallelism, salt, key] = (stored ?? '').split('$');
+  if (scheme !== 'scrypt') {
+    scryptSync(password, 'no-such-profile', KEY_LENGTH, { N: COST, r: BLOCK_SIZE, p: PARALLELISM });
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = scryptSync(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(cost), r: Number(blockSize), p: Number(parallelism)
+  });
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,77 @@
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, isBusyError, writeWhenUnlocked } from '@/lib/db';
+
+// Cookie sessions. The cookie holds a random token; the database only keeps
+// its hash, so a copy of the database can't be used to sign in.
+
+export const SESSION_COOKIE = 'cpap_session';
+const SESSION_DAYS = 30;
+
+function tokenHash(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function sessionToken(request: NextRequest): string | undefined {
+  return request.cookies.get(SESSION_COOKIE)?.value;
+}
+
+// Start a session for a profile, clearing out expired ones on the way. While
+// an import holds the write lock this waits a few seconds for it, then throws
+// SQLITE_BUSY (see isBusyError).
+export async function createSession(userId: number): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  await writeWhenUnlocked(db => db.prepare(`
+    INSERT INTO auth_sessions (id, user_id, expires_at)
+    VALUES (?, ?, datetime('now', ?))
+  `).run(tokenHash(token), userId, `+${SESSION_DAYS} days`));
+
+  // Housekeeping only; if the database is busy it's left for the next sign-in
+  try {
+    await writeWhenUnlocked(db => db.prepare(`
+      DELETE FROM auth_sessions WHERE expires_at <= datetime('now')
+    `).run(), 0);
+  } catch (error) {
+    if (!isBusyError(error)) throw error;
+  }
+  return token;
+}
+
+// The profile signed in with the token, or null for a missing, unknown or
+// expired one
+export function getSessionUserId(token: string | undefined): number | null {
+  if (!token) return null;
+  const userId = getDatabase().prepare(`
+    SELECT user_id FROM auth_sessions WHERE id = ? AND expires_at > datetime('now')
+  `).pluck().get(tokenHash(token)) as number | undefined;
+  return userId ?? null;
+}
+
+// Waits for a running import like createSession
+export async function deleteSession(token: string | undefined) {
+  if (!token) return;
+  await writeWhenUnlocked(db => db.prepare(`DELETE FROM auth_sessions WHERE id = ?`).run(tokenHash(token)));
+}
+
+// Sign a profile out everywhere, except for the session given
+export function deleteOtherSessions(userId: number, keepToken?: string) {
+  getDatabase().prepare(`
+    DELETE FROM auth_sessions WHERE user_id = ? AND id != ?
+  `).run(userId, keepToken ? tokenHash(keepToken) : '');
+}
+
+// Secure only over HTTPS: a self-hosted instance is often reached over plain
+// HTTP on the local network, where browsers would drop a Secure cookie
+export function setSessionCookie(response: NextResponse, request: NextRequest, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+    maxAge: SESSION_DAYS * 24 * 60 * 60
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+}
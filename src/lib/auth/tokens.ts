@@ -0,0 +1,134 @@
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { getDatabase, isBusyError, writeWhenUnlocked } from '@/lib/db';
+
+// Personal API tokens for scripts, e.g. a bedside Raspberry Pi uploading each
+// morning or a notebook reading nightly summaries. A token acts as the profile
+// that created it, only on the endpoints its scopes allow. Only its SHA-256
+// hash is stored; the token itself is shown once, when created.
+
+export const TOKEN_SCOPES = ['read:nightly', 'write:upload', 'chat'] as const;
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+export interface ApiToken {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: TokenScope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+interface ApiTokenRow {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+const TOKEN_PREFIX = 'cpap_';
+
+// The scope a request needs to be made with a token, or null for endpoints
+// that only accept a signed-in session
+const TOKEN_ENDPOINTS: Array<{ method: string; path: RegExp; scope: TokenScope }> = [
+  { method: 'GET', path: /^\/api\/dashboard$/, scope: 'read:nightly' },
+  { method: 'GET', path: /^\/api\/nights(\/[^/]+)?$/, scope: 'read:nightly' },
+  { method: 'POST', path: /^\/api\/upload$/, scope: 'write:upload' },
+  { method: 'GET', path: /^\/api\/upload$/, scope: 'write:upload' },
+  { method: 'GET', path: /^\/api\/upload\/jobs\/[^/]+(\/events)?$/, scope: 'write:upload' },
+  { method: 'POST', path: /^\/api\/chat$/, scope: 'chat' }
+];
+
+export function requiredScope(method: string, pathname: string): TokenScope | null {
+  return TOKEN_ENDPOINTS.find(endpoint => endpoint.method === method && endpoint.path.test(pathname))?.scope ?? null;
+}
+
+function tokenHash(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// The token from an "Authorization: Bearer" header
+export function bearerToken(request: NextRequest): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization') ?? '');
+  return match?.[1];
+}
+
+export function listApiTokens(userId: number): ApiToken[] {
+  const rows = getDatabase().prepare(`
+    SELECT * FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC, id DESC
+  `).all(userId) as ApiTokenRow[];
+  return rows.map(toApiToken);
+}
+
+// Returns the token itself alongside the stored record; it can't be shown again
+export function createApiToken(
+  userId: number,
+  name: unknown,
+  scopes: unknown
+): { token: string; apiToken: ApiToken } {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > 100) {
+    throw new Error('Token name is required and must be at most 100 characters');
+  }
+  if (!Array.isArray(scopes) || scopes.length === 0 ||
+      !scopes.every(scope => (TOKEN_SCOPES as readonly unknown[]).includes(scope))) {
+    throw new Error(`Scopes must be one or more of: ${TOKEN_SCOPES.join(', ')}`);
+  }
+
+  const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+  const db = getDatabase();
+  const { lastInsertRowid } = db.prepare(`
+    INSERT INTO api_tokens (user_id, name, token_hash, prefix, scopes)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(userId, trimmed, tokenHash(token), token.slice(0, TOKEN_PREFIX.length + 6), JSON.stringify([...new Set(scopes)]));
+
+  const row = db.prepare(`SELECT * FROM api_tokens WHERE id = ?`).get(lastInsertRowid) as ApiTokenRow;
+  return { token, apiToken: toApiToken(row) };
+}
+
+export function revokeApiToken(userId: number, id: number): boolean {
+  const { changes } = getDatabase().prepare(`
+    DELETE FROM api_tokens WHERE id = ? AND user_id = ?
+  `).run(id, userId);
+  return changes > 0;
+}
+
+// The profile a token belongs to, if it exists and carries the scope. Records
+// the use when it can: the stamp is skipped while an import holds the write
+// lock, rather than holding up the request.
+export function authenticateApiToken(token: string, scope: TokenScope): number | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT id, user_id, scopes FROM api_tokens WHERE token_hash = ?
+  `).get(tokenHash(token)) as { id: number; user_id: number; scopes: string } | undefined;
+  if (!row || !(JSON.parse(row.scopes) as TokenScope[]).includes(scope)) return null;
+
+  writeWhenUnlocked(connection => connection.prepare(`
+    UPDATE api_tokens SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).run(row.id), 0).catch(error => {
+    if (!isBusyError(error)) console.error('Failed to record API token use:', error);
+  });
+  return row.user_id;
+}
+
+// The profile a token belongs to, without checking scopes; the proxy has
+// already done that for the request
+export function getApiTokenUserId(token: string): number | null {
+  const userId = getDatabase().prepare(`
+    SELECT user_id FROM api_tokens WHERE token_hash = ?
+  `).pluck().get(tokenHash(token)) as number | undefined;
+  return userId ?? null;
+}
+
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: JSON.parse(row.scopes),
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at
+  };
+}
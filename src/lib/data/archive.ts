@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { unzipSync } from 'fflate';
+
+// Extract an uploaded .zip (e.g. a zipped SD card) into a directory
+export function extractZip(zipPath: string, destDir: string): string[] {
+  const entries = unzipSync(new Uint8Array(fs.readFileSync(zipPath)));
+  const root = path.resolve(destDir);
+  const written: string[] = [];
+
+  for (const [name, data] of Object.entries(entries)) {
+    // Directory entries have a trailing slash and no content
+    if (name.endsWith('/')) continue;
+
+    const target = path.resolve(root, name);
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`Refusing to extract entry outside archive root: ${name}`);
+    }
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, data);
+    written.push(target);
+  }
+
+  return written;
+}
+
+// Recursively search for a file or directory by name (case-insensitive)
+export function findEntry(rootDir: string, name: string, maxDepth = 4): string | null {
+  const wanted = name.toLowerCase();
+  const queue: Array<{ dir: string; depth: number }> = [{ dir: rootDir, depth: 0 }];
+
+  while (queue.length > 0) {
+    const { dir, depth } = queue.shift()!;
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.name.toLowerCase() === wanted) return fullPath;
+      if (entry.isDirectory() && depth < maxDepth && !entry.name.startsWith('__MACOSX')) {
+        queue.push({ dir: fullPath, depth: depth + 1 });
+      }
+    }
+  }
+
+  return null;
+}
+
+// Recursively list the files whose name matches, in path order
+export function listFiles(rootDir: string, matches: (name: string) => boolean, maxDepth = 4): string[] {
+  const found: string[] = [];
+  const walk = (dir: string, depth: number) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (depth < maxDepth && !entry.name.startsWith('__MACOSX')) walk(fullPath, depth + 1);
+      } else if (matches(entry.name)) {
+        found.push(fullPath);
+      }
+    }
+  };
+
+  walk(rootDir, 0);
+  return found.sort();
+}
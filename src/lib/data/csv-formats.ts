@@ -0,0 +1,459 @@
+// Recognise third-party CSV exports by their header layout and map their
+// columns onto the fields we store.
+
+import type { CPAPCSVRow } from './ingest';
+import type { SettingValues, TherapyMode } from './therapy-settings';
+import { formatInTimeZone, isRepeatedWallClock } from './time';
+import { validSpO2, validPulseRate, OximetrySample } from './oximetry';
+
+export type CSVLayout =
+  | 'simplified'      // sample-cpap-data.csv: one row per sample or event
+  | 'oscar-summary'   // OSCAR File > Export CSV > Summary: one row per day
+  | 'oscar-sessions'  // OSCAR Export CSV > Sessions: one row per session
+  | 'oscar-details'   // OSCAR Export CSV > Details: one row per event
+  | 'sleephq'         // SleepHQ data export: one row per night
+  | 'oximetry';       // Wellue/Viatom or Contec oximeter export: one row per reading
+
+// Night-level values found in summary-style exports
+export interface SummaryRow {
+  date: string;
+  usageMinutes: number | null;
+  ahi: number | null;
+  obstructiveCount: number | null;
+  centralCount: number | null;
+  hypopneaCount: number | null;
+  unclassifiedCount: number | null;
+  reraCount: number | null;
+  medianPressure: number | null;
+  pressure95: number | null;
+  maxPressure: number | null;
+  medianLeak: number | null;
+  leak95: number | null;
+  maxLeak: number | null;
+}
+
+export interface DetailEventRow {
+  timestamp: string;
+  session: string;
+  eventType: string;
+  duration: number | null;
+}
+
+// Fields of the simplified row format that a column can be mapped onto
+export const MAPPABLE_FIELDS = [
+  'timestamp', 'leak_rate', 'pressure', 'flow_limitation',
+  'mask_on', 'event_type', 'event_duration', 'event_severity'
+] as const;
+
+export type MappableField = typeof MAPPABLE_FIELDS[number];
+
+// Field -> source header name
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+// Units a mapped column can be recorded in; the first entry is what we store
+export const UNIT_OPTIONS = {
+  timestamp: ['datetime', 'epoch_seconds', 'epoch_millis'],
+  leak_rate: ['L/min', 'L/s'],
+  pressure: ['cmH2O', 'hPa'],
+  flow_limitation: ['fraction', 'percent'],
+  event_duration: ['seconds', 'milliseconds']
+} as const;
+
+export type ColumnUnits = {
+  -readonly [K in keyof typeof UNIT_OPTIONS]?: typeof UNIT_OPTIONS[K][number];
+};
+
+const FIELD_ALIASES: Record<MappableField, string[]> = {
+  timestamp: ['timestamp', 'datetime', 'time', 'date', 'starttime', 'recordedat', 'epoch', 'unixtime'],
+  leak_rate: ['leakrate', 'leak', 'totalleak', 'unintentionalleak'],
+  pressure: ['pressure', 'maskpressure', 'press', 'therapypressure'],
+  flow_limitation: ['flowlimitation', 'flowlim', 'flowlimit', 'fl'],
+  mask_on: ['maskon', 'mask', 'maskstatus', 'inuse'],
+  event_type: ['eventtype', 'event', 'eventname'],
+  event_duration: ['eventduration', 'duration', 'durationseconds'],
+  event_severity: ['eventseverity', 'severity']
+};
+
+// "Count: CA", "CA Count", "95% Pressure" -> "countca", "cacount", "95pressure"
+export function normalizeHeader(header: string): string {
+  return header.trim().replace(/^"|"$/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const SUMMARY_COLUMNS: Record<Exclude<keyof SummaryRow, 'date'>, string[]> = {
+  usageMinutes: ['totaltime', 'usage', 'usagehours', 'usagehrs', 'usagetime', 'duration', 'totalusage'],
+  ahi: ['ahi'],
+  obstructiveCount: ['oacount', 'countoa', 'obstructivecount', 'obstructiveapneas', 'oa'],
+  centralCount: ['cacount', 'countca', 'clearairwaycount', 'centralapneas', 'ca'],
+  hypopneaCount: ['hcount', 'counth', 'hypopneacount', 'hypopneas', 'h'],
+  unclassifiedCount: ['uacount', 'countua', 'acount', 'counta', 'unclassifiedapneas', 'apneas'],
+  reraCount: ['recount', 'countre', 'reracount', 'countrera', 'reras'],
+  medianPressure: ['medianpressure', 'pressuremedian', 'pressure50', '50pressure', 'avgpressure'],
+  pressure95: ['95pressure', 'pressure95', 'pressure95th', '95thpercentilepressure', '90pressure'],
+  maxPressure: ['maxpressure', 'pressuremax', '995pressure'],
+  medianLeak: ['medianleak', 'leakmedian', 'leak50', '50leak', 'avgleak', 'avgleakrate'],
+  leak95: ['95leak', 'leak95', 'leak95th', '95thpercentileleak', '90leak'],
+  maxLeak: ['maxleak', 'leakmax', '995leak']
+};
+
+// Machine settings columns, in summary exports or alongside samples. Names are
+// kept apart from the nightly statistics ("Max Pressure" is what was delivered).
+const SETTINGS_COLUMNS: Record<keyof SettingValues, string[]> = {
+  mode: ['mode', 'therapymode', 'cpapmode', 'machinemode'],
+  pressure: ['pressuresetting', 'setpressure', 'cpappressure', 'fixedpressure', 'prescribedpressure'],
+  minPressure: ['minpressuresetting', 'setminpressure', 'minimumpressuresetting', 'apapmin', 'apapminpressure'],
+  maxPressure: ['maxpressuresetting', 'setmaxpressure', 'maximumpressuresetting', 'apapmax', 'apapmaxpressure'],
+  epr: ['epr', 'eprlevel', 'flex', 'flexlevel', 'pressurerelief'],
+  rampMinutes: ['ramp', 'ramptime', 'rampminutes'],
+  humidity: ['humidity', 'humiditylevel', 'humidifier', 'humidifierlevel']
+};
+
+const THERAPY_MODE_NAMES: Record<string, TherapyMode> = {
+  cpap: 'CPAP',
+  apap: 'APAP',
+  auto: 'APAP',
+  autocpap: 'APAP',
+  autoset: 'APAP',
+  autosetforher: 'APAP',
+  bilevel: 'BiLevel',
+  bipap: 'BiLevel',
+  vpap: 'BiLevel',
+  autobilevel: 'BiLevel',
+  asv: 'ASV',
+  asvauto: 'ASV'
+};
+
+// Oximeter exports: "Time,Oxygen Level,Pulse Rate" (Viatom O2 Insight),
+// "Time,SpO2(%),Pulse Rate(bpm)" (ViHealth), "Date,Time,SpO2,PR" (Contec)
+const OXIMETRY_COLUMNS = {
+  time: ['time', 'datetime', 'timestamp'],
+  spo2: ['spo2', 'oxygenlevel', 'spo2percent', 'saturation', 'o2'],
+  pulseRate: ['pulserate', 'pulseratebpm', 'pulse', 'pr', 'prbpm', 'heartrate', 'hr']
+};
+
+export function detectCSVLayout(headers: string[]): CSVLayout | null {
+  const normalized = new Set(headers.map(normalizeHeader));
+  const has = (...names: string[]) => names.every(n => normalized.has(n));
+  const hasAny = (names: string[]) => names.some(n => normalized.has(n));
+
+  if (hasAny(OXIMETRY_COLUMNS.spo2) && hasAny(OXIMETRY_COLUMNS.time) &&
+      !hasAny(FIELD_ALIASES.pressure) && !hasAny(FIELD_ALIASES.leak_rate)) {
+    return 'oximetry';
+  }
+  if (has('timestamp')) return 'simplified';
+  if (has('datetime', 'session', 'event')) return 'oscar-details';
+  if (has('date', 'sessioncount')) return 'oscar-summary';
+  if (has('date', 'session', 'start', 'end', 'totaltime')) return 'oscar-sessions';
+
+  // SleepHQ exports are per night with usage in hours plus AHI
+  const hasUsage = ['usagehours', 'usagehrs', 'usage', 'usagetime'].some(n => normalized.has(n));
+  if ((has('date') || has('night')) && has('ahi') && hasUsage) return 'sleephq';
+
+  return null;
+}
+
+export function mapSummaryRow(headers: string[], values: string[]): SummaryRow | null {
+  const normalized = headers.map(normalizeHeader);
+  const dateIndex = normalized.findIndex(h => h === 'date' || h === 'night');
+  const date = dateIndex !== -1 ? normalizeDate(values[dateIndex]) : null;
+  if (!date) return null;
+
+  const row: SummaryRow = {
+    date,
+    usageMinutes: null,
+    ahi: null,
+    obstructiveCount: null,
+    centralCount: null,
+    hypopneaCount: null,
+    unclassifiedCount: null,
+    reraCount: null,
+    medianPressure: null,
+    pressure95: null,
+    maxPressure: null,
+    medianLeak: null,
+    leak95: null,
+    maxLeak: null
+  };
+
+  for (const [field, aliases] of Object.entries(SUMMARY_COLUMNS) as [keyof typeof SUMMARY_COLUMNS, string[]][]) {
+    const index = normalized.findIndex(h => aliases.includes(h));
+    if (index === -1 || !values[index]?.trim()) continue;
+
+    row[field] = field === 'usageMinutes' ?
+      parseDurationMinutes(values[index], headers[index]) :
+      parseNumber(values[index]);
+  }
+
+  return row;
+}
+
+export function hasSettingsColumns(headers: string[]): boolean {
+  const aliases = Object.values(SETTINGS_COLUMNS).flat();
+  return headers.some(h => aliases.includes(normalizeHeader(h)));
+}
+
+// Settings columns of a row; null when they are all empty
+export function mapSettingsRow(headers: string[], values: string[]): SettingValues | null {
+  const normalized = headers.map(normalizeHeader);
+  const value = (aliases: string[]) => {
+    const index = normalized.findIndex(h => aliases.includes(h));
+    return index !== -1 ? values[index]?.trim() ?? '' : '';
+  };
+
+  const settings: SettingValues = {
+    mode: THERAPY_MODE_NAMES[normalizeHeader(value(SETTINGS_COLUMNS.mode))] ?? null,
+    pressure: parseNumber(value(SETTINGS_COLUMNS.pressure)),
+    minPressure: parseNumber(value(SETTINGS_COLUMNS.minPressure)),
+    maxPressure: parseNumber(value(SETTINGS_COLUMNS.maxPressure)),
+    epr: parseNumber(value(SETTINGS_COLUMNS.epr)),
+    rampMinutes: parseNumber(value(SETTINGS_COLUMNS.rampMinutes)),
+    humidity: parseNumber(value(SETTINGS_COLUMNS.humidity))
+  };
+
+  return Object.values(settings).some(v => v !== null) ? settings : null;
+}
+
+export function mapDetailRow(headers: string[], values: string[], timeZone?: string): DetailEventRow | null {
+  const normalized = headers.map(normalizeHeader);
+  const value = (name: string) => {
+    const index = normalized.indexOf(name);
+    return index !== -1 ? values[index]?.trim() ?? '' : '';
+  };
+
+  const timestamp = normalizeTimestamp(value('datetime'), timeZone);
+  const eventType = value('event');
+  if (!timestamp || !eventType) return null;
+
+  return {
+    timestamp,
+    session: value('session'),
+    eventType,
+    duration: parseNumber(value('dataduration'))
+  };
+}
+
+export function mapOximetryRow(headers: string[], values: string[], timeZone?: string): OximetrySample | null {
+  const normalized = headers.map(normalizeHeader);
+  const value = (aliases: string[]) => {
+    const index = normalized.findIndex(h => aliases.includes(h));
+    return index !== -1 ? values[index]?.trim() ?? '' : '';
+  };
+
+  // Contec splits the date and the time of day into separate columns
+  const time = value(OXIMETRY_COLUMNS.time);
+  const date = value(['date']);
+  const timestamp = parseOximeterTime(date && !time.includes(' ') ? `${date} ${time}` : time, timeZone);
+  if (!timestamp) return null;
+
+  return {
+    timestamp,
+    spo2: validSpO2(parseNumber(value(OXIMETRY_COLUMNS.spo2))),
+    pulse_rate: validPulseRate(parseNumber(value(OXIMETRY_COLUMNS.pulseRate)))
+  };
+}
+
+// Viatom writes the time of day first ("22:15:04 Jan 12 2024" or
+// "10:15:04PM Jan 12, 2024"); everything else goes through normalizeTimestamp
+function parseOximeterTime(value: string, timeZone?: string): string | null {
+  const match = value.match(/^(\d{1,2}):(\d{2}):(\d{2})\s*(AM|PM)?\s+(.+)$/i);
+  if (!match) return normalizeTimestamp(value, timeZone);
+
+  const [, h, m, sec, meridiem, day] = match;
+  const date = normalizeDate(day);
+  if (!date) return null;
+
+  let hour = Number(h) % (meridiem ? 12 : 24);
+  if (meridiem?.toUpperCase() === 'PM') hour += 12;
+  return `${date} ${String(hour).padStart(2, '0')}:${m}:${sec}`;
+}
+
+// Accepts ISO-like timestamps (with or without zone) and anything Date can parse.
+// Returns the wall-clock time as "YYYY-MM-DD HH:MM:SS": times without a zone are
+// kept as written, times with one are converted to timeZone (server zone if omitted).
+// Throws for a time in the hour repeated when timeZone's clocks go back, which
+// would otherwise be merged into the row stored for the first pass.
+export function normalizeTimestamp(value: string, timeZone?: string): string | null {
+  const trimmed = value?.trim().replace(/^"|"$/g, '');
+  if (!trimmed) return null;
+
+  const match = trimmed.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i
+  );
+  if (match && !match[7]) {
+    const [, y, mo, d, h = '0', mi = '0', s = '0'] = match;
+    return `${y}-${mo}-${d} ${h.padStart(2, '0')}:${mi}:${s.padStart(2, '0')}`;
+  }
+
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) return null;
+  if (match && timeZone) {
+    if (isRepeatedWallClock(parsed, timeZone)) {
+      throw new Error(
+        `${trimmed} falls in the hour repeated when clocks go back in ${timeZone}; ` +
+        'stored wall-clock times can\'t keep it apart from the first pass, so it was skipped'
+      );
+    }
+    return formatInTimeZone(parsed, timeZone);
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())} ` +
+    `${pad(parsed.getHours())}:${pad(parsed.getMinutes())}:${pad(parsed.getSeconds())}`;
+}
+
+export function normalizeDate(value: string): string | null {
+  return normalizeTimestamp(value)?.split(' ')[0] ?? null;
+}
+
+function parseNumber(value: string): number | null {
+  const parsed = parseFloat(value.replace(/[^0-9.eE+-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// "07:12:33" (OSCAR), "7.2" hours (SleepHQ "Usage (hours)") or plain minutes
+function parseDurationMinutes(value: string, header: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed.includes(':')) {
+    const [h = 0, m = 0, s = 0] = trimmed.split(':').map(Number);
+    const minutes = h * 60 + m + s / 60;
+    return Number.isFinite(minutes) ? minutes : null;
+  }
+
+  const parsed = parseNumber(trimmed);
+  if (parsed === null) return null;
+  return /hour|hrs|\(h\)/i.test(header) ? parsed * 60 : parsed;
+}
+
+// Guess which header feeds each field: exact alias first, then a header that
+// starts with an alias ("Leak (L/s)" -> leak_rate)
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  for (const field of MAPPABLE_FIELDS) {
+    const aliases = FIELD_ALIASES[field];
+    let index = normalized.findIndex((h, i) => !used.has(i) && aliases.includes(h));
+    if (index === -1) {
+      index = normalized.findIndex((h, i) =>
+        !used.has(i) && aliases.some(a => a.length >= 4 && h.startsWith(a)));
+    }
+    if (index !== -1) {
+      used.add(index);
+      mapping[field] = headers[index];
+    }
+  }
+
+  return mapping;
+}
+
+// Guess units from header annotations ("(L/s)", "hPa", "%") and sample values
+export function detectColumnUnits(
+  headers: string[],
+  sampleRows: string[][],
+  mapping: ColumnMapping
+): ColumnUnits {
+  const units: ColumnUnits = {};
+  const samplesFor = (header: string) => {
+    const index = headers.indexOf(header);
+    return sampleRows.map(r => r[index]?.trim()).filter(Boolean);
+  };
+
+  if (mapping.timestamp) {
+    const values = samplesFor(mapping.timestamp);
+    if (values.length > 0 && values.every(v => /^\d+(\.\d+)?$/.test(v))) {
+      units.timestamp = values[0].split('.')[0].length >= 13 ? 'epoch_millis' : 'epoch_seconds';
+    } else {
+      units.timestamp = 'datetime';
+    }
+  }
+
+  if (mapping.leak_rate) {
+    const header = mapping.leak_rate;
+    const values = samplesFor(header).map(Number).filter(Number.isFinite);
+    // Leak in L/s is almost always below 2; L/min leak rarely is for a whole sample
+    const looksLikeLitresPerSecond = values.length > 0 && Math.max(...values) < 2;
+    units.leak_rate = /l\s*\/\s*s(ec)?\b/i.test(header) ? 'L/s' :
+      /l\s*\/\s*min/i.test(header) ? 'L/min' :
+      looksLikeLitresPerSecond ? 'L/s' : 'L/min';
+  }
+
+  if (mapping.pressure) {
+    units.pressure = /hpa|mbar/i.test(mapping.pressure) ? 'hPa' : 'cmH2O';
+  }
+
+  if (mapping.flow_limitation) {
+    const values = samplesFor(mapping.flow_limitation).map(Number).filter(Number.isFinite);
+    units.flow_limitation = /%|percent/i.test(mapping.flow_limitation) ||
+      (values.length > 0 && Math.max(...values) > 1) ? 'percent' : 'fraction';
+  }
+
+  if (mapping.event_duration) {
+    units.event_duration = /\bms\b|milli/i.test(mapping.event_duration) ? 'milliseconds' : 'seconds';
+  }
+
+  return units;
+}
+
+const HPA_TO_CMH2O = 1.01972;
+
+// Build a simplified row from a record using a (possibly user-edited) mapping,
+// converting values to the units we store. Returns null without a valid timestamp.
+export function applyColumnMapping(
+  headers: string[],
+  values: string[],
+  mapping: ColumnMapping,
+  units: ColumnUnits = {},
+  timeZone?: string
+): CPAPCSVRow | null {
+  const raw = (field: MappableField) => {
+    const header = mapping[field];
+    if (!header) return undefined;
+    const value = values[headers.indexOf(header)]?.trim();
+    return value ? value : undefined;
+  };
+  const number = (field: MappableField) => {
+    const value = raw(field);
+    return value !== undefined ? parseFloat(value) || 0 : undefined;
+  };
+
+  const timestampValue = raw('timestamp');
+  if (!timestampValue) return null;
+
+  const timestamp = units.timestamp === 'epoch_seconds' || units.timestamp === 'epoch_millis' ?
+    normalizeTimestamp(new Date(
+      parseFloat(timestampValue) * (units.timestamp === 'epoch_seconds' ? 1000 : 1)
+    ).toISOString(), timeZone) :
+    normalizeTimestamp(timestampValue, timeZone);
+  if (!timestamp) return null;
+
+  const row: CPAPCSVRow = { timestamp };
+
+  const leak = number('leak_rate');
+  if (leak !== undefined) row.leak_rate = units.leak_rate === 'L/s' ? leak * 60 : leak;
+
+  const pressure = number('pressure');
+  if (pressure !== undefined) row.pressure = units.pressure === 'hPa' ? pressure * HPA_TO_CMH2O : pressure;
+
+  const flowLimitation = number('flow_limitation');
+  if (flowLimitation !== undefined) {
+    row.flow_limitation = units.flow_limitation === 'percent' ? flowLimitation / 100 : flowLimitation;
+  }
+
+  const maskOn = raw('mask_on');
+  if (maskOn !== undefined) {
+    row.mask_on = /^(true|yes|on)$/i.test(maskOn) ? 1 :
+      /^(false|no|off)$/i.test(maskOn) ? 0 : parseFloat(maskOn) || 0;
+  }
+
+  const duration = number('event_duration');
+  if (duration !== undefined) {
+    row.event_duration = units.event_duration === 'milliseconds' ? duration / 1000 : duration;
+  }
+
+  const severity = number('event_severity');
+  if (severity !== undefined) row.event_severity = severity;
+
+  if (mapping.event_type) row.event_type = raw('event_type') || '';
+
+  return row;
+}
@@ -0,0 +1,113 @@
+import fs from 'fs';
+
+// Streaming RFC 4180 CSV reader: quoted fields, "" escapes, embedded
+// newlines, CRLF/LF/CR line endings and a leading UTF-8 BOM.
+
+// Longest record accepted, in characters. A stray quote otherwise makes the
+// rest of the file one field, held in memory.
+const MAX_RECORD_LENGTH = 1024 * 1024;
+
+export interface CSVRecord {
+  line: number; // physical line the record starts on (1-based)
+  values: string[];
+  bytesRead: number; // bytes of the file read so far, for progress reporting
+}
+
+export async function* readCSVRecords(
+  filePath: string,
+  options: { highWaterMark?: number; maxRecordLength?: number } = {}
+): AsyncGenerator<CSVRecord> {
+  const maxRecordLength = options.maxRecordLength ?? MAX_RECORD_LENGTH;
+  const stream = fs.createReadStream(filePath, {
+    encoding: 'utf-8',
+    highWaterMark: options.highWaterMark ?? 64 * 1024
+  });
+
+  let field = '';
+  let values: string[] = [];
+  let inQuotes = false;
+  let quotePending = false; // saw a quote inside a quoted field; next char decides
+  let lastWasCR = false;
+  let prev = '';
+  let line = 1;
+  let recordLine = 1;
+  let first = true;
+  let recordLength = 0;
+
+  const endRecord = (): CSVRecord | null => {
+    values.push(field);
+    field = '';
+    const record = values;
+    values = [];
+    recordLength = 0;
+    const start = recordLine;
+    recordLine = line;
+    // Skip blank lines
+    if (record.length === 1 && record[0].trim() === '') return null;
+    return { line: start, values: record, bytesRead: stream.bytesRead };
+  };
+
+  for await (const chunk of stream as AsyncIterable<string>) {
+    let text = chunk;
+    if (first) {
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+      first = false;
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      const prevChar = prev;
+      prev = ch;
+
+      if (lastWasCR) {
+        lastWasCR = false;
+        if (ch === '\n') continue;
+      }
+
+      if (++recordLength > maxRecordLength) {
+        throw new Error(
+          `Line ${recordLine}: record longer than ${maxRecordLength} characters${inQuotes ? ' (unterminated quote?)' : ''}`
+        );
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (ch === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (ch === '"') {
+          quotePending = true;
+        } else {
+          if (ch === '\r' || (ch === '\n' && prevChar !== '\r')) line++;
+          field += ch;
+        }
+        continue;
+      }
+
+      if (ch === '"' && field.trim() === '') {
+        field = '';
+        inQuotes = true;
+      } else if (ch === ',') {
+        values.push(field);
+        field = '';
+      } else if (ch === '\n' || ch === '\r') {
+        if (ch === '\r') lastWasCR = true;
+        line++;
+        const record = endRecord();
+        if (record) yield record;
+      } else {
+        field += ch;
+      }
+    }
+  }
+
+  if (field !== '' || values.length > 0) {
+    const record = endRecord();
+    if (record) yield record;
+  }
+}
@@ -0,0 +1,85 @@
+import { getDatabase } from '@/lib/db';
+
+// CPAP machines data was imported from. SD card importers read the serial
+// number from the card; the machine's rows are tagged with its device_id, and
+// every night gets a row per device alongside the all-devices row.
+
+// What an importer can tell about the machine that wrote a card
+export interface DeviceIdentity {
+  manufacturer: string;
+  model: string | null;
+  serial: string;
+}
+
+export interface Device extends DeviceIdentity {
+  id: number;
+  name: string | null;
+  label: string; // name, or manufacturer, model and serial
+  // Nights with data from this device
+  nights: number;
+  firstNight: string | null;
+  lastNight: string | null;
+  createdAt: string;
+}
+
+interface DeviceRow {
+  id: number;
+  manufacturer: string;
+  model: string | null;
+  serial: string;
+  name: string | null;
+  nights: number;
+  first_night: string | null;
+  last_night: string | null;
+  created_at: string;
+}
+
+const SELECT_DEVICES = `
+  SELECT devices.*,
+    (SELECT COUNT(*) FROM nightly_aggregates WHERE device_id = devices.id) AS nights,
+    (SELECT MIN(date) FROM nightly_aggregates WHERE device_id = devices.id) AS first_night,
+    (SELECT MAX(date) FROM nightly_aggregates WHERE device_id = devices.id) AS last_night
+  FROM devices
+`;
+
+// Most recently used first
+export function listDevices(userId: number): Device[] {
+  const rows = getDatabase().prepare(`
+    ${SELECT_DEVICES} WHERE user_id = ? ORDER BY last_night IS NULL, last_night DESC, id
+  `).all(userId) as DeviceRow[];
+  return rows.map(toDevice);
+}
+
+export function getDevice(userId: number, id: number): Device | null {
+  const row = getDatabase().prepare(`
+    ${SELECT_DEVICES} WHERE id = ? AND user_id = ?
+  `).get(id, userId) as DeviceRow | undefined;
+  return row ? toDevice(row) : null;
+}
+
+// A blank name goes back to the default label
+export function renameDevice(userId: number, id: number, name: string | null): Device | null {
+  const { changes } = getDatabase().prepare(`
+    UPDATE devices SET name = ? WHERE id = ? AND user_id = ?
+  `).run(name?.trim() || null, id, userId);
+  return changes > 0 ? getDevice(userId, id) : null;
+}
+
+export function describeDevice(device: DeviceIdentity & { name?: string | null }): string {
+  return device.name || `${[device.manufacturer, device.model].filter(Boolean).join(' ')} (${device.serial})`;
+}
+
+function toDevice(row: DeviceRow): Device {
+  return {
+    id: row.id,
+    manufacturer: row.manufacturer,
+    model: row.model,
+    serial: row.serial,
+    name: row.name,
+    label: describeDevice(row),
+    nights: row.nights,
+    firstNight: row.first_night,
+    lastNight: row.last_night,
+    createdAt: row.created_at
+  };
+}
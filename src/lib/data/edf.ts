@@ -0,0 +1,211 @@
+import fs from 'fs';
+import { formatNaive, naiveMillis } from './time';
+
+// EDF / EDF+ reader for ResMed SD-card files (STR.edf and DATALOG/*.edf)
+
+export interface EDFSignal {
+  label: string;
+  transducer: string;
+  physicalDimension: string;
+  physicalMin: number;
+  physicalMax: number;
+  digitalMin: number;
+  digitalMax: number;
+  samplesPerRecord: number;
+  // Physical values for every data record, concatenated
+  values: Float64Array;
+}
+
+export interface EDFAnnotation {
+  onset: number; // seconds from recording start
+  duration: number | null;
+  text: string;
+}
+
+export interface EDFFile {
+  patient: string;
+  recording: string;
+  // Naive local start time as written by the device (YYYY-MM-DD HH:MM:SS)
+  startTime: string;
+  isEDFPlus: boolean;
+  numRecords: number;
+  recordDuration: number; // seconds
+  signals: EDFSignal[];
+  annotations: EDFAnnotation[];
+}
+
+const ANNOTATION_LABEL = 'EDF Annotations';
+
+export function readEDF(filePath: string): EDFFile {
+  return parseEDF(fs.readFileSync(filePath));
+}
+
+export function parseEDF(buffer: Buffer): EDFFile {
+  if (buffer.length < 256) {
+    throw new Error('File too short to be EDF');
+  }
+
+  const ascii = (offset: number, length: number) =>
+    buffer.toString('latin1', offset, offset + length).trim();
+
+  const version = ascii(0, 8);
+  if (version !== '0') {
+    throw new Error(`Unsupported EDF version "${version}"`);
+  }
+
+  const patient = ascii(8, 80);
+  const recording = ascii(88, 80);
+  const startDate = ascii(168, 8);
+  const startClock = ascii(176, 8);
+  const headerBytes = parseInt(ascii(184, 8), 10);
+  const reserved = ascii(192, 44);
+  let numRecords = parseInt(ascii(236, 8), 10);
+  const recordDuration = parseFloat(ascii(244, 8));
+  const ns = parseInt(ascii(252, 4), 10);
+
+  if (!Number.isFinite(ns) || ns <= 0 || headerBytes !== 256 + ns * 256) {
+    throw new Error('Corrupt EDF header');
+  }
+
+  // Per-signal header fields are stored column-wise
+  let offset = 256;
+  const field = (length: number) => {
+    const values: string[] = [];
+    for (let i = 0; i < ns; i++) {
+      values.push(ascii(offset + i * length, length));
+    }
+    offset += ns * length;
+    return values;
+  };
+
+  const labels = field(16);
+  const transducers = field(80);
+  const dimensions = field(8);
+  const physMins = field(8).map(Number);
+  const physMaxs = field(8).map(Number);
+  const digMins = field(8).map(Number);
+  const digMaxs = field(8).map(Number);
+  field(80); // prefiltering
+  const samplesPerRecord = field(8).map(v => parseInt(v, 10));
+  field(32); // reserved
+
+  const recordSamples = samplesPerRecord.reduce((a, b) => a + b, 0);
+  const recordBytes = recordSamples * 2;
+  const availableRecords = Math.floor((buffer.length - headerBytes) / recordBytes);
+
+  // -1 means "unknown" (device was writing when the card was pulled)
+  if (numRecords < 0 || numRecords > availableRecords) {
+    numRecords = availableRecords;
+  }
+
+  const signals: EDFSignal[] = labels.map((label, i) => ({
+    label,
+    transducer: transducers[i],
+    physicalDimension: dimensions[i],
+    physicalMin: physMins[i],
+    physicalMax: physMaxs[i],
+    digitalMin: digMins[i],
+    digitalMax: digMaxs[i],
+    samplesPerRecord: samplesPerRecord[i],
+    values: new Float64Array(label === ANNOTATION_LABEL ? 0 : samplesPerRecord[i] * numRecords)
+  }));
+
+  const annotations: EDFAnnotation[] = [];
+
+  for (let r = 0; r < numRecords; r++) {
+    let pos = headerBytes + r * recordBytes;
+
+    for (let s = 0; s < ns; s++) {
+      const signal = signals[s];
+      const count = signal.samplesPerRecord;
+
+      if (signal.label === ANNOTATION_LABEL) {
+        annotations.push(...parseTALs(buffer.subarray(pos, pos + count * 2)));
+      } else {
+        const gain = (signal.physicalMax - signal.physicalMin) /
+          ((signal.digitalMax - signal.digitalMin) || 1);
+        for (let i = 0; i < count; i++) {
+          const digital = buffer.readInt16LE(pos + i * 2);
+          signal.values[r * count + i] = signal.physicalMin + (digital - signal.digitalMin) * gain;
+        }
+      }
+
+      pos += count * 2;
+    }
+  }
+
+  return {
+    patient,
+    recording,
+    startTime: parseEDFStartTime(startDate, startClock),
+    isEDFPlus: reserved.startsWith('EDF+'),
+    numRecords,
+    recordDuration,
+    signals: signals.filter(s => s.label !== ANNOTATION_LABEL),
+    annotations
+  };
+}
+
+export function findSignal(edf: EDFFile, ...labels: string[]): EDFSignal | undefined {
+  for (const label of labels) {
+    const match = edf.signals.find(s => s.label.toLowerCase() === label.toLowerCase());
+    if (match) return match;
+  }
+  // ResMed appends the sampling period to some labels (e.g. "Leak.2s", "Flow.40ms")
+  for (const label of labels) {
+    const prefix = label.toLowerCase() + '.';
+    const match = edf.signals.find(s => s.label.toLowerCase().startsWith(prefix));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+// Seconds between consecutive samples of a signal
+export function sampleInterval(edf: EDFFile, signal: EDFSignal): number {
+  return edf.recordDuration / signal.samplesPerRecord;
+}
+
+// Offset a naive "YYYY-MM-DD HH:MM:SS" timestamp by a number of seconds
+export function offsetTimestamp(startTime: string, seconds: number): string {
+  return formatNaive(naiveMillis(startTime) + Math.round(seconds * 1000));
+}
+
+function parseEDFStartTime(date: string, clock: string): string {
+  const [dd, mm, yy] = date.split('.').map(v => parseInt(v, 10));
+  const [hh, mi, ss] = clock.split('.').map(v => parseInt(v, 10));
+  if ([dd, mm, yy, hh, mi, ss].some(v => !Number.isFinite(v))) {
+    throw new Error(`Invalid EDF start time "${date} ${clock}"`);
+  }
+  // EDF years are two-digit; 85-99 are 1900s per the spec
+  const year = yy >= 85 ? 1900 + yy : 2000 + yy;
+  return formatNaive(Date.UTC(year, mm - 1, dd, hh, mi, ss));
+}
+
+// Time-stamped annotation lists: +onset[\x15duration]\x14text\x14...\x00
+function parseTALs(bytes: Buffer): EDFAnnotation[] {
+  const annotations: EDFAnnotation[] = [];
+  const text = bytes.toString('latin1');
+
+  for (const tal of text.split('\x00')) {
+    if (!tal) continue;
+
+    const parts = tal.split('\x14');
+    const [timing, ...texts] = parts;
+    const [onsetText, durationText] = timing.split('\x15');
+    const onset = parseFloat(onsetText);
+    if (!Number.isFinite(onset)) continue;
+
+    const duration = durationText !== undefined ? parseFloat(durationText) : null;
+    for (const entry of texts) {
+      // The first (empty) entry of each record is the record time-keeping TAL
+      if (!entry.trim()) continue;
+      annotations.push({
+        onset,
+        duration: duration !== null && Number.isFinite(duration) ? duration : null,
+        text: entry.trim()
+      });
+    }
+  }
+
+  return annotations;
+}
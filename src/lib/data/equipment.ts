@@ -0,0 +1,208 @@
+import { getDatabase } from '@/lib/db';
+import { getSettings } from '@/lib/db/settings';
+import { currentSleepDay } from './sessions';
+import { addDays, naiveMillis } from './time';
+
+// Masks, cushions, tubing and other consumables, with the sleep days each was
+// in use and how often it should be replaced
+
+export const EQUIPMENT_TYPES = [
+  'mask', 'cushion', 'headgear', 'tubing', 'filter', 'water_chamber', 'other'
+] as const;
+
+export type EquipmentType = typeof EQUIPMENT_TYPES[number];
+
+// Typical replacement intervals, used when an item is added without one
+export const DEFAULT_REPLACEMENT_DAYS: Record<EquipmentType, number | null> = {
+  mask: 90,
+  cushion: 30,
+  headgear: 180,
+  tubing: 90,
+  filter: 30,
+  water_chamber: 180,
+  other: null
+};
+
+// Reminders start this many days before an item is due
+const REMINDER_LEAD_DAYS = 7;
+
+export interface EquipmentItem {
+  id: number;
+  type: EquipmentType;
+  model: string;
+  startedOn: string;
+  endedOn: string | null; // last sleep day in use; null while in use
+  replaceEveryDays: number | null;
+  // Replacement date while the item is in use and has a schedule
+  dueOn: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EquipmentInput {
+  type: EquipmentType;
+  model: string;
+  startedOn: string;
+  endedOn?: string | null;
+  replaceEveryDays?: number | null;
+  notes?: string | null;
+}
+
+export interface ReplacementReminder {
+  item: EquipmentItem;
+  dueOn: string;
+  daysUntilDue: number; // negative once overdue
+  status: 'due' | 'overdue';
+}
+
+interface EquipmentRow {
+  id: number;
+  type: EquipmentType;
+  model: string;
+  started_on: string;
+  ended_on: string | null;
+  replace_every_days: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// In use first, then most recently started
+export function listEquipment(userId: number): EquipmentItem[] {
+  const rows = getDatabase().prepare(`
+    SELECT * FROM equipment WHERE user_id = ?
+    ORDER BY ended_on IS NOT NULL, started_on DESC, id DESC
+  `).all(userId) as EquipmentRow[];
+  return rows.map(toItem);
+}
+
+export function getEquipment(userId: number, id: number): EquipmentItem | null {
+  const row = getDatabase().prepare(`
+    SELECT * FROM equipment WHERE id = ? AND user_id = ?
+  `).get(id, userId) as EquipmentRow | undefined;
+  return row ? toItem(row) : null;
+}
+
+// Add an item. With `replaces`, items of the same type still in use are
+// retired the day before it starts.
+export function createEquipment(userId: number, input: EquipmentInput, replaces = false): EquipmentItem {
+  const item = normalizeInput(input);
+  const db = getDatabase();
+
+  const id = db.transaction(() => {
+    if (replaces) {
+      db.prepare(`
+        UPDATE equipment SET ended_on = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE user_id = ? AND type = ? AND ended_on IS NULL AND started_on < ?
+      `).run(addDays(item.startedOn, -1), userId, item.type, item.startedOn);
+    }
+
+    const { lastInsertRowid } = db.prepare(`
+      INSERT INTO equipment (user_id, type, model, started_on, ended_on, replace_every_days, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(userId, item.type, item.model, item.startedOn, item.endedOn, item.replaceEveryDays, item.notes);
+    return Number(lastInsertRowid);
+  })();
+
+  return getEquipment(userId, id)!;
+}
+
+export function updateEquipment(
+  userId: number,
+  id: number,
+  changes: Partial<EquipmentInput>
+): EquipmentItem | null {
+  const current = getEquipment(userId, id);
+  if (!current) return null;
+
+  const item = normalizeInput({ ...current, ...changes });
+  getDatabase().prepare(`
+    UPDATE equipment SET
+      type = ?, model = ?, started_on = ?, ended_on = ?, replace_every_days = ?, notes = ?,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(item.type, item.model, item.startedOn, item.endedOn, item.replaceEveryDays, item.notes, id);
+
+  return getEquipment(userId, id);
+}
+
+export function deleteEquipment(userId: number, id: number): boolean {
+  return getDatabase().prepare(`
+    DELETE FROM equipment WHERE id = ? AND user_id = ?
+  `).run(id, userId).changes > 0;
+}
+
+// Items in use that are due for replacement within REMINDER_LEAD_DAYS, most
+// overdue first. "Today" is the sleep day in progress in the profile's zone.
+export function getReplacementReminders(userId: number, today?: string): ReplacementReminder[] {
+  const settings = getSettings(userId);
+  const day = today ?? currentSleepDay(settings.timezone, settings.sleepDayStartHour);
+
+  return listEquipment(userId)
+    .filter(item => item.dueOn !== null && item.dueOn <= addDays(day, REMINDER_LEAD_DAYS))
+    .map(item => {
+      const daysUntilDue = daysBetween(day, item.dueOn!);
+      return {
+        item,
+        dueOn: item.dueOn!,
+        daysUntilDue,
+        status: daysUntilDue < 0 ? 'overdue' as const : 'due' as const
+      };
+    })
+    .sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+}
+
+function normalizeInput(input: EquipmentInput): Required<EquipmentInput> {
+  const isDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+  if (!EQUIPMENT_TYPES.includes(input.type)) {
+    throw new Error(`Type must be one of: ${EQUIPMENT_TYPES.join(', ')}`);
+  }
+  const model = typeof input.model === 'string' ? input.model.trim() : '';
+  if (!model) {
+    throw new Error('Model is required');
+  }
+  if (!input.startedOn || !isDay(input.startedOn)) {
+    throw new Error('Start date must be a YYYY-MM-DD sleep day');
+  }
+  const endedOn = input.endedOn || null;
+  if (endedOn !== null && (!isDay(endedOn) || endedOn < input.startedOn)) {
+    throw new Error('End date must be a YYYY-MM-DD sleep day on or after the start date');
+  }
+
+  const replaceEveryDays = input.replaceEveryDays === undefined ?
+    DEFAULT_REPLACEMENT_DAYS[input.type] : input.replaceEveryDays;
+  if (replaceEveryDays !== null && !(Number.isInteger(replaceEveryDays) && replaceEveryDays > 0)) {
+    throw new Error('Replacement interval must be a whole number of days');
+  }
+
+  return {
+    type: input.type,
+    model,
+    startedOn: input.startedOn,
+    endedOn,
+    replaceEveryDays,
+    notes: typeof input.notes === 'string' ? input.notes.trim() || null : null
+  };
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((naiveMillis(`${to} 00:00:00`) - naiveMillis(`${from} 00:00:00`)) / (24 * 3600 * 1000));
+}
+
+function toItem(row: EquipmentRow): EquipmentItem {
+  return {
+    id: row.id,
+    type: row.type,
+    model: row.model,
+    startedOn: row.started_on,
+    endedOn: row.ended_on,
+    replaceEveryDays: row.replace_every_days,
+    dueOn: row.ended_on === null && row.replace_every_days !== null ?
+      addDays(row.started_on, row.replace_every_days) : null,
+    notes: row.notes,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
@@ -0,0 +1,112 @@
+// Canonical respiratory and therapy event types. Machines and exports name the
+// same event differently ("Obstructive Apnea", "Obstructive", "OA"), so every
+// stored event also gets its canonical type in cpap_events.normalized_type.
+
+export const EVENT_TYPES = {
+  OA: 'Obstructive apnea',
+  CA: 'Central (clear airway) apnea',
+  UA: 'Unclassified apnea',
+  H: 'Hypopnea',
+  RERA: 'Respiratory effort-related arousal',
+  CSR: 'Cheyne-Stokes / periodic breathing',
+  LL: 'Large leak',
+  FL: 'Flow limitation',
+  VS: 'Vibratory snore',
+  PP: 'Pressure pulse'
+} as const;
+
+export type EventType = keyof typeof EVENT_TYPES;
+
+// Events that count towards the AHI
+export const APNEA_TYPES: readonly EventType[] = ['OA', 'CA', 'UA'];
+export const AHI_TYPES: readonly EventType[] = [...APNEA_TYPES, 'H'];
+
+// Sources with their own event names; anything else (our CSV, SleepHQ,
+// mapped CSVs) only goes through the common table
+export type EventSource = 'resmed' | 'prs1' | 'oscar';
+
+// Keys are names lowercased with everything but letters and digits removed
+const COMMON_ALIASES: Record<string, EventType> = {
+  oa: 'OA',
+  obstructive: 'OA',
+  obstructiveapnea: 'OA',
+  obstructiveapnoea: 'OA',
+  ca: 'CA',
+  central: 'CA',
+  centralapnea: 'CA',
+  centralapnoea: 'CA',
+  clearairway: 'CA',
+  clearairwayapnea: 'CA',
+  ua: 'UA',
+  apnea: 'UA',
+  apnoea: 'UA',
+  unclassifiedapnea: 'UA',
+  unknownapnea: 'UA',
+  h: 'H',
+  hypopnea: 'H',
+  hypopnoea: 'H',
+  rera: 'RERA',
+  re: 'RERA',
+  csr: 'CSR',
+  cheynestokes: 'CSR',
+  cheynestokesrespiration: 'CSR',
+  periodicbreathing: 'CSR',
+  pb: 'CSR',
+  ll: 'LL',
+  largeleak: 'LL',
+  fl: 'FL',
+  flowlimitation: 'FL',
+  vs: 'VS',
+  snore: 'VS',
+  vibratorysnore: 'VS',
+  pp: 'PP',
+  pressurepulse: 'PP'
+};
+
+// Each source's own vocabulary; names not listed fall back to the common table
+const SOURCE_ALIASES: Record<EventSource, Record<string, EventType>> = {
+  // EVE.edf / CSL.edf annotations; AirCurve and AirSense 11 flag RERAs as "Arousal"
+  resmed: {
+    obstructiveapnea: 'OA',
+    centralapnea: 'CA',
+    apnea: 'UA',
+    hypopnea: 'H',
+    arousal: 'RERA',
+    cheynestokesrespiration: 'CSR'
+  },
+  // Event codes decoded in prs1.ts
+  prs1: {
+    obstructiveapnea: 'OA',
+    clearairway: 'CA',
+    hypopnea: 'H',
+    rera: 'RERA',
+    periodicbreathing: 'CSR',
+    largeleak: 'LL',
+    flowlimitation: 'FL',
+    vibratorysnore: 'VS',
+    pressurepulse: 'PP'
+  },
+  // OSCAR channel codes, as written to the Details export
+  oscar: {
+    obstructive: 'OA',
+    clearairway: 'CA',
+    apnea: 'UA',
+    hypopnea: 'H',
+    rera: 'RERA',
+    csr: 'CSR',
+    pb: 'CSR',
+    largeleak: 'LL',
+    leakflag: 'LL',
+    flowlimit: 'FL',
+    vsnore: 'VS',
+    vsnore2: 'VS',
+    pressurepulse: 'PP'
+  }
+};
+
+// The canonical type for a source's event name; null for names we don't
+// recognise (they are still stored, just not counted in any index)
+export function normalizeEventType(name: string, source?: EventSource | null): EventType | null {
+  const key = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return (source ? SOURCE_ALIASES[source][key] : undefined) ?? COMMON_ALIASES[key] ?? null;
+}
@@ -0,0 +1,106 @@
+import { getDatabase } from '@/lib/db';
+import type { ImportFormat } from './ingest';
+
+// Read side of the imports ledger; rows are written by the importer itself
+// and marked undone by undoImport. An import still running (or interrupted,
+// see runImport) has no completion time and is left out.
+
+export interface ImportRecord {
+  id: number;
+  fileName: string | null;
+  fileHash: string | null;
+  fileSize: number | null;
+  sourceFormat: ImportFormat;
+  // Zone given with the upload, if it overrode the setting
+  timeZone: string | null;
+  rowsNew: number;
+  rowsDuplicated: number;
+  rowsUpdated: number;
+  samplesImported: number;
+  eventsImported: number;
+  oximetryImported: number;
+  nightsImported: number;
+  dateRange: { start: string; end: string } | null;
+  errors: string[];
+  // Rows still attributed to the import (later imports can take over a night)
+  stored: { samples: number; events: number; oximetry: number; aggregates: number };
+  createdAt: string;
+  undoneAt: string | null;
+}
+
+interface ImportRow {
+  id: number;
+  file_name: string | null;
+  file_hash: string | null;
+  file_size: number | null;
+  source_format: ImportFormat;
+  time_zone: string | null;
+  rows_new: number | null;
+  rows_duplicated: number | null;
+  rows_updated: number | null;
+  samples_imported: number | null;
+  events_imported: number | null;
+  oximetry_imported: number | null;
+  nights_imported: number | null;
+  date_start: string | null;
+  date_end: string | null;
+  errors: string | null;
+  stored_samples: number;
+  stored_events: number;
+  stored_oximetry: number;
+  stored_aggregates: number;
+  created_at: string;
+  undone_at: string | null;
+}
+
+const SELECT_IMPORTS = `
+  SELECT imports.*,
+    (SELECT COUNT(*) FROM cpap_samples WHERE import_id = imports.id) AS stored_samples,
+    (SELECT COUNT(*) FROM cpap_events WHERE import_id = imports.id) AS stored_events,
+    (SELECT COUNT(*) FROM oximetry_samples WHERE import_id = imports.id) AS stored_oximetry,
+    (SELECT COUNT(*) FROM nightly_aggregates WHERE import_id = imports.id AND device_id IS NULL) AS stored_aggregates
+  FROM imports
+`;
+
+// Most recent first
+export function listImports(userId: number, limit = 50): ImportRecord[] {
+  const rows = getDatabase().prepare(`
+    ${SELECT_IMPORTS} WHERE user_id = ? AND completed_at IS NOT NULL ORDER BY id DESC LIMIT ?
+  `).all(userId, limit) as ImportRow[];
+  return rows.map(toRecord);
+}
+
+export function getImport(userId: number, id: number): ImportRecord | null {
+  const row = getDatabase().prepare(`
+    ${SELECT_IMPORTS} WHERE id = ? AND user_id = ? AND completed_at IS NOT NULL
+  `).get(id, userId) as ImportRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+function toRecord(row: ImportRow): ImportRecord {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    fileHash: row.file_hash,
+    fileSize: row.file_size,
+    sourceFormat: row.source_format,
+    timeZone: row.time_zone,
+    rowsNew: row.rows_new ?? 0,
+    rowsDuplicated: row.rows_duplicated ?? 0,
+    rowsUpdated: row.rows_updated ?? 0,
+    samplesImported: row.samples_imported ?? 0,
+    eventsImported: row.events_imported ?? 0,
+    oximetryImported: row.oximetry_imported ?? 0,
+    nightsImported: row.nights_imported ?? 0,
+    dateRange: row.date_start && row.date_end ? { start: row.date_start, end: row.date_end } : null,
+    errors: row.errors ? JSON.parse(row.errors) : [],
+    stored: {
+      samples: row.stored_samples,
+      events: row.stored_events,
+      oximetry: row.stored_oximetry,
+      aggregates: row.stored_aggregates
+    },
+    createdAt: row.created_at,
+    undoneAt: row.undone_at
+  };
+}
@@ -0,0 +1,258 @@
+import { getDatabase } from '@/lib/db';
+import { v4 as uuidv4 } from 'uuid';
+import type { ImportOptions, ImportProgress, IngestResult } from './ingest';
+
+// Uploads run as background jobs: the request returns a job id straight away
+// and the import reports progress until it completes, fails or is cancelled.
+//
+// Jobs run one at a time: an import commits batch by batch and is undone if
+// it fails, so two imports of overlapping nights must not interleave. Job rows
+// live in the separate jobs database (see lib/db), which the import's writes
+// don't lock, so a job can be queued, cancelled and have its progress saved
+// while another import runs. Live state is kept
+// here in memory and saved when the job is queued, starts and finishes, and
+// at most every few seconds in between.
+
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  fileSize: number | null;
+  status: ImportJobStatus;
+  progress: ImportProgress;
+  errors: string[];
+  result: IngestResult | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+interface ImportJobRow {
+  id: string;
+  file_name: string;
+  file_size: number | null;
+  status: ImportJobStatus;
+  progress: string | null;
+  errors: string | null;
+  result: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+type ImportJobListener = (job: ImportJob) => void;
+
+interface ActiveJob {
+  userId: number;
+  job: ImportJob;
+  controller: AbortController;
+  listeners: Set<ImportJobListener>;
+  cleanup?: () => void;
+}
+
+// Progress reports come with every batch; the row is updated less often
+const PROGRESS_SAVE_INTERVAL_MS = 2000;
+
+const activeJobs = new Map<string, ActiveJob>();
+let queue: Promise<void> = Promise.resolve();
+
+// Queued or running jobs, of any profile
+export function hasActiveImportJobs(): boolean {
+  return activeJobs.size > 0;
+}
+
+export function isFinished(job: ImportJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+// Queue an import. `run` receives the signal and progress callback to pass to
+// the ingest function; its result's errors become the job's errors. `cleanup`
+// runs once the job has finished, including when it is cancelled before it
+// starts (e.g. to delete the uploaded file).
+export function createImportJob(
+  userId: number,
+  fileName: string,
+  fileSize: number | null,
+  run: (control: ImportOptions) => Promise<IngestResult>,
+  cleanup?: () => void
+): ImportJob {
+  const now = timestamp();
+  const job: ImportJob = {
+    id: uuidv4(),
+    fileName,
+    fileSize,
+    status: 'queued',
+    progress: emptyProgress(),
+    errors: [],
+    result: null,
+    createdAt: now,
+    updatedAt: now,
+    finishedAt: null
+  };
+
+  getDatabase().prepare(`
+    INSERT INTO jobs.import_jobs (id, user_id, file_name, file_size, status, progress, errors, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(job.id, userId, fileName, fileSize, job.status, JSON.stringify(job.progress), '[]', now, now);
+
+  const active: ActiveJob = { userId, job, controller: new AbortController(), listeners: new Set(), cleanup };
+  activeJobs.set(job.id, active);
+
+  queue = queue
+    .then(() => runJob(active, run))
+    .catch(error => console.error('Import job error:', error));
+  return { ...job };
+}
+
+// Jobs are only visible to the profile that queued them
+export function getImportJob(userId: number, id: string): ImportJob | null {
+  const active = findActiveJob(userId, id);
+  if (active) return { ...active.job };
+
+  const row = getDatabase().prepare(`
+    SELECT * FROM jobs.import_jobs WHERE id = ? AND user_id = ?
+  `).get(id, userId) as ImportJobRow | undefined;
+  if (!row) return null;
+
+  const job = toJob(row);
+  // Stored as unfinished but not running here: the server stopped mid-import,
+  // and what the import had saved is removed before the next one starts
+  if (!isFinished(job)) {
+    job.status = 'failed';
+    job.errors = [...job.errors, 'Import was interrupted by a server restart; what it saved is removed by the next import'];
+    job.finishedAt = timestamp();
+    saveJob(job);
+  }
+  return job;
+}
+
+// Ask a queued or running job to stop; what the import had saved is removed.
+// Returns null for unknown jobs and the unchanged job if it already finished.
+export function cancelImportJob(userId: number, id: string): ImportJob | null {
+  const active = findActiveJob(userId, id);
+  if (!active) return getImportJob(userId, id);
+
+  active.controller.abort();
+  if (active.job.status === 'queued') {
+    finishJob(active, 'cancelled', null);
+  }
+  return { ...active.job };
+}
+
+// Call `listener` with every change to a queued or running job. Returns an
+// unsubscribe function; finished jobs have nothing to report.
+export function subscribeImportJob(userId: number, id: string, listener: ImportJobListener): () => void {
+  const active = findActiveJob(userId, id);
+  if (!active) return () => {};
+
+  active.listeners.add(listener);
+  return () => active.listeners.delete(listener);
+}
+
+function findActiveJob(userId: number, id: string): ActiveJob | undefined {
+  const active = activeJobs.get(id);
+  return active?.userId === userId ? active : undefined;
+}
+
+async function runJob(active: ActiveJob, run: (control: ImportOptions) => Promise<IngestResult>) {
+  const { job, controller } = active;
+  if (isFinished(job)) return;
+
+  job.status = 'running';
+  job.updatedAt = timestamp();
+  saveJob(job);
+  notify(active);
+
+  let savedAt = Date.now();
+  try {
+    const result = await run({
+      signal: controller.signal,
+      onProgress: (progress, errors) => {
+        job.progress = progress;
+        job.errors = [...errors];
+        job.updatedAt = timestamp();
+        if (Date.now() - savedAt >= PROGRESS_SAVE_INTERVAL_MS) {
+          saveJob(job);
+          savedAt = Date.now();
+        }
+        notify(active);
+      }
+    });
+
+    if (controller.signal.aborted) {
+      finishJob(active, 'cancelled', null);
+    } else {
+      const failed = result.errors.length > 0 &&
+        result.samplesImported + result.eventsImported + result.oximetryImported + result.nightsImported === 0;
+      job.errors = result.errors;
+      finishJob(active, failed ? 'failed' : 'completed', result);
+    }
+  } catch (error) {
+    job.errors = [...job.errors, `Import failed: ${error}`];
+    finishJob(active, controller.signal.aborted ? 'cancelled' : 'failed', null);
+  }
+}
+
+function finishJob(active: ActiveJob, status: ImportJobStatus, result: IngestResult | null) {
+  const { job } = active;
+  job.status = status;
+  job.result = result;
+  job.updatedAt = job.finishedAt = timestamp();
+  saveJob(job);
+  notify(active);
+
+  active.listeners.clear();
+  activeJobs.delete(job.id);
+
+  try {
+    active.cleanup?.();
+  } catch (error) {
+    console.error('Import job cleanup failed:', error);
+  }
+}
+
+function notify(active: ActiveJob) {
+  for (const listener of active.listeners) {
+    listener({ ...active.job });
+  }
+}
+
+function saveJob(job: ImportJob) {
+  getDatabase().prepare(`
+    UPDATE jobs.import_jobs
+    SET status = ?, progress = ?, errors = ?, result = ?, updated_at = ?, finished_at = ?
+    WHERE id = ?
+  `).run(
+    job.status,
+    JSON.stringify(job.progress),
+    JSON.stringify(job.errors),
+    job.result ? JSON.stringify(job.result) : null,
+    job.updatedAt,
+    job.finishedAt,
+    job.id
+  );
+}
+
+function toJob(row: ImportJobRow): ImportJob {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    fileSize: row.file_size,
+    status: row.status,
+    progress: row.progress ? JSON.parse(row.progress) : emptyProgress(),
+    errors: row.errors ? JSON.parse(row.errors) : [],
+    result: row.result ? JSON.parse(row.result) : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at
+  };
+}
+
+function emptyProgress(): ImportProgress {
+  return { phase: 'parsing', rowsParsed: 0, parsedFraction: null, nightsTotal: 0, nightsComputed: 0 };
+}
+
+function timestamp(): string {
+  return new Date().toISOString();
+}
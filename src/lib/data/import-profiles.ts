@@ -0,0 +1,101 @@
+import { getDatabase } from '@/lib/db';
+import { normalizeHeader, ColumnMapping, ColumnUnits } from './csv-formats';
+
+// Named column mappings for CSV layouts we don't recognise out of the box,
+// saved per profile
+
+export interface ImportProfile {
+  id: number;
+  name: string;
+  headerSignature: string;
+  mapping: ColumnMapping;
+  units: ColumnUnits;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ImportProfileRow {
+  id: number;
+  name: string;
+  header_signature: string;
+  mapping: string;
+  units: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Files from the same device or app share a header row
+export function headerSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).join('|');
+}
+
+export function listImportProfiles(userId: number): ImportProfile[] {
+  const rows = getDatabase().prepare(`
+    SELECT * FROM import_profiles WHERE user_id = ? ORDER BY name
+  `).all(userId) as ImportProfileRow[];
+  return rows.map(toProfile);
+}
+
+export function getImportProfile(userId: number, id: number): ImportProfile | null {
+  const row = getDatabase().prepare(`
+    SELECT * FROM import_profiles WHERE id = ? AND user_id = ?
+  `).get(id, userId) as ImportProfileRow | undefined;
+  return row ? toProfile(row) : null;
+}
+
+// Most recently saved profile for this header row, if any
+export function findImportProfile(userId: number, headers: string[]): ImportProfile | null {
+  const row = getDatabase().prepare(`
+    SELECT * FROM import_profiles WHERE user_id = ? AND header_signature = ?
+    ORDER BY updated_at DESC, id DESC LIMIT 1
+  `).get(userId, headerSignature(headers)) as ImportProfileRow | undefined;
+  return row ? toProfile(row) : null;
+}
+
+// Create a profile, or overwrite the one with the same name
+export function saveImportProfile(
+  userId: number,
+  name: string,
+  headers: string[],
+  mapping: ColumnMapping,
+  units: ColumnUnits
+): ImportProfile {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Profile name is required');
+  }
+
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO import_profiles (user_id, name, header_signature, mapping, units)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(user_id, name) DO UPDATE SET
+      header_signature = excluded.header_signature,
+      mapping = excluded.mapping,
+      units = excluded.units,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(userId, trimmed, headerSignature(headers), JSON.stringify(mapping), JSON.stringify(units));
+
+  const row = db.prepare(`
+    SELECT * FROM import_profiles WHERE user_id = ? AND name = ?
+  `).get(userId, trimmed) as ImportProfileRow;
+  return toProfile(row);
+}
+
+export function deleteImportProfile(userId: number, id: number): boolean {
+  return getDatabase().prepare(`
+    DELETE FROM import_profiles WHERE id = ? AND user_id = ?
+  `).run(id, userId).changes > 0;
+}
+
+function toProfile(row: ImportProfileRow): ImportProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    headerSignature: row.header_signature,
+    mapping: JSON.parse(row.mapping),
+    units: JSON.parse(row.units),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
@@ -1,7 +1,31 @@
-import { getDatabase } from '@/lib/db';
+import Database from 'better-sqlite3-multiple-ciphers';
+import { openDatabase } from '@/lib/db';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 import path from 'path';
+import { readCSVRecords } from './csv';
+import { readEDF, findSignal, sampleInterval, offsetTimestamp, EDFFile, EDFSignal } from './edf';
+import { findEntry, listFiles } from './archive';
+import {
+  segmentSessions, sleepDayOf, sleepDayBounds, detectSamplingInterval, sampleDurations, SessionOptions
+} from './sessions';
+import { formatNaive, addDays } from './time';
+import {
+  parseViatomFile, isViatomFileName, calculateOximetryMetrics, validSpO2, validPulseRate, OximetrySample
+} from './oximetry';
+import { normalizeEventType, EventSource, EventType, APNEA_TYPES, AHI_TYPES } from './events';
+import { chunkWaveform, WaveformChannel, WaveformSignal } from './waveforms';
+import type { SettingValues, SettingsSource, TherapyMode } from './therapy-settings';
+import type { DeviceIdentity } from './devices';
+import { getSettings, updateSettings, applySettingChanges, AppSettings } from '@/lib/db/settings';
+import {
+  detectCSVLayout, mapSummaryRow, mapDetailRow, mapOximetryRow, mapSettingsRow, hasSettingsColumns,
+  suggestColumnMapping, detectColumnUnits, applyColumnMapping, CSVLayout, ColumnMapping, ColumnUnits, SummaryRow
+} from './csv-formats';
+import {
+  readPRS1Chunks, decodeEventChunk, decodeSummaryChunk, decodeWaveformChunk,
+  PRS1Event, PRS1Statistic, PRS1Summary, PRS1Waveform
+} from './prs1';
 
 // Simplified CPAP CSV format
 export interface CPAPCSVRow {
@@ -13,257 +37,2212 @@ export interface CPAPCSVRow {
   event_type?: string;
   event_duration?: number;
   event_severity?: number;
+  // Canonical event type, on events read back from cpap_events
+  normalized_type?: EventType | null;
+  // Machine that recorded the row, on rows read back from the database
+  device_id?: number | null;
+}
+
+export interface ImportProgress {
+  phase: 'parsing' | 'computing';
+  rowsParsed: number;
+  // Share of the input read so far (0-1); null when it can't be known up front
+  parsedFraction: number | null;
+  nightsTotal: number;
+  nightsComputed: number;
+}
+
+// Uploaded file an import came from, recorded in the imports ledger
+export interface ImportFile {
+  name: string;
+  size: number;
+  hash: string; // SHA-256, hex
+}
+
+export interface ImportOptions extends SessionOptions {
+  file?: ImportFile;
+  // Aborting removes everything the import has written
+  signal?: AbortSignal;
+  onProgress?: (progress: ImportProgress, errors: readonly string[]) => void;
+}
+
+export type ImportFormat = CSVLayout | 'resmed' | 'prs1' | 'viatom';
+
+export interface CSVImportOptions extends ImportOptions {
+  // User-confirmed column mapping; bypasses layout detection
+  mapping?: ColumnMapping;
+  units?: ColumnUnits;
+}
+
+export interface CSVPreview {
+  headers: string[];
+  sampleRows: string[][];
+  layout: CSVLayout | null;
+  suggestedMapping: ColumnMapping;
+  suggestedUnits: ColumnUnits;
 }
 
 export interface IngestResult {
   nightsImported: number;
   samplesImported: number;
   eventsImported: number;
+  oximetryImported: number;
+  // Samples and events inserted, already stored unchanged, or merged into a stored row
+  rowsNew: number;
+  rowsDuplicated: number;
+  rowsUpdated: number;
   errors: string[];
   dateRange: { start: string; end: string } | null;
+  // Row in the imports ledger; null for recalculations and failed imports
+  importId: number | null;
+}
+
+interface SessionData {
+  samples: CPAPCSVRow[];
+  events: CPAPCSVRow[];
+  oximetry?: OximetrySample[];
+  // Read when the session is written: a night of 25 Hz signals is tens of MB
+  waveforms?: () => WaveformSignal[];
+  // Machine settings the session ran with
+  settings?: SettingValues;
+  // Machine that recorded the session, when the card identifies it
+  device?: DeviceIdentity;
+}
+
+// One row of nightly_aggregates (session_id and device_id are supplied when writing)
+interface NightlyAggregate {
+  date: string;
+  total_usage_minutes: number;
+  mask_on_minutes: number;
+  median_pressure: number | null;
+  min_pressure: number | null;
+  max_pressure: number | null;
+  pressure_95th_percentile: number | null;
+  median_leak_rate: number | null;
+  max_leak_rate: number | null;
+  leak_95th_percentile: number | null;
+  large_leak_minutes: number | null;
+  large_leak_percent: number | null;
+  ahi: number | null;
+  apnea_count: number | null;
+  hypopnea_count: number | null;
+  total_events: number | null;
+  oai: number | null;
+  cai: number | null;
+  hi: number | null;
+  rera_index: number | null;
+  csr_minutes: number | null;
+  median_flow_limitation: number | null;
+  max_flow_limitation: number | null;
+  sleep_quality_score: number;
 }
 
-export async function ingestCPAPCSV(filePath: string): Promise<IngestResult> {
-  const db = getDatabase();
-  const result: IngestResult = {
+// Rows returned by previewCSV for the column-mapping step
+const PREVIEW_ROWS = 10;
+// Rows are inserted in batches of this size (each batch is a savepoint)
+const BATCH_SIZE = 1000;
+// Cap per-row error messages so a malformed file can't grow the result unbounded
+const MAX_ROW_ERRORS = 50;
+
+// Read the header and first few rows so the user can confirm a column mapping
+export async function previewCSV(filePath: string): Promise<CSVPreview> {
+  let headers: string[] = [];
+  const sampleRows: string[][] = [];
+
+  for await (const { values } of readCSVRecords(filePath)) {
+    if (headers.length === 0) {
+      headers = values.map(h => h.trim());
+      continue;
+    }
+    sampleRows.push(values);
+    if (sampleRows.length >= PREVIEW_ROWS) break;
+  }
+
+  const suggestedMapping = suggestColumnMapping(headers);
+
+  return {
+    headers,
+    sampleRows,
+    layout: headers.length > 0 ? detectCSVLayout(headers) : null,
+    suggestedMapping,
+    suggestedUnits: detectColumnUnits(headers, sampleRows, suggestedMapping)
+  };
+}
+
+export async function ingestCPAPCSV(
+  userId: number,
+  filePath: string,
+  options: CSVImportOptions = {}
+): Promise<IngestResult> {
+  const result = emptyResult();
+  let rowErrors = 0;
+  const rowError = (line: number, message: string) => {
+    if (++rowErrors <= MAX_ROW_ERRORS) result.errors.push(`Line ${line}: ${message}`);
+  };
+  // Map a row, reporting it when it is incomplete or its time can't be stored
+  // (see normalizeTimestamp)
+  const mapRow = <T>(line: number, missing: string, map: () => T | null): T | null => {
+    try {
+      const mapped = map();
+      if (!mapped) rowError(line, missing);
+      return mapped;
+    } catch (error) {
+      rowError(line, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  };
+
+  const records = readCSVRecords(filePath);
+  try {
+    const first = await records.next();
+    const headers = first.done ? [] : first.value.values.map(h => h.trim());
+    const layout = options.mapping ? 'simplified' : detectCSVLayout(headers);
+    const mapping = options.mapping ?? suggestColumnMapping(headers);
+
+    if (headers.length === 0) {
+      result.errors.push('CSV file is empty or invalid');
+      return result;
+    }
+
+    if (!layout) {
+      result.errors.push(`Unrecognised CSV layout (headers: ${headers.join(', ')})`);
+      return result;
+    }
+
+    if (layout === 'simplified' && (!mapping.timestamp || !headers.includes(mapping.timestamp))) {
+      result.errors.push('Column mapping must include a timestamp column present in the file');
+      return result;
+    }
+
+    const source = importSource(userId, layout, options);
+    const fileSize = fs.statSync(filePath).size;
+    const hasSettings = hasSettingsColumns(headers);
+    let rowsParsed = 0;
+
+    await runImport(result, source, options, async writer => {
+      // OSCAR Sessions rows are combined per day once the whole file has been read
+      const sessionRows = new Map<string, SummaryRow[]>();
+
+      let batch: CPAPCSVRow[] = [];
+      let oximetryBatch: OximetrySample[] = [];
+      let bytesRead = 0;
+      const flush = async () => {
+        writer.writeRows(batch);
+        writer.writeOximetry(oximetryBatch);
+        batch = [];
+        oximetryBatch = [];
+        await writer.checkpoint({ rowsParsed, parsedFraction: fileSize > 0 ? bytesRead / fileSize : null });
+      };
+
+      for await (const record of records) {
+        const { line, values } = record;
+        bytesRead = record.bytesRead;
+        rowsParsed++;
+
+        if (values.length !== headers.length) {
+          rowError(line, `expected ${headers.length} columns, found ${values.length}`);
+          continue;
+        }
+
+        switch (layout) {
+          case 'simplified': {
+            const row = mapRow(line, 'missing or invalid timestamp', () =>
+              applyColumnMapping(headers, values, mapping, options.units, source.timeZone));
+            if (!row) continue;
+            batch.push(row);
+            const settings = hasSettings ? mapSettingsRow(headers, values) : null;
+            if (settings) writer.addSettings(sleepDayOf(row.timestamp, source.sleepDayStartHour), settings);
+            break;
+          }
+          case 'oximetry': {
+            const reading = mapRow(line, 'missing or invalid time', () =>
+              mapOximetryRow(headers, values, source.timeZone));
+            if (!reading) continue;
+            oximetryBatch.push(reading);
+            break;
+          }
+          case 'oscar-details': {
+            const detail = mapRow(line, 'missing or invalid DateTime or Event', () =>
+              mapDetailRow(headers, values, source.timeZone));
+            if (!detail) continue;
+            batch.push({
+              timestamp: detail.timestamp,
+              event_type: detail.eventType,
+              event_duration: detail.duration ?? undefined
+            });
+            break;
+          }
+          case 'oscar-sessions': {
+            const summary = mapSummaryRow(headers, values);
+            if (!summary || !summary.usageMinutes) {
+              rowError(line, 'missing date or usage');
+              continue;
+            }
+            sessionRows.set(summary.date, [...(sessionRows.get(summary.date) || []), summary]);
+            const settings = hasSettings ? mapSettingsRow(headers, values) : null;
+            if (settings) writer.addSettings(summary.date, settings);
+            break;
+          }
+          case 'oscar-summary':
+          case 'sleephq': {
+            const summary = mapSummaryRow(headers, values);
+            const aggregate = summary && summaryToAggregate(summary);
+            if (!aggregate) {
+              rowError(line, 'missing date or usage');
+              continue;
+            }
+            writer.addSummary(aggregate);
+            const settings = hasSettings ? mapSettingsRow(headers, values) : null;
+            if (settings) writer.addSettings(aggregate.date, settings);
+            break;
+          }
+        }
+
+        if (batch.length + oximetryBatch.length >= BATCH_SIZE) await flush();
+      }
+
+      await flush();
+
+      for (const [date, rows] of sessionRows) {
+        const aggregate = combineSessionSummaries(date, rows);
+        if (aggregate) writer.addSummary(aggregate);
+      }
+
+      if (rowErrors > MAX_ROW_ERRORS) {
+        result.errors.push(`...and ${rowErrors - MAX_ROW_ERRORS} more row error(s)`);
+      }
+    });
+
+    if (result.samplesImported + result.eventsImported + result.oximetryImported + result.nightsImported === 0) {
+      result.errors.push('CSV file is empty or invalid');
+    }
+
+  } catch (error) {
+    result.errors.push(`Failed to process file: ${error}`);
+  } finally {
+    // Closes the file when the header was rejected before the rows were read
+    await records.return(undefined);
+  }
+
+  return result;
+}
+
+
+// Zipped SD card: pick the importer from the folder layout. A zip with no
+// CPAP card layout may hold oximeter recordings copied from the ViHealth app.
+export async function ingestSDCard(userId: number, rootDir: string, options: ImportOptions = {}): Promise<IngestResult> {
+  if (findEntry(rootDir, 'P-Series')) {
+    return ingestPRS1Card(userId, rootDir, options);
+  }
+  if (!findEntry(rootDir, 'DATALOG') && !findEntry(rootDir, 'STR.edf')) {
+    const recordings = listFiles(rootDir, isViatomFileName);
+    if (recordings.length > 0) return ingestViatomFiles(userId, recordings, options);
+  }
+  return ingestResMedSDCard(userId, rootDir, options);
+}
+
+// Wellue/Viatom binary recordings, one file per night
+export async function ingestViatomFiles(
+  userId: number,
+  filePaths: string[],
+  options: ImportOptions = {}
+): Promise<IngestResult> {
+  const result = emptyResult();
+
+  try {
+    const recordings: SessionData[] = [];
+    for (const filePath of filePaths) {
+      try {
+        recordings.push({ samples: [], events: [], oximetry: parseViatomFile(fs.readFileSync(filePath)) });
+      } catch (error) {
+        result.errors.push(`${path.basename(filePath)}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (recordings.length === 0) {
+      result.errors.push('No readable oximetry recordings found');
+      return result;
+    }
+
+    await runImport(
+      result,
+      importSource(userId, 'viatom', options),
+      options,
+      async writer => writer.writeSessions(recordings)
+    );
+
+  } catch (error) {
+    result.errors.push(`Failed to process oximetry recordings: ${error}`);
+  }
+
+  return result;
+}
+
+// ResMed AirSense 10/11 SD card: STR.edf plus DATALOG/<YYYYMMDD>/*.edf
+export async function ingestResMedSDCard(
+  userId: number,
+  rootDir: string,
+  options: ImportOptions = {}
+): Promise<IngestResult> {
+  const result = emptyResult();
+
+  try {
+    const datalogDir = findEntry(rootDir, 'DATALOG');
+    const strPath = findEntry(rootDir, 'STR.edf');
+
+    if (!datalogDir && !strPath) {
+      result.errors.push('No DATALOG folder or STR.edf found in archive');
+      return result;
+    }
+
+    const sessions: Map<string, SessionData> = datalogDir ?
+      readResMedDatalog(datalogDir, result.errors) : new Map();
+    const { summaries, settings, serial } = strPath ?
+      readResMedSummary(strPath, result.errors) :
+      { summaries: [], settings: new Map<string, SettingValues>(), serial: null };
+    const device = readResMedIdentity(rootDir, serial);
+    if (!device) {
+      result.errors.push('Could not find the machine serial number; nights are not attributed to a device');
+    }
+
+    await runImport(result, importSource(userId, 'resmed', options), options, async writer => {
+      await writer.writeSessions([...sessions.values()].map(session => ({ ...session, device })));
+      summaries.forEach(summary => writer.addSummary(summary, device));
+      settings.forEach((values, date) => writer.addSettings(date, values));
+    });
+
+  } catch (error) {
+    result.errors.push(`Failed to process SD card: ${error}`);
+  }
+
+  return result;
+}
+
+// Philips DreamStation / System One card: P-Series/<serial>/p<N>/<session>.00X
+export async function ingestPRS1Card(
+  userId: number,
+  rootDir: string,
+  options: ImportOptions = {}
+): Promise<IngestResult> {
+  const result = emptyResult();
+
+  try {
+    const pseriesDir = findEntry(rootDir, 'P-Series');
+    if (!pseriesDir) {
+      result.errors.push('No P-Series folder found in archive');
+      return result;
+    }
+
+    const sessions = readPRS1Sessions(pseriesDir, result.errors);
+    await runImport(
+      result,
+      importSource(userId, 'prs1', options),
+      options,
+      async writer => writer.writeSessions([...sessions.values()])
+    );
+
+  } catch (error) {
+    result.errors.push(`Failed to process P-Series card: ${error}`);
+  }
+
+  return result;
+}
+
+// Save a profile's settings and rebuild its sessions and nightly aggregates
+// from its stored samples and events with them, in one transaction: if the
+// rebuild fails (and throws) the settings are left as they were
+export async function updateSettingsAndRecalculate(
+  userId: number,
+  changes: Partial<AppSettings>
+): Promise<IngestResult> {
+  const result = emptyResult();
+  const settings = applySettingChanges(getSettings(userId), changes);
+
+  await runImport(result, importSource(userId, null, {}, settings), {}, async writer => {
+    writer.saveSettings(changes);
+    writer.recalculateAll();
+  });
+
+  return result;
+}
+
+// Rebuild a profile's sessions and nightly aggregates for the sleep days from
+// first to last (timestamps), e.g. after rows were merged in from a backup.
+// Throws if the rebuild fails.
+export async function recalculateRange(userId: number, first: string, last: string): Promise<IngestResult> {
+  const result = emptyResult();
+  await runImport(result, importSource(userId, null, {}), {}, async writer => writer.recalculateRange(first, last));
+  return result;
+}
+
+// Delete the samples, events and summary nights an import added, then
+// recompute the nights it touched from what is left
+export async function undoImport(userId: number, importId: number): Promise<IngestResult> {
+  const result = emptyResult();
+
+  try {
+    await runImport(result, importSource(userId, null, {}), {}, async writer => writer.removeImport(importId));
+  } catch (error) {
+    result.errors.push(`Failed to undo import: ${error}`);
+  }
+
+  return result;
+}
+
+function emptyResult(): IngestResult {
+  return {
     nightsImported: 0,
     samplesImported: 0,
     eventsImported: 0,
+    oximetryImported: 0,
+    rowsNew: 0,
+    rowsDuplicated: 0,
+    rowsUpdated: 0,
     errors: [],
-    dateRange: null
+    dateRange: null,
+    importId: null
   };
+}
+
+type ImportWriter = ReturnType<typeof createImportWriter>;
+
+interface ImportSource {
+  // Profile the data belongs to
+  userId: number;
+  // Imports without a format (recalculations, undo) get no ledger row
+  format: ImportFormat | null;
+  device: string | null;
+  // Event names are normalized with this source's aliases first
+  eventSource: EventSource | null;
+  timeZone: string;
+  // Zone given with the upload, stored with its import
+  uploadTimeZone: string | null;
+  sessionGapMinutes: number;
+  sleepDayStartHour: number;
+}
+
+const FORMAT_DEVICES: Partial<Record<ImportFormat, string>> = {
+  resmed: 'ResMed AirSense',
+  prs1: 'Philips DreamStation'
+};
+
+const FORMAT_EVENT_SOURCES: Partial<Record<ImportFormat, EventSource>> = {
+  resmed: 'resmed',
+  prs1: 'prs1',
+  'oscar-details': 'oscar'
+};
+
+// Stored settings, with per-upload overrides (e.g. a file exported while travelling)
+function importSource(
+  userId: number,
+  format: ImportFormat | null,
+  options: SessionOptions,
+  settings: AppSettings = getSettings(userId)
+): ImportSource {
+  return {
+    userId,
+    format,
+    device: format ? FORMAT_DEVICES[format] ?? null : null,
+    eventSource: format ? FORMAT_EVENT_SOURCES[format] ?? null : null,
+    timeZone: options.timeZone ?? settings.timezone,
+    uploadTimeZone: options.timeZone ?? null,
+    sessionGapMinutes: options.sessionGapMinutes ?? settings.sessionGapMinutes,
+    sleepDayStartHour: settings.sleepDayStartHour
+  };
+}
+
+// Run an import on a dedicated connection. An upload (a run with a ledger
+// row) commits batch by batch, so the write lock is only held while a batch is
+// written and other requests can write between batches; a failure or
+// cancellation undoes what it had committed, like undoing the import.
+// Recalculations and undos run in one transaction without pausing, so nothing
+// else runs while they hold the lock and a failure leaves nothing changed.
+async function runImport(
+  result: IngestResult,
+  source: ImportSource,
+  control: ImportOptions,
+  work: (writer: ImportWriter) => Promise<void>
+) {
+  const db = openDatabase();
+  let importId: number | null = null;
 
   try {
-    // Read and parse CSV
-    const csvContent = fs.readFileSync(filePath, 'utf-8');
-    const rows = parseCSV(csvContent);
-    
-    if (rows.length === 0) {
-      result.errors.push('CSV file is empty or invalid');
-      return result;
+    if (source.format) {
+      await discardInterruptedImports(db);
+      importId = openImportRecord(db, result, source, control.file);
+      runningImports.add(importId);
+    } else {
+      db.exec('BEGIN IMMEDIATE');
     }
+    const writer = createImportWriter(db, result, source, control, importId);
+    await work(writer);
+    await writer.finish();
+    if (importId !== null) {
+      closeImportRecord(db, importId, result);
+    } else {
+      db.exec('COMMIT');
+    }
+  } catch (error) {
+    if (db.inTransaction) db.exec('ROLLBACK');
+    if (importId !== null) {
+      try {
+        await discardImport(db, source.userId, importId);
+      } catch (discardError) {
+        // Left for the next import to remove (see discardInterruptedImports)
+        console.error(`Failed to remove import ${importId}:`, discardError);
+      }
+    }
+    result.nightsImported = 0;
+    result.samplesImported = 0;
+    result.eventsImported = 0;
+    result.oximetryImported = 0;
+    result.rowsNew = 0;
+    result.rowsDuplicated = 0;
+    result.rowsUpdated = 0;
+    result.dateRange = null;
+    result.importId = null;
+    throw error;
+  } finally {
+    if (importId !== null) runningImports.delete(importId);
+    db.close();
+  }
+}
 
-    // Group data by session
-    const sessions = groupBySession(rows);
-    
-    // Process each session
-    const dates = new Set<string>();
-    const insertSample = db.prepare(`
-      INSERT INTO cpap_samples (timestamp, leak_rate, pressure, flow_limitation, mask_on, session_id)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
+// Ledger rows of the imports running in this process
+const runningImports = new Set<number>();
+
+// Remove a failed or cancelled import: delete what it wrote, recalculate the
+// nights it touched, then its ledger row, all in one transaction
+async function discardImport(db: Database.Database, userId: number, importId: number) {
+  db.exec('BEGIN IMMEDIATE');
+  try {
+    const writer = createImportWriter(db, emptyResult(), importSource(userId, null, {}), {}, null);
+    writer.removeImport(importId);
+    await writer.finish();
+    db.prepare(`DELETE FROM imports WHERE id = ?`).run(importId);
+    db.exec('COMMIT');
+  } catch (error) {
+    if (db.inTransaction) db.exec('ROLLBACK');
+    throw error;
+  }
+}
+
+// Imports left unfinished by a server that stopped mid-import, of any profile
+async function discardInterruptedImports(db: Database.Database) {
+  const interrupted = db.prepare(`
+    SELECT id, user_id FROM imports WHERE completed_at IS NULL
+  `).all() as Array<{ id: number; user_id: number }>;
+  for (const { id, user_id } of interrupted) {
+    if (!runningImports.has(id)) await discardImport(db, user_id, id);
+  }
+}
+
+// Start an import's ledger row, warning if the same file was imported before
+function openImportRecord(
+  db: Database.Database,
+  result: IngestResult,
+  source: ImportSource,
+  file?: ImportFile
+): number {
+  if (file) {
+    const previous = db.prepare(`
+      SELECT created_at FROM imports
+      WHERE user_id = ? AND file_hash = ? AND completed_at IS NOT NULL AND undone_at IS NULL
+      ORDER BY id DESC LIMIT 1
+    `).get(source.userId, file.hash) as { created_at: string } | undefined;
+    if (previous) {
+      result.errors.push(`This file was already imported on ${previous.created_at} UTC; stored rows were skipped`);
+    }
+  }
+
+  const { lastInsertRowid } = db.prepare(`
+    INSERT INTO imports (user_id, file_name, file_hash, file_size, source_format, time_zone)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    source.userId, file?.name ?? null, file?.hash ?? null, file?.size ?? null, source.format, source.uploadTimeZone
+  );
+
+  result.importId = Number(lastInsertRowid);
+  return result.importId;
+}
+
+function closeImportRecord(db: Database.Database, importId: number, result: IngestResult) {
+  db.prepare(`
+    UPDATE imports SET
+      rows_new = ?, rows_duplicated = ?, rows_updated = ?,
+      samples_imported = ?, events_imported = ?, oximetry_imported = ?, nights_imported = ?,
+      date_start = ?, date_end = ?, errors = ?, completed_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(
+    result.rowsNew,
+    result.rowsDuplicated,
+    result.rowsUpdated,
+    result.samplesImported,
+    result.eventsImported,
+    result.oximetryImported,
+    result.nightsImported,
+    result.dateRange?.start ?? null,
+    result.dateRange?.end ?? null,
+    JSON.stringify(result.errors),
+    importId
+  );
+}
+
+// Stored rows as read back for de-duplication
+interface StoredSample {
+  id: number;
+  leak_rate: number | null;
+  pressure: number | null;
+  flow_limitation: number | null;
+  mask_on: number | null;
+  device_id: number | null;
+  import_id: number | null;
+}
+
+interface StoredEvent {
+  id: number;
+  duration_seconds: number | null;
+  severity: number | null;
+  normalized_type: EventType | null;
+  device_id: number | null;
+  import_id: number | null;
+}
+
+interface StoredOximetry {
+  id: number;
+  spo2: number | null;
+  pulse_rate: number | null;
+  import_id: number | null;
+}
+
+// Tables whose rows can be supplied by more than one import (see
+// import_shared_rows in lib/db/migrations)
+const SHARED_ROW_TABLES = ['cpap_samples', 'cpap_events', 'oximetry_samples', 'waveform_chunks', 'therapy_settings'];
+
+// Insert samples and events in batches, merging rows already stored for the
+// same timestamp, then re-segment every touched sleep day into sessions and
+// recompute it from everything stored for it (so re-imports and overlapping
+// exports don't double count)
+function createImportWriter(
+  db: Database.Database,
+  result: IngestResult,
+  source: ImportSource,
+  control: ImportOptions,
+  importId: number | null
+) {
+  const { userId } = source;
+  const dates = new Set<string>();
+  const nights = new Set<string>();
+  // Nights with oximetry but no CPAP night to attach its metrics to
+  const unmatchedOximetry = new Set<string>();
+  // Machine summaries, with the device that wrote them (null for CSV exports)
+  const summaries: Array<{ aggregate: NightlyAggregate; deviceId: number | null }> = [];
+  // Summary-only nights whose all-devices row is rebuilt from the per-device rows
+  const summaryNights = new Set<string>();
+  // Device ids by manufacturer and serial
+  const deviceIds = new Map<string, number>();
+  // Machine settings by sleep day; a later row for the same day wins
+  const settings = new Map<string, SettingValues>();
+  const settingsSource: SettingsSource = source.format === 'resmed' || source.format === 'prs1' ?
+    source.format : 'csv';
+  const progress: ImportProgress = {
+    phase: 'parsing',
+    rowsParsed: 0,
+    parsedFraction: null,
+    nightsTotal: 0,
+    nightsComputed: 0
+  };
+
+  // Report progress, give other requests (such as a cancel) a chance to run,
+  // and stop here if the import has been cancelled. Runs without a ledger row
+  // hold their transaction throughout (see runImport), so they don't pause.
+  const checkpoint = async (update: Partial<ImportProgress> = {}) => {
+    Object.assign(progress, update);
+    control.onProgress?.({ ...progress }, result.errors);
+    if (importId === null) return;
+    await new Promise(resolve => setImmediate(resolve));
+    if (control.signal?.aborted) {
+      throw new Error('Import cancelled');
+    }
+  };
+
+  const insertSample = db.prepare(`
+    INSERT INTO cpap_samples (user_id, timestamp, leak_rate, pressure, flow_limitation, mask_on, import_id, device_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  
+  const insertEvent = db.prepare(`
+    INSERT INTO cpap_events (
+      user_id, timestamp, event_type, normalized_type, duration_seconds, severity, import_id, device_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  // A row matches a stored one at the same time from the same device. A row
+  // without a device (a CSV) matches the stored row whatever its device, and
+  // a device's row takes over a stored one without a device; rows from two
+  // different devices are kept apart.
+  const findSample = db.prepare(`
+    SELECT id, leak_rate, pressure, flow_limitation, mask_on, device_id, import_id
+    FROM cpap_samples
+    WHERE user_id = ? AND timestamp = ? AND (device_id = ? OR device_id IS NULL OR ? IS NULL)
+    ORDER BY device_id IS ? DESC
+    LIMIT 1
+  `);
+
+  const findEvent = db.prepare(`
+    SELECT id, duration_seconds, severity, normalized_type, device_id, import_id
+    FROM cpap_events
+    WHERE user_id = ? AND timestamp = ? AND event_type = ? AND (device_id = ? OR device_id IS NULL OR ? IS NULL)
+    ORDER BY device_id IS ? DESC
+    LIMIT 1
+  `);
+
+  const updateSample = db.prepare(`
+    UPDATE cpap_samples SET leak_rate = ?, pressure = ?, flow_limitation = ?, mask_on = ?, device_id = ?
+    WHERE id = ?
+  `);
+
+  const updateEvent = db.prepare(`
+    UPDATE cpap_events SET duration_seconds = ?, severity = ?, normalized_type = ?, device_id = ? WHERE id = ?
+  `);
+
+  const insertSharedRow = db.prepare(`
+    INSERT OR IGNORE INTO import_shared_rows (user_id, import_id, row_table, row_id) VALUES (?, ?, ?, ?)
+  `);
+
+  // This import supplied a row another import first wrote
+  const shareRow = (table: string, row: { id: number; import_id: number | null }) => {
+    if (importId !== null && row.import_id !== null && row.import_id !== importId) {
+      insertSharedRow.run(userId, importId, table, row.id);
+    }
+  };
+
+  // A device seen before keeps its id; the model is filled in if it was missing
+  const upsertDevice = db.prepare(`
+    INSERT INTO devices (user_id, manufacturer, model, serial) VALUES (?, ?, ?, ?)
+    ON CONFLICT (user_id, manufacturer, serial) DO UPDATE SET model = COALESCE(excluded.model, model)
+    RETURNING id
+  `);
+
+  const insertOximetry = db.prepare(`
+    INSERT INTO oximetry_samples (user_id, timestamp, spo2, pulse_rate, import_id) VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const findOximetry = db.prepare(`
+    SELECT id, spo2, pulse_rate, import_id FROM oximetry_samples WHERE user_id = ? AND timestamp = ?
+  `);
+
+  const updateOximetry = db.prepare(`
+    UPDATE oximetry_samples SET spo2 = ?, pulse_rate = ? WHERE id = ?
+  `);
+
+  const insertAggregate = db.prepare(`
+    INSERT OR REPLACE INTO nightly_aggregates (
+      user_id, date, device_id, session_id, total_usage_minutes, mask_on_minutes,
+      median_pressure, min_pressure, max_pressure, pressure_95th_percentile,
+      median_leak_rate, max_leak_rate, leak_95th_percentile,
+      large_leak_minutes, large_leak_percent,
+      ahi, apnea_count, hypopnea_count, total_events,
+      oai, cai, hi, rera_index, csr_minutes,
+      median_flow_limitation, max_flow_limitation,
+      sleep_quality_score, import_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const deleteDerivedAggregates = db.prepare(`
+    DELETE FROM nightly_aggregates WHERE user_id = ? AND date = ? AND session_id IS NOT NULL
+  `);
+
+  const selectDeviceSummaries = db.prepare(`
+    SELECT * FROM nightly_aggregates
+    WHERE user_id = ? AND date = ? AND session_id IS NULL AND device_id IS NOT NULL
+  `);
+
+  const selectSamples = db.prepare(`
+    SELECT timestamp, leak_rate, pressure, flow_limitation, mask_on, device_id
+    FROM cpap_samples WHERE user_id = ? AND timestamp >= ? AND timestamp < ?
+    ORDER BY timestamp
+  `);
+
+  const selectEvents = db.prepare(`
+    SELECT timestamp, event_type, normalized_type,
+      duration_seconds AS event_duration, severity AS event_severity
+    FROM cpap_events WHERE user_id = ? AND timestamp >= ? AND timestamp < ?
+  `);
+
+  const selectOximetry = db.prepare(`
+    SELECT timestamp, spo2, pulse_rate
+    FROM oximetry_samples WHERE user_id = ? AND timestamp >= ? AND timestamp < ?
+    ORDER BY timestamp
+  `);
+
+  const updateOximetryMetrics = db.prepare(`
+    UPDATE nightly_aggregates SET
+      odi_3 = ?, odi_4 = ?, t90_minutes = ?, min_spo2 = ?, median_spo2 = ?,
+      min_pulse_rate = ?, median_pulse_rate = ?, max_pulse_rate = ?
+    WHERE user_id = ? AND date = ?
+  `);
+
+  // Settings stored for the day and source are merged, keeping the import that
+  // first recorded them
+  const upsertSettings = db.prepare(`
+    INSERT INTO therapy_settings (
+      user_id, effective_date, mode, pressure, min_pressure, max_pressure, epr, ramp_minutes, humidity, source,
+      import_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (user_id, effective_date, source) DO UPDATE SET
+      mode = COALESCE(excluded.mode, mode),
+      pressure = COALESCE(excluded.pressure, pressure),
+      min_pressure = COALESCE(excluded.min_pressure, min_pressure),
+      max_pressure = COALESCE(excluded.max_pressure, max_pressure),
+      epr = COALESCE(excluded.epr, epr),
+      ramp_minutes = COALESCE(excluded.ramp_minutes, ramp_minutes),
+      humidity = COALESCE(excluded.humidity, humidity)
+    RETURNING id, import_id
+  `);
+
+  const deleteSessions = db.prepare(`DELETE FROM sessions WHERE user_id = ? AND sleep_day = ?`);
+
+  // Sessions replaced by a full recalculation are kept here until it finishes
+  db.exec(`
+    CREATE TEMP TABLE IF NOT EXISTS previous_sessions (
+      start_time TEXT, end_time TEXT, device TEXT, device_id INTEGER
+    )
+  `);
+
+  const selectOverlappingDevice = db.prepare(`
+    SELECT device, device_id FROM (
+      SELECT start_time, end_time, device, device_id FROM sessions WHERE user_id = ?
+      UNION ALL
+      SELECT start_time, end_time, device, device_id FROM temp.previous_sessions
+    )
+    WHERE (device IS NOT NULL OR device_id IS NOT NULL) AND start_time <= ? AND end_time >= ?
+    LIMIT 1
+  `);
+
+  const insertSession = db.prepare(`
+    INSERT INTO sessions (
+      id, user_id, sleep_day, start_time, end_time, duration_minutes, device, device_id, sample_count,
+      sampling_interval_seconds
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const assignSampleSession = db.prepare(`
+    UPDATE cpap_samples SET session_id = ? WHERE user_id = ? AND timestamp >= ? AND timestamp < ?
+  `);
+
+  const assignEventSession = db.prepare(`
+    UPDATE cpap_events SET session_id = ? WHERE user_id = ? AND timestamp >= ? AND timestamp < ?
+  `);
+
+  const assignOximetrySession = db.prepare(`
+    UPDATE oximetry_samples SET session_id = ? WHERE user_id = ? AND timestamp >= ? AND timestamp < ?
+  `);
+
+  const assignWaveformSession = db.prepare(`
+    UPDATE waveform_chunks SET session_id = ? WHERE user_id = ? AND start_time >= ? AND start_time < ?
+  `);
+
+  // A chunk already stored for the channel and start time is overwritten but
+  // stays with the import that first wrote it
+  const upsertWaveformChunk = db.prepare(`
+    INSERT INTO waveform_chunks (
+      user_id, channel, start_time, start_ms, end_ms, sample_rate, sample_count,
+      unit, scale, value_offset, data, import_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (user_id, channel, start_ms) DO UPDATE SET
+      end_ms = excluded.end_ms,
+      sample_rate = excluded.sample_rate,
+      sample_count = excluded.sample_count,
+      unit = excluded.unit,
+      scale = excluded.scale,
+      value_offset = excluded.value_offset,
+      data = excluded.data
+    RETURNING id, import_id
+  `);
+
+  // Rebuild a sleep day's sessions; every sample and event in the day belongs to
+  // the latest session that started at or before it (or the first session).
+  // Returns the sessions with the [from, to) range each was assigned.
+  const writeNightSessions = (night: string, samples: CPAPCSVRow[], timeZone: string) => {
+    const bounds = sleepDayBounds(night, source.sleepDayStartHour);
+    const segments = segmentSessions(samples, { sessionGapMinutes: source.sessionGapMinutes, timeZone });
+    // Imports without a device (CSV) keep the device of the session they overlap
+    const devices = segments.map(segment => {
+      const overlapping = selectOverlappingDevice.get(userId, segment.end, segment.start) as
+        { device: string | null; device_id: number | null } | undefined;
+      return {
+        name: source.device ?? overlapping?.device ?? null,
+        id: segment.deviceId ?? overlapping?.device_id ?? null
+      };
+    });
+
+    deleteSessions.run(userId, night);
+    assignSampleSession.run(null, userId, bounds.start, bounds.end);
+    assignEventSession.run(null, userId, bounds.start, bounds.end);
+    assignOximetrySession.run(null, userId, bounds.start, bounds.end);
+    assignWaveformSession.run(null, userId, bounds.start, bounds.end);
+
+    const ids = segments.map((segment, i) => {
+      const id = `${night}-${uuidv4()}`;
+      insertSession.run(
+        id, userId, night, segment.start, segment.end, segment.durationMinutes, devices[i].name, devices[i].id,
+        segment.sampleCount, segment.samplingIntervalSeconds
+      );
+      return id;
+    });
+
+    return segments.map((segment, i) => {
+      const from = i === 0 ? bounds.start : segment.start;
+      const to = i + 1 < segments.length ? segments[i + 1].start : bounds.end;
+      assignSampleSession.run(ids[i], userId, from, to);
+      assignEventSession.run(ids[i], userId, from, to);
+      assignOximetrySession.run(ids[i], userId, from, to);
+      assignWaveformSession.run(ids[i], userId, from, to);
+      return { id: ids[i], deviceId: devices[i].id, from, to };
+    });
+  };
+
+  const hasDerivedNight = db.prepare(`
+    SELECT 1 FROM nightly_aggregates WHERE user_id = ? AND date = ? AND session_id IS NOT NULL
+  `);
+
+  const hasManualNight = db.prepare(`
+    SELECT 1 FROM nightly_aggregates WHERE user_id = ? AND date = ? AND provenance = 'manual'
+  `);
+
+  // Only all-devices rows count as imported nights. Imported data replaces a
+  // night entered by hand.
+  const writeAggregate = (sessionId: string | null, aggregates: NightlyAggregate, deviceId: number | null = null) => {
+    if (deviceId === null && hasManualNight.get(userId, aggregates.date)) {
+      result.errors.push(`${aggregates.date}: the manually entered night was replaced by imported data`);
+    }
+    insertAggregate.run(
+      userId,
+      aggregates.date,
+      deviceId,
+      sessionId,
+      aggregates.total_usage_minutes,
+      aggregates.mask_on_minutes,
+      aggregates.median_pressure,
+      aggregates.min_pressure,
+      aggregates.max_pressure,
+      aggregates.pressure_95th_percentile,
+      aggregates.median_leak_rate,
+      aggregates.max_leak_rate,
+      aggregates.leak_95th_percentile,
+      aggregates.large_leak_minutes,
+      aggregates.large_leak_percent,
+      aggregates.ahi,
+      aggregates.apnea_count,
+      aggregates.hypopnea_count,
+      aggregates.total_events,
+      aggregates.oai,
+      aggregates.cai,
+      aggregates.hi,
+      aggregates.rera_index,
+      aggregates.csr_minutes,
+      aggregates.median_flow_limitation,
+      aggregates.max_flow_limitation,
+      aggregates.sleep_quality_score,
+      importId
+    );
     
-    const insertEvent = db.prepare(`
-      INSERT INTO cpap_events (timestamp, event_type, duration_seconds, severity, session_id)
-      VALUES (?, ?, ?, ?, ?)
-    `);
-
-    const insertAggregate = db.prepare(`
-      INSERT OR REPLACE INTO nightly_aggregates (
-        date, session_id, total_usage_minutes, mask_on_minutes,
-        median_pressure, min_pressure, max_pressure, pressure_95th_percentile,
-        median_leak_rate, max_leak_rate, leak_95th_percentile,
-        large_leak_minutes, large_leak_percent,
-        ahi, apnea_count, hypopnea_count, total_events,
-        median_flow_limitation, max_flow_limitation,
-        sleep_quality_score
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    // Begin transaction
-    const transaction = db.transaction(() => {
-      for (const [sessionId, sessionData] of sessions) {
-        // Insert samples
-        for (const sample of sessionData.samples) {
-          insertSample.run(
-            sample.timestamp,
-            sample.leak_rate,
-            sample.pressure,
-            sample.flow_limitation,
-            sample.mask_on,
-            sessionId
-          );
-          result.samplesImported++;
-        }
+    if (deviceId === null) {
+      dates.add(aggregates.date);
+      result.nightsImported++;
+    }
+  };
+
+  const resolveDevice = (device?: DeviceIdentity): number | null => {
+    if (!device) return null;
+    const key = `${device.manufacturer}\n${device.serial}`;
+    let id = deviceIds.get(key);
+    if (id === undefined) {
+      id = (upsertDevice.get(userId, device.manufacturer, device.model, device.serial) as { id: number }).id;
+      deviceIds.set(key, id);
+    }
+    return id;
+  };
+
+  const selectStoredTimeZone = db.prepare(`
+    SELECT time_zone FROM imports WHERE time_zone IS NOT NULL AND id IN (
+      SELECT import_id FROM cpap_samples WHERE user_id = ? AND timestamp >= ? AND timestamp < ?
+      UNION
+      SELECT import_id FROM oximetry_samples WHERE user_id = ? AND timestamp >= ? AND timestamp < ?
+    )
+    ORDER BY id DESC LIMIT 1
+  `).pluck();
+
+  // Zone a night is measured in: the one given with this upload, else the one
+  // given with the upload that supplied the night's data, else the setting
+  const nightTimeZone = (night: string): string => {
+    if (source.uploadTimeZone) return source.uploadTimeZone;
+    const { start, end } = sleepDayBounds(night, source.sleepDayStartHour);
+    return (selectStoredTimeZone.get(userId, start, end, userId, start, end) as string | undefined) ?? source.timeZone;
+  };
+
+  // Oximetry metrics go on the night's stored row (derived or summary-only);
+  // a night without oximetry gets them cleared
+  const applyOximetry = (night: string) => {
+    const { start, end } = sleepDayBounds(night, source.sleepDayStartHour);
+    const metrics = calculateOximetryMetrics(
+      selectOximetry.all(userId, start, end) as OximetrySample[], nightTimeZone(night)
+    );
+    const { changes } = updateOximetryMetrics.run(
+      metrics?.odi_3 ?? null,
+      metrics?.odi_4 ?? null,
+      metrics?.t90_minutes ?? null,
+      metrics?.min_spo2 ?? null,
+      metrics?.median_spo2 ?? null,
+      metrics?.min_pulse_rate ?? null,
+      metrics?.median_pulse_rate ?? null,
+      metrics?.max_pulse_rate ?? null,
+      userId,
+      night
+    );
+    if (metrics && changes === 0) {
+      unmatchedOximetry.add(night);
+    } else {
+      unmatchedOximetry.delete(night);
+    }
+  };
 
-        // Insert events
-        for (const event of sessionData.events) {
+  // Incoming values win; values the incoming row lacks keep what was stored
+  const merge = <T>(incoming: Array<T | null | undefined>, stored: Array<T | null>) => {
+    const merged = incoming.map((value, i) => value ?? stored[i]);
+    return { merged, changed: merged.some((value, i) => value !== stored[i]) };
+  };
+
+  // Each batch is a transaction of its own (a savepoint in a run that holds one)
+  const writeRows = db.transaction((rows: CPAPCSVRow[], deviceId: number | null = null) => {
+    for (const row of rows) {
+      nights.add(sleepDayOf(row.timestamp, source.sleepDayStartHour));
+
+      // Separate samples from events
+      if (row.event_type) {
+        const normalizedType = normalizeEventType(row.event_type, source.eventSource);
+        const stored = findEvent.get(
+          userId, row.timestamp, row.event_type, deviceId, deviceId, deviceId
+        ) as StoredEvent | undefined;
+        if (!stored) {
           insertEvent.run(
-            event.timestamp,
-            event.event_type,
-            event.event_duration,
-            event.event_severity,
-            sessionId
+            userId,
+            row.timestamp,
+            row.event_type,
+            normalizedType,
+            row.event_duration,
+            row.event_severity,
+            importId,
+            deviceId
           );
           result.eventsImported++;
+          result.rowsNew++;
+          continue;
         }
 
-        // Calculate and insert nightly aggregates
-        const aggregates = calculateAggregates(sessionData);
-        if (aggregates) {
-          insertAggregate.run(
-            aggregates.date,
-            sessionId,
-            aggregates.total_usage_minutes,
-            aggregates.mask_on_minutes,
-            aggregates.median_pressure,
-            aggregates.min_pressure,
-            aggregates.max_pressure,
-            aggregates.pressure_95th_percentile,
-            aggregates.median_leak_rate,
-            aggregates.max_leak_rate,
-            aggregates.leak_95th_percentile,
-            aggregates.large_leak_minutes,
-            aggregates.large_leak_percent,
-            aggregates.ahi,
-            aggregates.apnea_count,
-            aggregates.hypopnea_count,
-            aggregates.total_events,
-            aggregates.median_flow_limitation,
-            aggregates.max_flow_limitation,
-            aggregates.sleep_quality_score
+        shareRow('cpap_events', stored);
+        const { merged, changed } = merge(
+          [row.event_duration, row.event_severity, normalizedType, deviceId],
+          [stored.duration_seconds, stored.severity, stored.normalized_type, stored.device_id]
+        );
+        if (changed) {
+          updateEvent.run(...merged, stored.id);
+          result.rowsUpdated++;
+        } else {
+          result.rowsDuplicated++;
+        }
+      } else {
+        const stored = findSample.get(
+          userId, row.timestamp, deviceId, deviceId, deviceId
+        ) as StoredSample | undefined;
+        if (!stored) {
+          insertSample.run(
+            userId,
+            row.timestamp,
+            row.leak_rate,
+            row.pressure,
+            row.flow_limitation,
+            row.mask_on,
+            importId,
+            deviceId
           );
-          
-          dates.add(aggregates.date);
-          result.nightsImported++;
+          result.samplesImported++;
+          result.rowsNew++;
+          continue;
+        }
+
+        shareRow('cpap_samples', stored);
+        const { merged, changed } = merge(
+          [row.leak_rate, row.pressure, row.flow_limitation, row.mask_on, deviceId],
+          [stored.leak_rate, stored.pressure, stored.flow_limitation, stored.mask_on, stored.device_id]
+        );
+        if (changed) {
+          updateSample.run(...merged, stored.id);
+          result.rowsUpdated++;
+        } else {
+          result.rowsDuplicated++;
         }
       }
+    }
+  });
+
+  const writeOximetry = db.transaction((readings: OximetrySample[]) => {
+    for (const reading of readings) {
+      nights.add(sleepDayOf(reading.timestamp, source.sleepDayStartHour));
+
+      const stored = findOximetry.get(userId, reading.timestamp) as StoredOximetry | undefined;
+      if (!stored) {
+        insertOximetry.run(userId, reading.timestamp, reading.spo2, reading.pulse_rate, importId);
+        result.oximetryImported++;
+        result.rowsNew++;
+        continue;
+      }
+
+      shareRow('oximetry_samples', stored);
+      const { merged, changed } = merge(
+        [reading.spo2, reading.pulse_rate],
+        [stored.spo2, stored.pulse_rate]
+      );
+      if (changed) {
+        updateOximetry.run(...merged, stored.id);
+        result.rowsUpdated++;
+      } else {
+        result.rowsDuplicated++;
+      }
+    }
+  });
+
+  const writeWaveforms = db.transaction((signals: WaveformSignal[]) => {
+    const chunks = signals.flatMap(signal => {
+      try {
+        return chunkWaveform(signal);
+      } catch (error) {
+        result.errors.push(`${signal.start}: ${error instanceof Error ? error.message : error}`);
+        return [];
+      }
     });
 
-    transaction();
+    for (const chunk of chunks) {
+      nights.add(sleepDayOf(chunk.startTime, source.sleepDayStartHour));
+      const stored = upsertWaveformChunk.get(
+        userId,
+        chunk.channel,
+        chunk.startTime,
+        chunk.startMs,
+        chunk.endMs,
+        chunk.sampleRate,
+        chunk.sampleCount,
+        chunk.unit,
+        chunk.scale,
+        chunk.offset,
+        chunk.data,
+        importId
+      ) as { id: number; import_id: number | null };
+      shareRow('waveform_chunks', stored);
+    }
+  });
 
-    // Calculate date range
-    if (dates.size > 0) {
-      const sortedDates = Array.from(dates).sort();
-      result.dateRange = {
-        start: sortedDates[0],
-        end: sortedDates[sortedDates.length - 1]
-      };
+  // Rebuild a sleep day: its sessions, the night across devices and each device's share
+  const writeNight = db.transaction((night: string) => {
+    const { start, end } = sleepDayBounds(night, source.sleepDayStartHour);
+    const samples = selectSamples.all(userId, start, end) as CPAPCSVRow[];
+    const events = selectEvents.all(userId, start, end) as CPAPCSVRow[];
+    const timeZone = nightTimeZone(night);
+    const sessions = writeNightSessions(night, samples, timeZone);
+    deleteDerivedAggregates.run(userId, night);
+
+    const aggregates = calculateAggregates(night, { samples, events }, timeZone);
+    if (aggregates) {
+      writeAggregate(sessions[0]?.id ?? null, aggregates);
+    }
+
+    // Each device's share of the night: the samples and events of its sessions
+    const nightDevices = new Set(sessions.map(session => session.deviceId).filter(id => id !== null));
+    for (const deviceId of nightDevices) {
+      const ranges = sessions.filter(session => session.deviceId === deviceId);
+      const inRanges = (row: CPAPCSVRow) =>
+        ranges.some(range => row.timestamp >= range.from && row.timestamp < range.to);
+      const deviceAggregates = calculateAggregates(night, {
+        samples: samples.filter(inRanges),
+        events: events.filter(inRanges)
+      }, timeZone);
+      if (deviceAggregates) {
+        writeAggregate(ranges[0].id, deviceAggregates, deviceId);
+      }
+    }
+
+    applyOximetry(night);
+  });
+
+  // Summaries and settings collected while reading, once every night is written
+  const writeSummaries = db.transaction(() => {
+    // Summary-only nights never override nights derived from detailed data.
+    // A machine's summary is stored for its device; the all-devices row
+    // combines every device's summary for the night.
+    for (const { aggregate, deviceId } of summaries) {
+      if (dates.has(aggregate.date) || hasDerivedNight.get(userId, aggregate.date)) continue;
+      if (deviceId === null) {
+        writeAggregate(null, aggregate);
+        applyOximetry(aggregate.date);
+      } else {
+        writeAggregate(null, aggregate, deviceId);
+        summaryNights.add(aggregate.date);
+      }
+    }
+
+    for (const night of summaryNights) {
+      if (hasDerivedNight.get(userId, night)) continue;
+      const deviceNights = selectDeviceSummaries.all(userId, night) as NightlyAggregate[];
+      if (deviceNights.length > 0) {
+        writeAggregate(null, mergeAggregates(night, deviceNights));
+        applyOximetry(night);
+      }
+    }
+
+    for (const [date, values] of settings) {
+      const stored = upsertSettings.get(
+        userId,
+        date,
+        values.mode,
+        values.pressure,
+        values.minPressure,
+        values.maxPressure,
+        values.epr,
+        values.rampMinutes,
+        values.humidity,
+        settingsSource,
+        importId
+      ) as { id: number; import_id: number | null };
+      shareRow('therapy_settings', stored);
+    }
+  });
+
+  // Queue every sleep day from the one of the first timestamp to the one of the last
+  const queueNights = (first: string, last: string) => {
+    const lastDay = sleepDayOf(last, source.sleepDayStartHour);
+    for (let day = sleepDayOf(first, source.sleepDayStartHour); day <= lastDay; day = addDays(day, 1)) {
+      nights.add(day);
     }
+  };
+
+  return {
+    writeRows,
+    writeOximetry,
+    checkpoint,
+
+    // Rows from device files; session boundaries are re-derived in finish()
+    async writeSessions(sessionData: SessionData[]) {
+      const total = sessionData.reduce(
+        (sum, s) => sum + s.samples.length + s.events.length + (s.oximetry?.length ?? 0), 0
+      );
+      let written = 0;
+
+      for (const { samples, events, oximetry = [], waveforms, settings: sessionSettings, device } of sessionData) {
+        const deviceId = resolveDevice(device);
+        const rows = [...samples, ...events];
+        if (sessionSettings && rows.length > 0) {
+          settings.set(sleepDayOf(rows[0].timestamp, source.sleepDayStartHour), sessionSettings);
+        }
+        for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+          const batch = rows.slice(i, i + BATCH_SIZE);
+          writeRows(batch, deviceId);
+          written += batch.length;
+          await checkpoint({ rowsParsed: written, parsedFraction: written / total });
+        }
+        for (let i = 0; i < oximetry.length; i += BATCH_SIZE) {
+          const batch = oximetry.slice(i, i + BATCH_SIZE);
+          writeOximetry(batch);
+          written += batch.length;
+          await checkpoint({ rowsParsed: written, parsedFraction: written / total });
+        }
+        if (waveforms) {
+          writeWaveforms(waveforms());
+          await checkpoint();
+        }
+      }
+    },
+
+    addSummary(aggregate: NightlyAggregate, device?: DeviceIdentity) {
+      summaries.push({ aggregate, deviceId: resolveDevice(device) });
+    },
+
+    addSettings(date: string, values: SettingValues) {
+      settings.set(date, values);
+    },
+
+    // Store settings changed together with a recalculation
+    saveSettings(changes: Partial<AppSettings>) {
+      updateSettings(userId, changes, db);
+    },
+
+    // Re-derive every stored night, e.g. after the sleep-day boundary changed
+    recalculateAll() {
+      const range = db.prepare(`
+        SELECT MIN(first) AS first, MAX(last) AS last FROM (
+          SELECT MIN(timestamp) AS first, MAX(timestamp) AS last FROM cpap_samples WHERE user_id = ?
+          UNION ALL
+          SELECT MIN(timestamp), MAX(timestamp) FROM cpap_events WHERE user_id = ?
+          UNION ALL
+          SELECT MIN(timestamp), MAX(timestamp) FROM oximetry_samples WHERE user_id = ?
+        )
+      `).get(userId, userId, userId) as { first: string | null; last: string | null };
+
+      db.exec(`DELETE FROM temp.previous_sessions`);
+      db.prepare(`
+        INSERT INTO temp.previous_sessions
+        SELECT start_time, end_time, device, device_id FROM sessions WHERE user_id = ?
+      `).run(userId);
+      db.prepare(`DELETE FROM sessions WHERE user_id = ?`).run(userId);
+      db.prepare(`DELETE FROM nightly_aggregates WHERE user_id = ? AND session_id IS NOT NULL`).run(userId);
+
+      if (range.first && range.last) queueNights(range.first, range.last);
+    },
+
+    recalculateRange(first: string, last: string) {
+      queueNights(first, last);
+    },
+
+    // Delete what an import added and queue the nights it touched for
+    // recalculation. Values it merged into rows from earlier imports are kept,
+    // and rows later imports supplied as well are handed to them.
+    removeImport(id: number) {
+      const record = db.prepare(`
+        SELECT undone_at FROM imports WHERE id = ? AND user_id = ?
+      `).get(id, userId) as { undone_at: string | null } | undefined;
+      if (!record) {
+        throw new Error(`Import ${id} not found`);
+      }
+      if (record.undone_at) {
+        throw new Error(`Import ${id} has already been undone`);
+      }
+
+      const timestamps = db.prepare(`
+        SELECT timestamp FROM cpap_samples WHERE import_id = ?
+        UNION ALL
+        SELECT timestamp FROM cpap_events WHERE import_id = ?
+        UNION ALL
+        SELECT timestamp FROM oximetry_samples WHERE import_id = ?
+        UNION ALL
+        SELECT start_time FROM waveform_chunks WHERE import_id = ?
+      `).pluck().iterate(id, id, id, id) as IterableIterator<string>;
+      for (const timestamp of timestamps) {
+        nights.add(sleepDayOf(timestamp, source.sleepDayStartHour));
+      }
+
+      const summaryDates = db.prepare(`
+        SELECT DISTINCT date FROM nightly_aggregates WHERE import_id = ? AND session_id IS NULL
+      `).pluck().all(id) as string[];
+      for (const date of summaryDates) {
+        nights.add(date);
+        summaryNights.add(date);
+      }
+
+      // Derived nights, and all-devices summary rows merged from per-device
+      // ones, are rebuilt by finish(); a night left without data stays deleted
+      const deleteAggregate = db.prepare(`
+        DELETE FROM nightly_aggregates WHERE user_id = ? AND date = ? AND (
+          session_id IS NOT NULL OR import_id = ? OR (
+            device_id IS NULL AND EXISTS (
+              SELECT 1 FROM nightly_aggregates AS device_night
+              WHERE device_night.user_id = nightly_aggregates.user_id
+                AND device_night.date = nightly_aggregates.date
+                AND device_night.device_id IS NOT NULL AND device_night.session_id IS NULL
+            )
+          )
+        )
+      `);
+      for (const night of nights) {
+        deleteAggregate.run(userId, night, id);
+      }
+
+      // Rows a later import supplied too go to the latest of those imports;
+      // the rest are deleted
+      db.prepare(`DELETE FROM import_shared_rows WHERE import_id = ?`).run(id);
+      for (const table of SHARED_ROW_TABLES) {
+        db.prepare(`
+          UPDATE ${table} SET import_id = (
+            SELECT MAX(shared.import_id) FROM import_shared_rows AS shared
+            WHERE shared.row_table = ? AND shared.row_id = ${table}.id
+          )
+          WHERE import_id = ? AND id IN (SELECT row_id FROM import_shared_rows WHERE row_table = ?)
+        `).run(table, id, table);
+        db.prepare(`
+          DELETE FROM import_shared_rows WHERE row_table = ? AND import_id = (
+            SELECT import_id FROM ${table} WHERE id = import_shared_rows.row_id
+          )
+        `).run(table);
+        db.prepare(`DELETE FROM ${table} WHERE import_id = ?`).run(id);
+      }
+      db.prepare(`UPDATE imports SET undone_at = CURRENT_TIMESTAMP WHERE id = ?`).run(id);
+    },
+
+    async finish() {
+      await checkpoint({ phase: 'computing', parsedFraction: 1, nightsTotal: nights.size });
+
+      // Recalculate sessions and nightly aggregates from all stored data, one
+      // sleep day in memory at a time
+      for (const night of nights) {
+        writeNight(night);
+        await checkpoint({ nightsComputed: progress.nightsComputed + 1 });
+      }
+      writeSummaries();
+
+      if (unmatchedOximetry.size > 0) {
+        result.errors.push(
+          `Oximetry for ${unmatchedOximetry.size} night(s) has no CPAP night yet; ` +
+          'its metrics are added once CPAP data for those nights is imported'
+        );
+      }
+
+      // Calculate date range
+      if (dates.size > 0) {
+        const sortedDates = Array.from(dates).sort();
+        result.dateRange = {
+          start: sortedDates[0],
+          end: sortedDates[sortedDates.length - 1]
+        };
+      }
+    }
+  };
+}
+
+// OSCAR "Sessions" export: several rows per day, combined into one night
+function combineSessionSummaries(date: string, rows: SummaryRow[]): NightlyAggregate | null {
+  const usage = rows.reduce((sum, r) => sum + r.usageMinutes!, 0);
+  const sum = (pick: (r: SummaryRow) => number | null) =>
+    rows.some(r => pick(r) !== null) ? rows.reduce((total, r) => total + (pick(r) ?? 0), 0) : null;
+  const weighted = (pick: (r: SummaryRow) => number | null) => {
+    const valid = rows.filter(r => pick(r) !== null);
+    const minutes = valid.reduce((total, r) => total + r.usageMinutes!, 0);
+    return minutes > 0 ? valid.reduce((total, r) => total + pick(r)! * r.usageMinutes!, 0) / minutes : null;
+  };
+  const max = (pick: (r: SummaryRow) => number | null) => {
+    const valid = rows.map(pick).filter((v): v is number => v !== null);
+    return valid.length > 0 ? Math.max(...valid) : null;
+  };
+
+  return summaryToAggregate({
+    date,
+    usageMinutes: usage,
+    ahi: weighted(r => r.ahi),
+    obstructiveCount: sum(r => r.obstructiveCount),
+    centralCount: sum(r => r.centralCount),
+    hypopneaCount: sum(r => r.hypopneaCount),
+    unclassifiedCount: sum(r => r.unclassifiedCount),
+    reraCount: sum(r => r.reraCount),
+    medianPressure: weighted(r => r.medianPressure),
+    pressure95: max(r => r.pressure95),
+    maxPressure: max(r => r.maxPressure),
+    medianLeak: weighted(r => r.medianLeak),
+    leak95: max(r => r.leak95),
+    maxLeak: max(r => r.maxLeak)
+  });
+}
+
+// A night recorded by more than one machine, from each machine's summary.
+// Rates and medians are weighted by mask-on time.
+function mergeAggregates(date: string, rows: NightlyAggregate[]): NightlyAggregate {
+  const sum = (pick: (r: NightlyAggregate) => number | null) =>
+    rows.some(r => pick(r) !== null) ? rows.reduce((total, r) => total + (pick(r) ?? 0), 0) : null;
+  const weighted = (pick: (r: NightlyAggregate) => number | null) => {
+    const valid = rows.filter(r => pick(r) !== null);
+    const minutes = valid.reduce((total, r) => total + r.mask_on_minutes, 0);
+    return minutes > 0 ? valid.reduce((total, r) => total + pick(r)! * r.mask_on_minutes, 0) / minutes : null;
+  };
+  const extreme = (pick: (r: NightlyAggregate) => number | null, choose: (...values: number[]) => number) => {
+    const valid = rows.map(pick).filter((v): v is number => v !== null);
+    return valid.length > 0 ? choose(...valid) : null;
+  };
+
+  const totalMinutes = rows.reduce((total, r) => total + r.total_usage_minutes, 0);
+  const maskOnMinutes = rows.reduce((total, r) => total + r.mask_on_minutes, 0);
+  const largeLeakMinutes = sum(r => r.large_leak_minutes);
+  const largeLeakPercent = largeLeakMinutes !== null && totalMinutes > 0 ? (largeLeakMinutes / totalMinutes) * 100 : null;
+  const ahi = weighted(r => r.ahi);
+
+  return {
+    date,
+    total_usage_minutes: totalMinutes,
+    mask_on_minutes: maskOnMinutes,
+    median_pressure: weighted(r => r.median_pressure),
+    min_pressure: extreme(r => r.min_pressure, Math.min),
+    max_pressure: extreme(r => r.max_pressure, Math.max),
+    pressure_95th_percentile: extreme(r => r.pressure_95th_percentile, Math.max),
+    median_leak_rate: weighted(r => r.median_leak_rate),
+    max_leak_rate: extreme(r => r.max_leak_rate, Math.max),
+    leak_95th_percentile: extreme(r => r.leak_95th_percentile, Math.max),
+    large_leak_minutes: largeLeakMinutes,
+    large_leak_percent: largeLeakPercent,
+    ahi,
+    apnea_count: sum(r => r.apnea_count),
+    hypopnea_count: sum(r => r.hypopnea_count),
+    total_events: sum(r => r.total_events),
+    oai: weighted(r => r.oai),
+    cai: weighted(r => r.cai),
+    hi: weighted(r => r.hi),
+    rera_index: weighted(r => r.rera_index),
+    csr_minutes: sum(r => r.csr_minutes),
+    median_flow_limitation: weighted(r => r.median_flow_limitation),
+    max_flow_limitation: extreme(r => r.max_flow_limitation, Math.max),
+    sleep_quality_score: calculateSleepQualityScore({
+      ahi: ahi ?? 0,
+      largeLeakPercent: largeLeakPercent ?? 0,
+      maskOnMinutes,
+      totalMinutes
+    })
+  };
+}
+
+function summaryToAggregate(row: SummaryRow): NightlyAggregate | null {
+  if (!row.usageMinutes || row.usageMinutes <= 0) return null;
+
+  const hours = row.usageMinutes / 60;
+  const counts = [row.obstructiveCount, row.centralCount, row.hypopneaCount, row.unclassifiedCount];
+  const apneas = [row.obstructiveCount, row.centralCount, row.unclassifiedCount];
+  const totalEvents = counts.some(c => c !== null) ?
+    counts.reduce<number>((sum, c) => sum + (c ?? 0), 0) :
+    row.ahi !== null ? Math.round(row.ahi * hours) : null;
+  const ahi = row.ahi ?? (totalEvents !== null ? totalEvents / hours : null);
+  const perHour = (count: number | null) => count !== null ? count / hours : null;
+
+  return {
+    date: row.date,
+    total_usage_minutes: row.usageMinutes,
+    mask_on_minutes: row.usageMinutes,
+    median_pressure: row.medianPressure,
+    min_pressure: null,
+    max_pressure: row.maxPressure,
+    pressure_95th_percentile: row.pressure95,
+    median_leak_rate: row.medianLeak,
+    max_leak_rate: row.maxLeak,
+    leak_95th_percentile: row.leak95,
+    large_leak_minutes: null,
+    large_leak_percent: null,
+    ahi,
+    apnea_count: apneas.some(c => c !== null) ? apneas.reduce<number>((sum, c) => sum + (c ?? 0), 0) : null,
+    hypopnea_count: row.hypopneaCount,
+    total_events: totalEvents,
+    oai: perHour(row.obstructiveCount),
+    cai: perHour(row.centralCount),
+    hi: perHour(row.hypopneaCount),
+    rera_index: perHour(row.reraCount),
+    csr_minutes: null,
+    median_flow_limitation: null,
+    max_flow_limitation: null,
+    sleep_quality_score: calculateSleepQualityScore({
+      ahi: ahi ?? 0,
+      largeLeakPercent: 0,
+      maskOnMinutes: row.usageMinutes,
+      totalMinutes: row.usageMinutes
+    })
+  };
+}
+
+// ResMed leak is recorded in L/s; the dashboard works in L/min
+function toLitresPerMinute(signal: EDFSignal, value: number): number {
+  return signal.physicalDimension.toLowerCase() === 'l/s' ? value * 60 : value;
+}
+
+// Group DATALOG files into sessions keyed by their YYYYMMDD_HHMMSS prefix
+function readResMedDatalog(datalogDir: string, errors: string[]): Map<string, SessionData> {
+  const sessions = new Map<string, SessionData>();
+  const sessionRanges: Array<{ id: string; start: string; end: string; folder: string }> = [];
+  const eventFiles: Array<{ path: string; folder: string }> = [];
+
+  const dayFolders = fs.readdirSync(datalogDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && /^\d{8}$/.test(entry.name))
+    .map(entry => entry.name)
+    .sort();
+
+  for (const folder of dayFolders) {
+    const folderPath = path.join(datalogDir, folder);
+    const files = fs.readdirSync(folderPath).filter(f => f.toLowerCase().endsWith('.edf')).sort();
 
+    const byKey = new Map<string, Record<string, string>>();
+    for (const file of files) {
+      const match = file.match(/^(\d{8}_\d{6})_([A-Z]{3})\.edf$/i);
+      if (!match) continue;
+      const [, key, kind] = match;
+      const kinds = byKey.get(key) || {};
+      kinds[kind.toUpperCase()] = path.join(folderPath, file);
+      byKey.set(key, kinds);
+    }
+
+    for (const kinds of byKey.values()) {
+      if (kinds.EVE) eventFiles.push({ path: kinds.EVE, folder });
+
+      // SAD: SpO2 and pulse from an oximeter plugged into the machine
+      if (kinds.SAD) {
+        try {
+          const oximetry = oximetryFromSAD(readEDF(kinds.SAD));
+          if (oximetry.length > 0) {
+            sessions.set(`${oximetry[0].timestamp.split(' ')[0]}-${uuidv4()}`, { samples: [], events: [], oximetry });
+          }
+        } catch (error) {
+          errors.push(`${path.basename(kinds.SAD)}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      const sourcePath = kinds.PLD || kinds.BRP;
+      if (!sourcePath) continue;
+
+      try {
+        const edf = readEDF(sourcePath);
+        const samples = kinds.PLD ? samplesFromPLD(edf) : samplesFromBRP(edf);
+        if (samples.length === 0) continue;
+
+        const sessionId = `${samples[0].timestamp.split(' ')[0]}-${uuidv4()}`;
+        const brpPath = kinds.BRP;
+        sessions.set(sessionId, {
+          samples,
+          events: [],
+          waveforms: brpPath ? () => waveformsFromBRP(brpPath, errors) : undefined
+        });
+        sessionRanges.push({
+          id: sessionId,
+          start: samples[0].timestamp,
+          end: samples[samples.length - 1].timestamp,
+          folder
+        });
+      } catch (error) {
+        errors.push(`${path.basename(sourcePath)}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  // EVE files cover a whole day folder; attach each event to the session it falls in
+  for (const eventFile of eventFiles) {
+    try {
+      const edf = readEDF(eventFile.path);
+      for (const annotation of edf.annotations) {
+        if (/recording starts/i.test(annotation.text)) continue;
+
+        const timestamp = offsetTimestamp(edf.startTime, annotation.onset);
+        const session =
+          sessionRanges.find(r => timestamp >= r.start && timestamp <= r.end) ||
+          sessionRanges.find(r => r.folder === eventFile.folder);
+        if (!session) continue;
+
+        sessions.get(session.id)!.events.push({
+          timestamp,
+          event_type: annotation.text,
+          event_duration: annotation.duration ?? undefined
+        });
+      }
+    } catch (error) {
+      errors.push(`${path.basename(eventFile.path)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return sessions;
+}
+
+// PLD: low-rate therapy signals (pressure, leak, flow limitation), typically every 2 s
+function samplesFromPLD(edf: EDFFile): CPAPCSVRow[] {
+  const pressure = findSignal(edf, 'MaskPress', 'Press');
+  const leak = findSignal(edf, 'Leak');
+  const flowLimitation = findSignal(edf, 'FlowLim');
+  const clock = leak || pressure || flowLimitation;
+  if (!clock) return [];
+
+  const interval = sampleInterval(edf, clock);
+  const valueAt = (signal: EDFSignal | undefined, seconds: number) => {
+    if (!signal) return undefined;
+    const index = Math.min(
+      signal.values.length - 1,
+      Math.floor(seconds / sampleInterval(edf, signal))
+    );
+    const value = signal.values[index];
+    // ResMed writes negative values for "no data"
+    return value >= 0 ? value : undefined;
+  };
+
+  const samples: CPAPCSVRow[] = [];
+  for (let i = 0; i < clock.values.length; i++) {
+    const seconds = i * interval;
+    const leakValue = valueAt(leak, seconds);
+    samples.push({
+      timestamp: offsetTimestamp(edf.startTime, seconds),
+      pressure: valueAt(pressure, seconds),
+      leak_rate: leak && leakValue !== undefined ? toLitresPerMinute(leak, leakValue) : undefined,
+      flow_limitation: valueAt(flowLimitation, seconds),
+      mask_on: 1
+    });
+  }
+
+  return samples;
+}
+
+// SAD: 1 Hz SpO2 and pulse rate; readings taken with no sensor attached are
+// written as -1 and dropped by the range checks
+function oximetryFromSAD(edf: EDFFile): OximetrySample[] {
+  const spo2 = findSignal(edf, 'SpO2');
+  const pulse = findSignal(edf, 'Pulse');
+  const clock = spo2 || pulse;
+  if (!clock) return [];
+
+  const interval = sampleInterval(edf, clock);
+  const valueAt = (signal: EDFSignal | undefined, seconds: number) => signal ?
+    signal.values[Math.min(signal.values.length - 1, Math.floor(seconds / sampleInterval(edf, signal)))] :
+    null;
+
+  const readings: OximetrySample[] = [];
+  for (let i = 0; i < clock.values.length; i++) {
+    const seconds = i * interval;
+    const reading = {
+      timestamp: offsetTimestamp(edf.startTime, seconds),
+      spo2: validSpO2(valueAt(spo2, seconds)),
+      pulse_rate: validPulseRate(valueAt(pulse, seconds))
+    };
+    if (reading.spo2 !== null || reading.pulse_rate !== null) readings.push(reading);
+  }
+
+  return readings;
+}
+
+// BRP flow and mask pressure, kept at full rate in the waveform store. EDF
+// values are 16-bit integers with a linear scaling, which we store as is.
+function waveformsFromBRP(brpPath: string, errors: string[]): WaveformSignal[] {
+  try {
+    const edf = readEDF(brpPath);
+    const channels: Array<[WaveformChannel, EDFSignal | undefined]> = [
+      ['flow', findSignal(edf, 'Flow')],
+      ['pressure', findSignal(edf, 'Press')]
+    ];
+
+    return channels.flatMap(([channel, signal]) => {
+      if (!signal || signal.values.length === 0) return [];
+      const scale = (signal.physicalMax - signal.physicalMin) / (signal.digitalMax - signal.digitalMin);
+      const offset = signal.physicalMin - signal.digitalMin * scale;
+      // Flow in L/s is stored in L/min like leak
+      const factor = toLitresPerMinute(signal, 1);
+      return [{
+        channel,
+        start: edf.startTime,
+        sampleRate: 1 / sampleInterval(edf, signal),
+        unit: factor !== 1 ? 'L/min' : signal.physicalDimension,
+        scale: scale * factor,
+        offset: offset * factor,
+        values: factor !== 1 ? signal.values.map(v => v * factor) : signal.values
+      }];
+    });
   } catch (error) {
-    result.errors.push(`Failed to process file: ${error}`);
+    errors.push(`${path.basename(brpPath)}: ${error instanceof Error ? error.message : error}`);
+    return [];
   }
+}
 
-  return result;
+// BRP: 25 Hz flow/pressure; only used when a session has no PLD file
+function samplesFromBRP(edf: EDFFile, bucketSeconds = 2): CPAPCSVRow[] {
+  const pressure = findSignal(edf, 'Press');
+  if (!pressure) return [];
+
+  const perBucket = Math.max(1, Math.round(bucketSeconds / sampleInterval(edf, pressure)));
+  const samples: CPAPCSVRow[] = [];
+
+  for (let i = 0; i < pressure.values.length; i += perBucket) {
+    const bucket = pressure.values.subarray(i, i + perBucket);
+    const mean = bucket.reduce((a, b) => a + b, 0) / bucket.length;
+    samples.push({
+      timestamp: offsetTimestamp(edf.startTime, i * sampleInterval(edf, pressure)),
+      pressure: mean,
+      mask_on: 1
+    });
+  }
+
+  return samples;
 }
 
-function parseCSV(content: string): CPAPCSVRow[] {
-  const lines = content.split('\n').filter(line => line.trim());
-  if (lines.length < 2) return [];
+// STR.edf "Mode" values (AirSense 10/11, AirCurve 10)
+const RESMED_MODES: Record<number, TherapyMode> = {
+  0: 'CPAP',
+  1: 'APAP',    // AutoSet
+  2: 'APAP',    // APAP
+  3: 'BiLevel', // S
+  4: 'BiLevel', // ST
+  5: 'BiLevel', // T
+  6: 'BiLevel', // PAC
+  7: 'ASV',
+  8: 'ASV',     // ASVAuto
+  11: 'APAP'    // AutoSet for Her
+};
+
+// The machine's serial number and model: Identification.tgt ("#SRN ..."
+// lines) on AirSense 10 cards, Identification.json on AirSense 11, or failing
+// those the serial in STR.edf's header
+function readResMedIdentity(rootDir: string, strSerial: string | null): DeviceIdentity | undefined {
+  const tgtPath = findEntry(rootDir, 'Identification.tgt');
+  if (tgtPath) {
+    const fields = new Map<string, string>();
+    for (const line of fs.readFileSync(tgtPath, 'latin1').split(/\r?\n/)) {
+      const match = line.match(/^#(\w+)\s+(.+)$/);
+      if (match) fields.set(match[1], match[2].trim());
+    }
+    const serial = fields.get('SRN');
+    if (serial) {
+      return { manufacturer: 'ResMed', model: fields.get('PNA')?.replace(/_/g, ' ') ?? null, serial };
+    }
+  }
+
+  const jsonPath = findEntry(rootDir, 'Identification.json');
+  if (jsonPath) {
+    try {
+      const product = JSON.parse(fs.readFileSync(jsonPath, 'utf8')).FlowGenerator?.IdentificationProfiles?.Product;
+      if (product?.SerialNumber) {
+        return { manufacturer: 'ResMed', model: product.ProductName ?? null, serial: String(product.SerialNumber) };
+      }
+    } catch {
+      // Unreadable; fall back to STR.edf
+    }
+  }
 
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-  const rows: CPAPCSVRow[] = [];
+  return strSerial ? { manufacturer: 'ResMed', model: null, serial: strSerial } : undefined;
+}
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length !== headers.length) continue;
+// STR.edf: one record per day (noon to noon) with the machine's own nightly
+// summary and the settings it ran with. The header's recording field names
+// the machine ("... SRN=23161234567 ...").
+function readResMedSummary(
+  strPath: string,
+  errors: string[]
+): { summaries: NightlyAggregate[]; settings: Map<string, SettingValues>; serial: string | null } {
+  const summaries: NightlyAggregate[] = [];
+  const settings = new Map<string, SettingValues>();
+  let serial: string | null = null;
+
+  try {
+    const edf = readEDF(strPath);
+    serial = edf.recording.match(/SRN=(\S+)/)?.[1] ?? null;
+    const duration = findSignal(edf, 'Duration');
+    if (!duration) {
+      errors.push('STR.edf has no Duration signal');
+      return { summaries, settings, serial };
+    }
 
-    const row: CPAPCSVRow = {
-      timestamp: values[headers.indexOf('timestamp')] || ''
+    const daily = (label: string, day: number) => {
+      const signal = edf.signals.find(s => s.label === label);
+      if (!signal || signal.samplesPerRecord < 1) return null;
+      const value = signal.values[day * signal.samplesPerRecord];
+      return value >= 0 ? value : null;
     };
+    const dailyLeak = (label: string, day: number) => {
+      const signal = edf.signals.find(s => s.label === label);
+      const value = daily(label, day);
+      return signal && value !== null ? toLitresPerMinute(signal, value) : null;
+    };
+
+    // A setting that is switched off reads as 0 rather than its last level
+    const dailyUnlessOff = (label: string, enable: string, day: number) =>
+      daily(enable, day) === 0 ? 0 : daily(label, day);
+
+    for (let day = 0; day < edf.numRecords; day++) {
+      const totalMinutes = daily('Duration', day);
+      if (!totalMinutes) continue;
+
+      const date = offsetTimestamp(edf.startTime, day * edf.recordDuration).split(' ')[0];
+      const maskOnMinutes = daily('OnDuration', day) ?? totalMinutes;
+      const hours = maskOnMinutes / 60;
+      const ahi = daily('AHI', day);
+      const ai = daily('AI', day);
+      const hi = daily('HI', day);
+
+      const modeValue = daily('Mode', day);
+      const mode = modeValue !== null ? RESMED_MODES[modeValue] ?? null : null;
+      const daySettings: SettingValues = {
+        mode,
+        // The machine keeps every mode's pressures; only the active mode's apply
+        pressure: mode === 'CPAP' || mode === null ? daily('S.C.Press', day) : null,
+        minPressure: mode !== 'CPAP' ? daily('S.AS.MinPress', day) ?? daily('S.A.MinPress', day) : null,
+        maxPressure: mode !== 'CPAP' ? daily('S.AS.MaxPress', day) ?? daily('S.A.MaxPress', day) : null,
+        epr: dailyUnlessOff('S.EPR.Level', 'S.EPR.EPREnable', day),
+        rampMinutes: dailyUnlessOff('S.RampTime', 'S.RampEnable', day),
+        humidity: dailyUnlessOff('S.HumLevel', 'S.HumEnable', day)
+      };
+      if (Object.values(daySettings).some(v => v !== null)) settings.set(date, daySettings);
+
+      summaries.push({
+        date,
+        total_usage_minutes: totalMinutes,
+        mask_on_minutes: maskOnMinutes,
+        median_pressure: daily('MaskPress.50', day),
+        min_pressure: null,
+        max_pressure: daily('MaskPress.Max', day),
+        pressure_95th_percentile: daily('MaskPress.95', day),
+        median_leak_rate: dailyLeak('Leak.50', day),
+        max_leak_rate: dailyLeak('Leak.Max', day),
+        leak_95th_percentile: dailyLeak('Leak.95', day),
+        large_leak_minutes: null,
+        large_leak_percent: null,
+        ahi,
+        apnea_count: ai !== null ? Math.round(ai * hours) : null,
+        hypopnea_count: hi !== null ? Math.round(hi * hours) : null,
+        total_events: ahi !== null ? Math.round(ahi * hours) : null,
+        oai: daily('OAI', day),
+        cai: daily('CAI', day),
+        hi,
+        rera_index: daily('RIN', day),
+        csr_minutes: daily('CSR', day),
+        median_flow_limitation: null,
+        max_flow_limitation: null,
+        sleep_quality_score: calculateSleepQualityScore({
+          ahi: ahi ?? 0,
+          largeLeakPercent: 0,
+          maskOnMinutes,
+          totalMinutes
+        })
+      });
+    }
+  } catch (error) {
+    errors.push(`STR.edf: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return { summaries, settings, serial };
+}
+
+// Collect each session's .001/.002/.005 files across the p0..p9 folders
+function readPRS1Sessions(pseriesDir: string, errors: string[]): Map<string, SessionData> {
+  const sessions = new Map<string, SessionData>();
+  const files = new Map<string, Record<number, string>>();
+  // Each machine on the card has its own serial-number folder
+  const devices = new Map<string, DeviceIdentity>();
+
+  for (const serial of fs.readdirSync(pseriesDir, { withFileTypes: true })) {
+    if (!serial.isDirectory()) continue;
+    const serialPath = path.join(pseriesDir, serial.name);
+    devices.set(serial.name, readPRS1Identity(serialPath, serial.name));
 
-    // Parse numeric fields
-    const numericFields = ['leak_rate', 'pressure', 'flow_limitation', 'mask_on', 'event_duration', 'event_severity'];
-    for (const field of numericFields) {
-      const idx = headers.indexOf(field);
-      if (idx !== -1 && values[idx]) {
-        (row as any)[field] = parseFloat(values[idx]) || 0;
+    for (const bucket of fs.readdirSync(serialPath, { withFileTypes: true })) {
+      if (!bucket.isDirectory() || !/^p\d+$/i.test(bucket.name)) continue;
+      const bucketPath = path.join(serialPath, bucket.name);
+
+      for (const file of fs.readdirSync(bucketPath)) {
+        const match = file.match(/^(\d+)\.(\d{3})$/);
+        if (!match) continue;
+        const key = `${serial.name}/${match[1]}`;
+        const kinds = files.get(key) || {};
+        kinds[parseInt(match[2], 10)] = path.join(bucketPath, file);
+        files.set(key, kinds);
       }
     }
+  }
 
-    // Parse string fields
-    const stringFields = ['event_type'];
-    for (const field of stringFields) {
-      const idx = headers.indexOf(field);
-      if (idx !== -1) {
-        (row as any)[field] = values[idx] || '';
+  // Decode every chunk of a file, reporting the ones that fail
+  const decodeFile = <T>(filePath: string, decode: (chunk: ReturnType<typeof readPRS1Chunks>['chunks'][number]) => T): T[] => {
+    const name = path.basename(filePath);
+    const { chunks, errors: chunkErrors } = readPRS1Chunks(fs.readFileSync(filePath));
+    errors.push(...chunkErrors.map(e => `${name}: ${e}`));
+
+    const decoded: T[] = [];
+    for (const chunk of chunks) {
+      try {
+        decoded.push(decode(chunk));
+      } catch (error) {
+        errors.push(`${name}: ${error instanceof Error ? error.message : error}`);
       }
     }
+    return decoded;
+  };
 
-    rows.push(row);
+  for (const [key, kinds] of files) {
+    const summaries: PRS1Summary[] = kinds[1] ? decodeFile(kinds[1], decodeSummaryChunk) : [];
+    const eventChunks = kinds[2] ? decodeFile(kinds[2], decodeEventChunk) : [];
+    const waveforms: PRS1Waveform[] = kinds[5] ? decodeFile(kinds[5], decodeWaveformChunk) : [];
+
+    const events = eventChunks.flatMap(c => c.events);
+    const statistics = eventChunks.flatMap(c => c.statistics);
+    const samples = samplesFromPRS1(statistics, waveforms, summaries[0]);
+    const waveformSignals = waveforms.flatMap(waveformsFromPRS1);
+    const machineSettings = summaries.find(s => s.settings)?.settings ?? undefined;
+    if (samples.length === 0 && events.length === 0) continue;
+
+    const firstTimestamp = samples[0]?.timestamp || formatEpochSeconds(events[0].time);
+    const sessionId = `${firstTimestamp.split(' ')[0]}-${uuidv4()}`;
+    sessions.set(sessionId, {
+      samples,
+      events: events.map((event: PRS1Event) => ({
+        timestamp: formatEpochSeconds(event.time),
+        event_type: event.type,
+        event_duration: event.duration
+      })),
+      waveforms: waveformSignals.length > 0 ? () => waveformSignals : undefined,
+      settings: machineSettings && { ...machineSettings, epr: null, rampMinutes: null, humidity: null },
+      device: devices.get(key.split('/')[0])
+    });
   }
 
-  return rows;
+  return sessions;
 }
 
-function groupBySession(rows: CPAPCSVRow[]) {
-  const sessions = new Map();
-  
-  // Simple session detection: group by date or continuous mask-on periods
-  for (const row of rows) {
-    const date = new Date(row.timestamp).toISOString().split('T')[0];
-    const sessionId = `${date}-${uuidv4()}`;
-    
-    if (!sessions.has(sessionId)) {
-      sessions.set(sessionId, {
-        samples: [],
-        events: []
+// properties.txt in the serial folder ("SerialNumber=...", "ModelNumber=...");
+// older cards name it PROP.TXT. The folder name is the serial if neither is there.
+function readPRS1Identity(serialPath: string, folderName: string): DeviceIdentity {
+  const fields = new Map<string, string>();
+  const propertiesPath = findEntry(serialPath, 'properties.txt', 0) ?? findEntry(serialPath, 'PROP.TXT', 0);
+  if (propertiesPath) {
+    for (const line of fs.readFileSync(propertiesPath, 'latin1').split(/\r?\n/)) {
+      const [name, ...value] = line.split('=');
+      if (value.length > 0) fields.set(name.trim(), value.join('=').trim());
+    }
+  }
+
+  return {
+    manufacturer: 'Philips Respironics',
+    model: fields.get('ModelNumber') || null,
+    serial: fields.get('SerialNumber') || folderName
+  };
+}
+
+// .005 chunk signals: flow in L/min (signed) and, when present, mask
+// pressure in 0.1 cmH2O steps (unsigned), as samplesFromPRS1 reads them
+function waveformsFromPRS1(waveform: PRS1Waveform): WaveformSignal[] {
+  const [flow, pressure] = waveform.signals;
+  const start = formatEpochSeconds(waveform.start);
+  const signals: WaveformSignal[] = [];
+
+  if (flow) {
+    signals.push({
+      channel: 'flow',
+      start,
+      sampleRate: flow.samplesPerInterval / waveform.intervalSeconds,
+      unit: 'L/min',
+      scale: 1,
+      offset: 0,
+      values: flow.values
+    });
+  }
+  if (pressure) {
+    signals.push({
+      channel: 'pressure',
+      start,
+      sampleRate: pressure.samplesPerInterval / waveform.intervalSeconds,
+      unit: 'cmH2O',
+      scale: 0.1,
+      offset: 0,
+      values: Array.from(pressure.values, v => (v & 0xff) / 10)
+    });
+  }
+  return signals;
+}
+
+// Merge event-file statistics (pressure, leak) with waveform pressure into one timeline
+function samplesFromPRS1(
+  statistics: PRS1Statistic[],
+  waveforms: PRS1Waveform[],
+  summary: PRS1Summary | undefined
+): CPAPCSVRow[] {
+  const points: PRS1Statistic[] = [...statistics];
+
+  for (const waveform of waveforms) {
+    // Second signal, when present, is mask pressure in 0.1 cmH2O steps
+    const pressure = waveform.signals[1];
+    if (!pressure) continue;
+
+    const intervals = pressure.values.length / pressure.samplesPerInterval;
+    for (let i = 0; i < intervals; i++) {
+      let sum = 0;
+      for (let j = 0; j < pressure.samplesPerInterval; j++) {
+        sum += pressure.values[i * pressure.samplesPerInterval + j] & 0xff;
+      }
+      points.push({
+        time: waveform.start + i * waveform.intervalSeconds,
+        pressure: sum / pressure.samplesPerInterval / 10
       });
     }
-    
-    const session = sessions.get(sessionId);
-    
-    // Separate samples from events
-    if (row.event_type) {
-      session.events.push(row);
+  }
+
+  points.sort((a, b) => a.time - b.time);
+
+  const isMaskOn = (time: number) => !summary || summary.maskOn.length === 0 ||
+    summary.maskOn.some(range => time >= range.start && time <= range.end);
+
+  const samples: CPAPCSVRow[] = [];
+  let pressure: number | undefined;
+  let leak: number | undefined;
+
+  for (const point of points) {
+    pressure = point.pressure ?? pressure;
+    leak = point.leak ?? leak;
+
+    const timestamp = formatEpochSeconds(point.time);
+    const sample: CPAPCSVRow = {
+      timestamp,
+      pressure,
+      leak_rate: leak,
+      mask_on: isMaskOn(point.time) ? 1 : 0
+    };
+
+    // Coalesce points that land on the same second
+    if (samples.length > 0 && samples[samples.length - 1].timestamp === timestamp) {
+      samples[samples.length - 1] = sample;
     } else {
-      session.samples.push(row);
+      samples.push(sample);
     }
   }
-  
-  return sessions;
+
+  return samples;
 }
 
-function calculateAggregates(sessionData: { samples: CPAPCSVRow[], events: CPAPCSVRow[] }) {
+// PRS1 timestamps are the device's local clock expressed as epoch seconds
+function formatEpochSeconds(seconds: number): string {
+  return formatNaive(seconds * 1000);
+}
+
+function calculateAggregates(date: string, sessionData: SessionData, timeZone?: string): NightlyAggregate | null {
   const { samples, events } = sessionData;
   
   if (samples.length === 0) return null;
   
   // Sort samples by timestamp
-  samples.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-  
-  const firstTimestamp = new Date(samples[0].timestamp);
-  const lastTimestamp = new Date(samples[samples.length - 1].timestamp);
-  const date = firstTimestamp.toISOString().split('T')[0];
+  samples.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
   
-  // Calculate usage
-  const totalMinutes = (lastTimestamp.getTime() - firstTimestamp.getTime()) / (1000 * 60);
-  const maskOnSamples = samples.filter(s => s.mask_on === 1);
-  const maskOnMinutes = maskOnSamples.length > 0 ? 
-    (maskOnSamples.length / samples.length) * totalMinutes : 0;
+  // Each sample stands for the time until the next one (gaps in the data and
+  // between sessions excluded), measured in the device's zone so DST nights are correct
+  const timestamps = samples.map(s => s.timestamp);
+  const durations = sampleDurations(timestamps, detectSamplingInterval(timestamps, timeZone), timeZone);
+  const minutesWhere = (predicate: (sample: CPAPCSVRow) => boolean) =>
+    samples.reduce((seconds, sample, i) => predicate(sample) ? seconds + durations[i] : seconds, 0) / 60;
+
+  // Calculate usage; a missing mask_on counts as mask on
+  const totalMinutes = minutesWhere(() => true);
+  const maskOnMinutes = minutesWhere(s => s.mask_on !== 0);
   
   // Pressure calculations
-  const pressures = samples.filter(s => s.pressure !== undefined).map(s => s.pressure!);
+  const pressures = samples.filter(s => s.pressure != null).map(s => s.pressure!);
   const medianPressure = calculateMedian(pressures);
   const minPressure = Math.min(...pressures);
   const maxPressure = Math.max(...pressures);
   const pressure95th = calculatePercentile(pressures, 0.95);
   
   // Leak calculations
-  const leaks = samples.filter(s => s.leak_rate !== undefined).map(s => s.leak_rate!);
+  const leaks = samples.filter(s => s.leak_rate != null).map(s => s.leak_rate!);
   const medianLeak = calculateMedian(leaks);
   const maxLeak = Math.max(...leaks);
   const leak95th = calculatePercentile(leaks, 0.95);
   
   // Large leak threshold (typically > 24 L/min)
   const largeLeakThreshold = 24;
-  const largeLeakSamples = leaks.filter(l => l > largeLeakThreshold);
-  const largeLeakMinutes = largeLeakSamples.length > 0 ? 
-    (largeLeakSamples.length / samples.length) * totalMinutes : 0;
-  const largeLeakPercent = (largeLeakMinutes / totalMinutes) * 100;
+  const largeLeakMinutes = minutesWhere(s => s.leak_rate != null && s.leak_rate > largeLeakThreshold);
+  const largeLeakPercent = totalMinutes > 0 ? (largeLeakMinutes / totalMinutes) * 100 : 0;
   
-  // Event calculations
-  const apneaEvents = events.filter(e => e.event_type?.toLowerCase().includes('apnea'));
-  const hypopneaEvents = events.filter(e => e.event_type?.toLowerCase().includes('hypopnea'));
-  const totalEvents = events.length;
+  // Event calculations, by canonical type; leaks, snores and flow limitation
+  // don't count towards the AHI
+  const countOf = (types: readonly EventType[]) =>
+    events.filter(e => e.normalized_type && types.includes(e.normalized_type)).length;
+  const apneaCount = countOf(APNEA_TYPES);
+  const hypopneaCount = countOf(['H']);
+  const totalEvents = countOf(AHI_TYPES);
+  const csrSeconds = events
+    .filter(e => e.normalized_type === 'CSR')
+    .reduce((seconds, e) => seconds + (e.event_duration ?? 0), 0);
   
-  // Calculate AHI (events per hour)
+  // Calculate AHI and per-type indices (events per hour)
   const usageHours = maskOnMinutes / 60;
-  const ahi = usageHours > 0 ? totalEvents / usageHours : 0;
+  const perHour = (count: number) => usageHours > 0 ? count / usageHours : 0;
+  const ahi = perHour(totalEvents);
   
   // Flow limitation calculations
-  const flowLimitations = samples.filter(s => s.flow_limitation !== undefined).map(s => s.flow_limitation!);
+  const flowLimitations = samples.filter(s => s.flow_limitation != null).map(s => s.flow_limitation!);
   const medianFlow = calculateMedian(flowLimitations);
   const maxFlow = Math.max(...flowLimitations);
   
@@ -277,7 +2256,6 @@ function calculateAggregates(sessionData: { samples: CPAPCSVRow[], events: CPAPC
   
   return {
     date,
-    session_id: '', // Will be filled by caller
     total_usage_minutes: totalMinutes,
     mask_on_minutes: maskOnMinutes,
     median_pressure: medianPressure,
@@ -290,9 +2268,14 @@ function calculateAggregates(sessionData: { samples: CPAPCSVRow[], events: CPAPC
     large_leak_minutes: largeLeakMinutes,
     large_leak_percent: largeLeakPercent,
     ahi,
-    apnea_count: apneaEvents.length,
-    hypopnea_count: hypopneaEvents.length,
+    apnea_count: apneaCount,
+    hypopnea_count: hypopneaCount,
     total_events: totalEvents,
+    oai: perHour(countOf(['OA'])),
+    cai: perHour(countOf(['CA'])),
+    hi: perHour(hypopneaCount),
+    rera_index: perHour(countOf(['RERA'])),
+    csr_minutes: csrSeconds / 60,
     median_flow_limitation: medianFlow,
     max_flow_limitation: maxFlow,
     sleep_quality_score: sleepQualityScore
@@ -314,7 +2297,7 @@ function calculatePercentile(values: number[], percentile: number): number {
   return sorted[index];
 }
 
-function calculateSleepQualityScore(metrics: {
+export function calculateSleepQualityScore(metrics: {
   ahi: number;
   largeLeakPercent: number;
   maskOnMinutes: number;
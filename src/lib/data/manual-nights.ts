@@ -0,0 +1,144 @@
+import { getDatabase } from '@/lib/db';
+import { calculateSleepQualityScore } from './ingest';
+
+// Nights typed in by hand, for machines that only show their numbers on the
+// display. Each is stored as the night's all-devices nightly_aggregates row
+// with provenance 'manual'; importing data for the night replaces it.
+
+export interface ManualNightValues {
+  usageMinutes: number;
+  ahi: number | null;
+  leakRate: number | null;         // L/min, as the display shows it
+  largeLeakPercent: number | null;
+  pressure: number | null;         // cmH2O, stored as the median pressure
+}
+
+export interface ManualNight extends ManualNightValues {
+  date: string; // sleep day
+  sleepQualityScore: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ManualNightRow {
+  date: string;
+  total_usage_minutes: number;
+  ahi: number | null;
+  median_leak_rate: number | null;
+  large_leak_percent: number | null;
+  median_pressure: number | null;
+  sleep_quality_score: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Most recent first
+export function listManualNights(userId: number, range?: { start: string; end: string }): ManualNight[] {
+  const rows = getDatabase().prepare(`
+    SELECT * FROM nightly_aggregates
+    WHERE user_id = ? AND provenance = 'manual' AND date >= ? AND date <= ?
+    ORDER BY date DESC
+  `).all(userId, range?.start ?? '0000-00-00', range?.end ?? '9999-99-99') as ManualNightRow[];
+  return rows.map(toManualNight);
+}
+
+export function getManualNight(userId: number, date: string): ManualNight | null {
+  const row = getDatabase().prepare(`
+    SELECT * FROM nightly_aggregates WHERE user_id = ? AND date = ? AND provenance = 'manual'
+  `).get(userId, date) as ManualNightRow | undefined;
+  return row ? toManualNight(row) : null;
+}
+
+// Create or replace the entry for a sleep day. Nights that already have
+// imported data can't be overwritten by hand.
+export function saveManualNight(userId: number, date: string, values: ManualNightValues): ManualNight {
+  validateManualNight(date, values);
+
+  const db = getDatabase();
+  const existing = db.prepare(`
+    SELECT provenance FROM nightly_aggregates WHERE user_id = ? AND date = ? AND device_id IS NULL
+  `).get(userId, date) as { provenance: string } | undefined;
+  if (existing && existing.provenance !== 'manual') {
+    throw new Error(`${date} already has imported data`);
+  }
+
+  const score = calculateSleepQualityScore({
+    ahi: values.ahi ?? 0,
+    largeLeakPercent: values.largeLeakPercent ?? 0,
+    maskOnMinutes: values.usageMinutes,
+    totalMinutes: values.usageMinutes
+  });
+  const params = [
+    values.usageMinutes,
+    values.usageMinutes,
+    values.ahi,
+    values.leakRate,
+    values.largeLeakPercent,
+    values.pressure,
+    score
+  ];
+
+  if (existing) {
+    db.prepare(`
+      UPDATE nightly_aggregates SET
+        total_usage_minutes = ?, mask_on_minutes = ?, ahi = ?, median_leak_rate = ?,
+        large_leak_percent = ?, median_pressure = ?, sleep_quality_score = ?,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE user_id = ? AND date = ? AND provenance = 'manual'
+    `).run(...params, userId, date);
+  } else {
+    db.prepare(`
+      INSERT INTO nightly_aggregates (
+        user_id, date, provenance, total_usage_minutes, mask_on_minutes, ahi, median_leak_rate,
+        large_leak_percent, median_pressure, sleep_quality_score
+      ) VALUES (?, ?, 'manual', ?, ?, ?, ?, ?, ?, ?)
+    `).run(userId, date, ...params);
+  }
+
+  return getManualNight(userId, date)!;
+}
+
+// Imported nights are removed by undoing their import
+export function deleteManualNight(userId: number, date: string): boolean {
+  return getDatabase().prepare(`
+    DELETE FROM nightly_aggregates WHERE user_id = ? AND date = ? AND provenance = 'manual'
+  `).run(userId, date).changes > 0;
+}
+
+export function validateManualNight(date: string, values: ManualNightValues) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    throw new Error('Date must be a YYYY-MM-DD sleep day');
+  }
+
+  const inRange = (value: number | null, min: number, max: number) =>
+    value === null || (Number.isFinite(value) && value >= min && value <= max);
+  if (values.usageMinutes === null || !inRange(values.usageMinutes, 1, 24 * 60)) {
+    throw new Error('Usage must be between 1 minute and 24 hours');
+  }
+  if (!inRange(values.ahi, 0, 150)) {
+    throw new Error('AHI must be between 0 and 150 events/hour');
+  }
+  if (!inRange(values.leakRate, 0, 200)) {
+    throw new Error('Leak rate must be between 0 and 200 L/min');
+  }
+  if (!inRange(values.largeLeakPercent, 0, 100)) {
+    throw new Error('Large leak must be between 0 and 100%');
+  }
+  if (!inRange(values.pressure, 0, 30)) {
+    throw new Error('Pressure must be between 0 and 30 cmH2O');
+  }
+}
+
+function toManualNight(row: ManualNightRow): ManualNight {
+  return {
+    date: row.date,
+    usageMinutes: row.total_usage_minutes,
+    ahi: row.ahi,
+    leakRate: row.median_leak_rate,
+    largeLeakPercent: row.large_leak_percent,
+    pressure: row.median_pressure,
+    sleepQualityScore: row.sleep_quality_score,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
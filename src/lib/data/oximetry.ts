@@ -0,0 +1,181 @@
+import { naiveMillis, formatNaive } from './time';
+import { detectSamplingInterval, sampleDurations } from './sessions';
+
+// Overnight pulse oximetry: Wellue/Viatom binary recordings and the nightly
+// SpO2 and pulse metrics stored alongside the CPAP aggregates. Oximeter CSV
+// exports (Viatom, Contec) are mapped in csv-formats. No file system access
+// here: the upload page uses these helpers too.
+
+export interface OximetrySample {
+  timestamp: string;
+  spo2: number | null;       // %
+  pulse_rate: number | null; // bpm
+}
+
+export interface OximetryMetrics {
+  odi_3: number | null;
+  odi_4: number | null;
+  t90_minutes: number | null;
+  min_spo2: number | null;
+  median_spo2: number | null;
+  min_pulse_rate: number | null;
+  median_pulse_rate: number | null;
+  max_pulse_rate: number | null;
+}
+
+// Oximeters write 0, 127 or 255 when the finger is out or the reading is lost
+export function validSpO2(value: number | null | undefined): number | null {
+  return value != null && value >= 50 && value <= 100 ? value : null;
+}
+
+export function validPulseRate(value: number | null | undefined): number | null {
+  return value != null && value >= 25 && value <= 250 ? value : null;
+}
+
+// Wellue/Viatom (O2Ring, Checkme O2, ...) recording, as copied from the
+// ViHealth app or O2 Insight. Little endian, as read by OSCAR's Viatom loader:
+//   0  uint16 file version (3, 5 or 6)
+//   2  uint16 year, then month, day, hour, minute, second bytes: start (device clock)
+//   9  uint32 file size
+//  13  uint16 recording duration in seconds
+// followed from byte 40 by 5-byte records: SpO2, pulse rate, and three bytes
+// (invalid flag, motion, vibration) we don't use.
+const VIATOM_HEADER_SIZE = 40;
+const VIATOM_RECORD_SIZE = 5;
+const VIATOM_VERSIONS = [3, 5, 6];
+const VIATOM_DEFAULT_INTERVAL = 4;
+
+// ViHealth names recordings by their start time, e.g. 20240112221504
+const VIATOM_FILE_NAME = /^\d{14}(\.dat)?$/i;
+
+export function isViatomFileName(fileName: string): boolean {
+  return VIATOM_FILE_NAME.test(fileName.split(/[\\/]/).pop() ?? '');
+}
+
+export function isViatomFile(buffer: Buffer): boolean {
+  if (buffer.length < VIATOM_HEADER_SIZE) return false;
+  const year = buffer.readUInt16LE(2);
+  const month = buffer[4];
+  const day = buffer[5];
+  return VIATOM_VERSIONS.includes(buffer.readUInt16LE(0)) &&
+    year >= 2000 && year <= 2100 && month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+export function parseViatomFile(buffer: Buffer): OximetrySample[] {
+  if (!isViatomFile(buffer)) {
+    throw new Error('Not a Viatom oximetry recording (bad header)');
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const start = `${buffer.readUInt16LE(2)}-${pad(buffer[4])}-${pad(buffer[5])} ` +
+    `${pad(buffer[6])}:${pad(buffer[7])}:${pad(buffer[8])}`;
+  const duration = buffer.readUInt16LE(13);
+  const count = Math.floor((buffer.length - VIATOM_HEADER_SIZE) / VIATOM_RECORD_SIZE);
+  const interval = count > 0 && duration > 0 ?
+    Math.max(1, Math.round(duration / count)) : VIATOM_DEFAULT_INTERVAL;
+  const startMillis = naiveMillis(start);
+
+  const samples: OximetrySample[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = VIATOM_HEADER_SIZE + i * VIATOM_RECORD_SIZE;
+    samples.push({
+      timestamp: formatNaive(startMillis + i * interval * 1000),
+      spo2: validSpO2(buffer[offset]),
+      pulse_rate: validPulseRate(buffer[offset + 1])
+    });
+  }
+  return samples;
+}
+
+// A desaturation is SpO2 at least `drop` points below the highest reading of
+// the previous two minutes, lasting at least 10 seconds. It ends once SpO2 is
+// back within `drop` points of that baseline.
+const BASELINE_WINDOW_MS = 120 * 1000;
+const MIN_DESATURATION_MS = 10 * 1000;
+
+function countDesaturations(
+  readings: Array<{ millis: number; spo2: number }>,
+  drop: number,
+  intervalSeconds: number
+): number {
+  let count = 0;
+  let windowStart = 0;
+  let belowSince: number | null = null;
+  let eventBaseline: number | null = null;
+
+  readings.forEach(({ millis, spo2 }, i) => {
+    while (windowStart < i && readings[windowStart].millis < millis - BASELINE_WINDOW_MS) windowStart++;
+    if (windowStart === i) return;
+
+    if (eventBaseline !== null) {
+      if (eventBaseline - spo2 < drop) eventBaseline = null;
+      return;
+    }
+
+    let baseline = 0;
+    for (let j = windowStart; j < i; j++) baseline = Math.max(baseline, readings[j].spo2);
+
+    if (baseline - spo2 < drop) {
+      belowSince = null;
+      return;
+    }
+
+    belowSince ??= millis;
+    if (millis - belowSince + intervalSeconds * 1000 >= MIN_DESATURATION_MS) {
+      count++;
+      eventBaseline = baseline;
+      belowSince = null;
+    }
+  });
+
+  return count;
+}
+
+// Nightly metrics from one night's samples (sorted by timestamp). ODI is per
+// hour of valid SpO2 recording; T90 is the time spent below 90%.
+export function calculateOximetryMetrics(samples: OximetrySample[], timeZone?: string): OximetryMetrics | null {
+  const timestamps = samples.map(s => s.timestamp);
+  const interval = detectSamplingInterval(timestamps, timeZone);
+  const durations = sampleDurations(timestamps, interval, timeZone);
+
+  const readings: Array<{ millis: number; spo2: number }> = [];
+  let recordedSeconds = 0;
+  let below90Seconds = 0;
+  samples.forEach((sample, i) => {
+    if (sample.spo2 === null) return;
+    readings.push({ millis: naiveMillis(sample.timestamp), spo2: sample.spo2 });
+    recordedSeconds += durations[i];
+    if (sample.spo2 < 90) below90Seconds += durations[i];
+  });
+
+  const spo2 = readings.map(r => r.spo2);
+  const pulse = samples.map(s => s.pulse_rate).filter((v): v is number => v !== null);
+  if (spo2.length === 0 && pulse.length === 0) return null;
+
+  const hours = recordedSeconds / 3600;
+  const odi = (drop: number) =>
+    hours > 0 ? countDesaturations(readings, drop, interval ?? VIATOM_DEFAULT_INTERVAL) / hours : null;
+
+  // reduce rather than spreading a night of readings into Math.min/max, which
+  // can exceed the engine's argument limit
+  const min = (values: number[]) => values.length > 0 ? values.reduce((a, b) => Math.min(a, b)) : null;
+  const max = (values: number[]) => values.length > 0 ? values.reduce((a, b) => Math.max(a, b)) : null;
+
+  return {
+    odi_3: odi(3),
+    odi_4: odi(4),
+    t90_minutes: spo2.length > 0 ? below90Seconds / 60 : null,
+    min_spo2: min(spo2),
+    median_spo2: median(spo2),
+    min_pulse_rate: min(pulse),
+    median_pulse_rate: median(pulse),
+    max_pulse_rate: max(pulse)
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
@@ -0,0 +1,352 @@
+import type { TherapyMode } from './therapy-settings';
+
+// Philips Respironics PRS1 (System One / DreamStation) chunk decoder.
+//
+// A P-Series card holds P-Series/<serial>/p<N>/<session>.00X files. Each file is a
+// sequence of chunks: a header (with checksum), a data block and a trailing CRC.
+// .001 = summary, .002 = events, .005 = waveforms.
+
+export interface PRS1Chunk {
+  offset: number;
+  fileVersion: number;
+  htype: number; // 0 = normal, 1 = interleaved waveform
+  family: number;
+  familyVersion: number;
+  ext: number;
+  sessionId: number;
+  timestamp: number; // seconds since epoch, device-local clock
+  // fileVersion 3: record code -> record size
+  hblock: Map<number, number> | null;
+  waveform: {
+    intervalCount: number;
+    intervalSeconds: number;
+    signals: Array<{ kind: number; interleave: number }>;
+  } | null;
+  data: Buffer;
+}
+
+export interface PRS1Event {
+  time: number;
+  type: string;
+  duration?: number;
+}
+
+export interface PRS1Statistic {
+  time: number;
+  pressure?: number;
+  leak?: number;
+}
+
+export interface PRS1Summary {
+  start: number;
+  end: number;
+  maskOn: Array<{ start: number; end: number }>;
+  settings: PRS1Settings | null;
+}
+
+// Pressures in cmH2O
+export interface PRS1Settings {
+  mode: TherapyMode | null;
+  pressure: number | null;
+  minPressure: number | null;
+  maxPressure: number | null;
+}
+
+export interface PRS1Waveform {
+  start: number;
+  intervalSeconds: number;
+  signals: Array<{ kind: number; samplesPerInterval: number; values: Int8Array }>;
+}
+
+function chunkError(chunk: { offset: number; ext: number }, message: string): Error {
+  return new Error(`chunk @${chunk.offset} (.${String(chunk.ext).padStart(3, '0')}): ${message}`);
+}
+
+const SUMMARY_EXT = 1;
+const EVENT_EXT = 2;
+const WAVEFORM_EXT = 5;
+
+// Split a PRS1 file into chunks. Chunks with a bad header are reported and skipped
+// when their declared size lets us find the next one.
+export function readPRS1Chunks(buffer: Buffer): { chunks: PRS1Chunk[]; errors: string[] } {
+  const chunks: PRS1Chunk[] = [];
+  const errors: string[] = [];
+  let offset = 0;
+
+  while (offset + 16 <= buffer.length) {
+    const fileVersion = buffer[offset];
+    const blockSize = buffer.readUInt16LE(offset + 1);
+
+    if (blockSize < 16 || offset + blockSize > buffer.length) {
+      errors.push(`chunk @${offset}: invalid block size ${blockSize}, stopping`);
+      break;
+    }
+
+    try {
+      chunks.push(parseChunk(buffer.subarray(offset, offset + blockSize), offset));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    if (fileVersion !== 2 && fileVersion !== 3) {
+      // Without a known layout the block size cannot be trusted either
+      break;
+    }
+    offset += blockSize;
+  }
+
+  return { chunks, errors };
+}
+
+function parseChunk(block: Buffer, offset: number): PRS1Chunk {
+  const fileVersion = block[0];
+  const ext = block[6];
+  const where = { offset, ext };
+
+  if (fileVersion !== 2 && fileVersion !== 3) {
+    throw chunkError(where, `unsupported file version ${fileVersion}`);
+  }
+
+  const htype = block[3];
+  let pos = 15;
+
+  let waveform: PRS1Chunk['waveform'] = null;
+  if (htype === 1) {
+    const intervalCount = block.readUInt16LE(pos);
+    const intervalSeconds = block[pos + 2];
+    const count = block[pos + 3];
+    pos += 4;
+    const signals = [];
+    for (let i = 0; i < count; i++) {
+      signals.push({ kind: block[pos], interleave: block.readUInt16LE(pos + 1) });
+      pos += 3;
+    }
+    waveform = { intervalCount, intervalSeconds, signals };
+  }
+
+  let hblock: Map<number, number> | null = null;
+  if (fileVersion === 3 && htype === 0) {
+    const count = block[pos++];
+    hblock = new Map();
+    for (let i = 0; i < count; i++) {
+      hblock.set(block[pos], block[pos + 1]);
+      pos += 2;
+    }
+  }
+
+  // 8-bit additive checksum over the header
+  let sum = 0;
+  for (let i = 0; i < pos; i++) sum = (sum + block[i]) & 0xff;
+  if (pos >= block.length || sum !== block[pos]) {
+    throw chunkError(where, 'header checksum mismatch');
+  }
+  pos++;
+
+  const crcLength = fileVersion === 3 ? 4 : 2;
+  if (pos > block.length - crcLength) {
+    throw chunkError(where, 'chunk shorter than its header');
+  }
+
+  return {
+    offset,
+    fileVersion,
+    htype,
+    family: block[4],
+    familyVersion: block[5],
+    ext,
+    sessionId: block.readUInt32LE(7),
+    timestamp: block.readUInt32LE(11),
+    hblock,
+    waveform,
+    data: block.subarray(pos, block.length - crcLength)
+  };
+}
+
+// Family 0 (CPAP/APAP) event codes. Events are reported when they end, so
+// durations are subtracted to get the start time.
+const EVENT_CODES: Record<number, { type: string; duration?: 'u8' | 'u16' }> = {
+  0x04: { type: 'Pressure Pulse' },
+  0x05: { type: 'RERA' },
+  0x06: { type: 'Obstructive Apnea', duration: 'u8' },
+  0x07: { type: 'Clear Airway', duration: 'u8' },
+  0x0a: { type: 'Hypopnea' },
+  0x0b: { type: 'Hypopnea', duration: 'u8' },
+  0x0c: { type: 'Flow Limitation' },
+  0x0d: { type: 'Vibratory Snore' },
+  0x0f: { type: 'Periodic Breathing', duration: 'u16' },
+  0x10: { type: 'Large Leak', duration: 'u16' }
+};
+const PRESSURE_SET = 0x01;
+const durationBytes = (kind?: 'u8' | 'u16') => kind === 'u16' ? 2 : kind === 'u8' ? 1 : 0;
+const STATISTICS = 0x11;
+
+export function decodeEventChunk(chunk: PRS1Chunk): { events: PRS1Event[]; statistics: PRS1Statistic[] } {
+  assertDecodable(chunk, EVENT_EXT);
+
+  const events: PRS1Event[] = [];
+  const statistics: PRS1Statistic[] = [];
+  const { data } = chunk;
+  let time = chunk.timestamp;
+  let pos = 0;
+
+  while (pos < data.length) {
+    const code = data[pos];
+    const size = chunk.hblock!.get(code);
+    if (size === undefined || size < 2 || pos + 1 + size > data.length) {
+      throw chunkError(chunk, `unknown or truncated event code 0x${code.toString(16)} at offset ${pos}`);
+    }
+
+    const record = data.subarray(pos + 1, pos + 1 + size);
+    time += record.readUInt16LE(0);
+
+    if (code === PRESSURE_SET && size >= 3) {
+      statistics.push({ time, pressure: record[2] / 10 });
+    } else if (code === STATISTICS && size >= 3) {
+      statistics.push({ time, leak: record[2] });
+    } else if (EVENT_CODES[code] && size >= 2 + durationBytes(EVENT_CODES[code].duration)) {
+      const spec = EVENT_CODES[code];
+      const duration = spec.duration === 'u8' ? record[2] :
+        spec.duration === 'u16' ? record.readUInt16LE(2) : undefined;
+      events.push({
+        time: duration !== undefined ? time - duration : time,
+        type: spec.type,
+        duration
+      });
+    }
+
+    pos += 1 + size;
+  }
+
+  return { events, statistics };
+}
+
+// Summary slices: 0x00 equipment on (with the settings on DreamStation),
+// 0x01 mask on / 0x02 mask off, each with an elapsed-time field
+const EQUIPMENT_ON = 0x00;
+const MASK_ON = 0x01;
+const MASK_OFF = 0x02;
+
+// DreamStation (family 0, version 6) settings: code, length, value records.
+// Only the mode and pressures are decoded; pressures are in 0.1 cmH2O.
+const SETTING_MODE = 0x00;
+const SETTING_CPAP_PRESSURE = 0x0a;
+const SETTING_AUTO_PRESSURES = 0x0c;
+const PRS1_MODES: Record<number, TherapyMode> = { 0: 'CPAP', 1: 'BiLevel', 2: 'APAP', 3: 'BiLevel' };
+
+function decodeSettings(record: Buffer): PRS1Settings {
+  const settings: PRS1Settings = { mode: null, pressure: null, minPressure: null, maxPressure: null };
+  let pos = 0;
+
+  while (pos + 2 <= record.length) {
+    const code = record[pos];
+    const length = record[pos + 1];
+    const value = record.subarray(pos + 2, pos + 2 + length);
+    if (value.length < length) break;
+
+    if (code === SETTING_MODE && length >= 1) {
+      settings.mode = PRS1_MODES[value[0]] ?? null;
+    } else if (code === SETTING_CPAP_PRESSURE && length >= 1) {
+      settings.pressure = value[0] / 10;
+    } else if (code === SETTING_AUTO_PRESSURES && length >= 2) {
+      settings.minPressure = value[0] / 10;
+      settings.maxPressure = value[1] / 10;
+    }
+
+    pos += 2 + length;
+  }
+
+  // The machine keeps the pressures of the modes it isn't running in
+  if (settings.mode === 'CPAP') {
+    settings.minPressure = null;
+    settings.maxPressure = null;
+  } else if (settings.mode !== null) {
+    settings.pressure = null;
+  }
+
+  return settings;
+}
+
+export function decodeSummaryChunk(chunk: PRS1Chunk): PRS1Summary {
+  assertDecodable(chunk, SUMMARY_EXT);
+
+  const maskOn: PRS1Summary['maskOn'] = [];
+  const { data } = chunk;
+  let time = chunk.timestamp;
+  let openedAt: number | null = null;
+  let settings: PRS1Settings | null = null;
+  let pos = 0;
+
+  while (pos < data.length) {
+    const code = data[pos];
+    const size = chunk.hblock!.get(code);
+    if (size === undefined || pos + 1 + size > data.length) {
+      throw chunkError(chunk, `unknown or truncated summary code 0x${code.toString(16)} at offset ${pos}`);
+    }
+
+    const record = data.subarray(pos + 1, pos + 1 + size);
+    if (code === EQUIPMENT_ON && chunk.family === 0 && chunk.familyVersion === 6) {
+      settings = decodeSettings(record);
+    } else if ((code === MASK_ON || code === MASK_OFF) && size >= 2) {
+      time += record.readUInt16LE(0);
+      if (code === MASK_ON) {
+        openedAt = time;
+      } else if (openedAt !== null) {
+        maskOn.push({ start: openedAt, end: time });
+        openedAt = null;
+      }
+    }
+
+    pos += 1 + size;
+  }
+
+  if (openedAt !== null) maskOn.push({ start: openedAt, end: time });
+
+  return {
+    start: chunk.timestamp,
+    end: maskOn.length > 0 ? maskOn[maskOn.length - 1].end : time,
+    maskOn,
+    settings
+  };
+}
+
+export function decodeWaveformChunk(chunk: PRS1Chunk): PRS1Waveform {
+  if (chunk.ext !== WAVEFORM_EXT || !chunk.waveform) {
+    throw chunkError(chunk, 'not a waveform chunk');
+  }
+
+  const { intervalCount, intervalSeconds, signals } = chunk.waveform;
+  const perInterval = signals.reduce((sum, s) => sum + s.interleave, 0);
+  const expected = intervalCount * perInterval;
+  if (perInterval === 0 || chunk.data.length < expected) {
+    throw chunkError(chunk, `waveform data has ${chunk.data.length} bytes, expected ${expected}`);
+  }
+
+  const decoded = signals.map(s => ({
+    kind: s.kind,
+    samplesPerInterval: s.interleave,
+    values: new Int8Array(intervalCount * s.interleave)
+  }));
+
+  let pos = 0;
+  for (let i = 0; i < intervalCount; i++) {
+    for (const signal of decoded) {
+      for (let j = 0; j < signal.samplesPerInterval; j++) {
+        signal.values[i * signal.samplesPerInterval + j] = chunk.data.readInt8(pos++);
+      }
+    }
+  }
+
+  return { start: chunk.timestamp, intervalSeconds, signals: decoded };
+}
+
+function assertDecodable(chunk: PRS1Chunk, ext: number) {
+  if (chunk.ext !== ext) {
+    throw chunkError(chunk, `expected .00${ext} chunk`);
+  }
+  if (chunk.family !== 0) {
+    throw chunkError(chunk, `unsupported device family ${chunk.family} (version ${chunk.familyVersion})`);
+  }
+  if (!chunk.hblock) {
+    throw chunkError(chunk, `unsupported file version ${chunk.fileVersion} for family ${chunk.family}`);
+  }
+}
@@ -0,0 +1,126 @@
+import { naiveMillis, formatNaive, formatInTimeZone, elapsedMinutes, addDays } from './time';
+
+// Split a night's samples into therapy sessions and assign them to a sleep day.
+//
+// A session is a run of mask-on samples from one machine; it ends at a
+// mask-off sample, when consecutive samples are further apart than the gap
+// threshold, or when the next sample is from another device. A sleep day
+// runs from the boundary hour (default noon) to the same wall-clock hour the
+// next day, so a night from 22:00 to 06:00 is one day.
+
+export const DEFAULT_SESSION_GAP_MINUTES = 15;
+export const DEFAULT_SLEEP_DAY_START_HOUR = 12;
+
+// A delta longer than this many sampling intervals is a gap in the data
+export const MAX_GAP_INTERVALS = 3;
+
+export interface SessionOptions {
+  sessionGapMinutes?: number;
+  // IANA zone the device clock follows, for DST-correct durations
+  timeZone?: string;
+}
+
+export interface SessionSegment {
+  start: string;
+  end: string;
+  // Time covered by the session's samples (gaps in the data excluded)
+  durationMinutes: number;
+  samplingIntervalSeconds: number | null;
+  sampleCount: number;
+  deviceId: number | null; // null if no sample names its device
+}
+
+interface SegmentSample {
+  timestamp: string;
+  mask_on?: number | null;
+  // Samples without a device join the session they fall in
+  device_id?: number | null;
+}
+
+const HOUR = 3600 * 1000;
+
+// Sleep days are decided on wall-clock time, so they don't move with DST or travel
+export function sleepDayOf(timestamp: string, startHour = DEFAULT_SLEEP_DAY_START_HOUR): string {
+  return formatNaive(naiveMillis(timestamp) - startHour * HOUR).substring(0, 10);
+}
+
+// Half-open [start, end) timestamp range covered by a sleep day
+export function sleepDayBounds(
+  day: string,
+  startHour = DEFAULT_SLEEP_DAY_START_HOUR
+): { start: string; end: string } {
+  const hour = `${String(startHour).padStart(2, '0')}:00:00`;
+  return { start: `${day} ${hour}`, end: `${addDays(day, 1)} ${hour}` };
+}
+
+// The sleep day in progress right now in a zone (before the boundary hour it's still last night)
+export function currentSleepDay(timeZone: string, startHour = DEFAULT_SLEEP_DAY_START_HOUR): string {
+  return sleepDayOf(formatInTimeZone(new Date(), timeZone), startHour);
+}
+
+// Samples must be sorted by timestamp. A missing mask_on counts as mask on.
+export function segmentSessions(samples: SegmentSample[], options: SessionOptions = {}): SessionSegment[] {
+  const maxGap = options.sessionGapMinutes ?? DEFAULT_SESSION_GAP_MINUTES;
+  const runs: Array<{ timestamps: string[]; deviceId: number | null }> = [];
+  let current: { timestamps: string[]; deviceId: number | null } | null = null;
+
+  for (const sample of samples) {
+    if (sample.mask_on === 0) {
+      current = null;
+      continue;
+    }
+
+    const deviceId = sample.device_id ?? null;
+    if (
+      !current ||
+      elapsedMinutes(current.timestamps[current.timestamps.length - 1], sample.timestamp, options.timeZone) > maxGap ||
+      (deviceId !== null && current.deviceId !== null && deviceId !== current.deviceId)
+    ) {
+      current = { timestamps: [], deviceId: null };
+      runs.push(current);
+    }
+
+    current.timestamps.push(sample.timestamp);
+    current.deviceId ??= deviceId;
+  }
+
+  return runs.map(({ timestamps, deviceId }) => {
+    const interval = detectSamplingInterval(timestamps, options.timeZone);
+    const seconds = sampleDurations(timestamps, interval, options.timeZone).reduce((a, b) => a + b, 0);
+    return {
+      start: timestamps[0],
+      end: timestamps[timestamps.length - 1],
+      durationMinutes: seconds / 60,
+      samplingIntervalSeconds: interval,
+      sampleCount: timestamps.length,
+      deviceId
+    };
+  });
+}
+
+// Median spacing of consecutive samples in seconds; null with fewer than two
+export function detectSamplingInterval(timestamps: string[], timeZone?: string): number | null {
+  const deltas: number[] = [];
+  for (let i = 1; i < timestamps.length; i++) {
+    const delta = elapsedMinutes(timestamps[i - 1], timestamps[i], timeZone) * 60;
+    if (delta > 0) deltas.push(delta);
+  }
+  if (deltas.length === 0) return null;
+
+  deltas.sort((a, b) => a - b);
+  return deltas[Math.floor(deltas.length / 2)];
+}
+
+// Seconds each sample stands for: the time until the next sample, but a delta
+// longer than MAX_GAP_INTERVALS sampling intervals is a gap in the data and
+// only counts as one interval. The last sample covers one interval.
+export function sampleDurations(timestamps: string[], intervalSeconds: number | null, timeZone?: string): number[] {
+  const interval = intervalSeconds ?? 0;
+  const cap = interval * MAX_GAP_INTERVALS;
+
+  return timestamps.map((timestamp, i) => {
+    if (i === timestamps.length - 1) return interval;
+    const delta = elapsedMinutes(timestamp, timestamps[i + 1], timeZone) * 60;
+    return delta > cap ? interval : Math.max(delta, 0);
+  });
+}
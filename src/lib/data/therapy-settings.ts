@@ -0,0 +1,248 @@
+import { getDatabase } from '@/lib/db';
+import { addDays } from './time';
+
+// History of the machine's therapy settings. Device imports record what the
+// machine reported for each night (STR.edf, PRS1 summaries, CSV columns);
+// manual entries cover changes the imports can't see. The settings active on
+// a sleep day are the latest record on or before it.
+
+export const THERAPY_MODES = ['CPAP', 'APAP', 'BiLevel', 'ASV'] as const;
+
+export type TherapyMode = typeof THERAPY_MODES[number];
+
+export type SettingsSource = 'resmed' | 'prs1' | 'csv' | 'manual';
+
+export interface SettingValues {
+  mode: TherapyMode | null;
+  pressure: number | null;    // fixed CPAP pressure, cmH2O
+  minPressure: number | null; // auto-titrating range, cmH2O
+  maxPressure: number | null;
+  epr: number | null;         // exhalation relief level (ResMed EPR, Philips Flex)
+  rampMinutes: number | null;
+  humidity: number | null;    // humidifier level
+}
+
+export interface TherapySettings extends SettingValues {
+  id: number;
+  effectiveDate: string; // sleep day
+  source: SettingsSource;
+  importId: number | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+// A run of sleep days with the same settings
+export interface SettingsPeriod {
+  start: string;
+  end: string;
+  label: string;
+  settings: TherapySettings; // record the period started with
+}
+
+interface TherapySettingsRow {
+  id: number;
+  effective_date: string;
+  mode: TherapyMode | null;
+  pressure: number | null;
+  min_pressure: number | null;
+  max_pressure: number | null;
+  epr: number | null;
+  ramp_minutes: number | null;
+  humidity: number | null;
+  source: SettingsSource;
+  import_id: number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export const SETTING_FIELDS: Array<keyof SettingValues> = [
+  'mode', 'pressure', 'minPressure', 'maxPressure', 'epr', 'rampMinutes', 'humidity'
+];
+
+// On the same day a manual entry wins over the machine, and the machine over a CSV column
+const SOURCE_ORDER = `CASE source WHEN 'manual' THEN 0 WHEN 'csv' THEN 2 ELSE 1 END`;
+
+export function getActiveSettings(userId: number, date: string): TherapySettings | null {
+  const row = getDatabase().prepare(`
+    SELECT * FROM therapy_settings WHERE user_id = ? AND effective_date <= ?
+    ORDER BY effective_date DESC, ${SOURCE_ORDER} LIMIT 1
+  `).get(userId, date) as TherapySettingsRow | undefined;
+  return row ? toSettings(row) : null;
+}
+
+// Every stored record, newest first
+export function listSettingsHistory(userId: number, range?: { start: string; end: string }): TherapySettings[] {
+  const rows = getDatabase().prepare(`
+    SELECT * FROM therapy_settings
+    WHERE user_id = ? AND effective_date >= ? AND effective_date <= ?
+    ORDER BY effective_date DESC, ${SOURCE_ORDER}
+  `).all(userId, range?.start ?? '0000-00-00', range?.end ?? '9999-99-99') as TherapySettingsRow[];
+  return rows.map(toSettings);
+}
+
+// Settings periods covering a date range. Days before the first record have
+// no period.
+export function getSettingsPeriods(userId: number, start: string, end: string): SettingsPeriod[] {
+  const active = getActiveSettings(userId, start);
+  const rows = getDatabase().prepare(`
+    SELECT * FROM therapy_settings
+    WHERE user_id = ? AND effective_date > ? AND effective_date <= ?
+    ORDER BY effective_date, ${SOURCE_ORDER}
+  `).all(userId, start, end) as TherapySettingsRow[];
+
+  const periods: SettingsPeriod[] = [];
+  let current = active ? { start, settings: active } : null;
+  let previousDate: string | null = null;
+
+  for (const row of rows) {
+    // Only the first record of each day counts (see SOURCE_ORDER)
+    if (row.effective_date === previousDate) continue;
+    previousDate = row.effective_date;
+
+    const settings = toSettings(row);
+    if (current && sameSettings(current.settings, settings)) continue;
+    if (current) {
+      periods.push(toPeriod(current.start, addDays(row.effective_date, -1), current.settings));
+    }
+    current = { start: row.effective_date, settings };
+  }
+
+  if (current) periods.push(toPeriod(current.start, end, current.settings));
+  return periods;
+}
+
+// Periods from the first stored record to the last
+export function listSettingsPeriods(userId: number): SettingsPeriod[] {
+  const span = getDatabase().prepare(`
+    SELECT MIN(effective_date) AS first, MAX(effective_date) AS last FROM therapy_settings WHERE user_id = ?
+  `).get(userId) as { first: string | null; last: string | null };
+  return span.first && span.last ? getSettingsPeriods(userId, span.first, span.last) : [];
+}
+
+// Record settings from a given sleep day on; a second manual entry for the
+// same day replaces the first
+export function saveManualSettings(
+  userId: number,
+  date: string,
+  values: SettingValues,
+  notes?: string | null
+): TherapySettings {
+  validateSettings(date, values);
+
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO therapy_settings (
+      user_id, effective_date, mode, pressure, min_pressure, max_pressure, epr, ramp_minutes, humidity, source, notes
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'manual', ?)
+    ON CONFLICT (user_id, effective_date, source) DO UPDATE SET
+      mode = excluded.mode,
+      pressure = excluded.pressure,
+      min_pressure = excluded.min_pressure,
+      max_pressure = excluded.max_pressure,
+      epr = excluded.epr,
+      ramp_minutes = excluded.ramp_minutes,
+      humidity = excluded.humidity,
+      notes = excluded.notes
+  `).run(
+    userId,
+    date,
+    values.mode,
+    values.pressure,
+    values.minPressure,
+    values.maxPressure,
+    values.epr,
+    values.rampMinutes,
+    values.humidity,
+    notes?.trim() || null
+  );
+
+  const row = db.prepare(`
+    SELECT * FROM therapy_settings WHERE user_id = ? AND effective_date = ? AND source = 'manual'
+  `).get(userId, date) as TherapySettingsRow;
+  return toSettings(row);
+}
+
+export function getSettingsRecord(userId: number, id: number): TherapySettings | null {
+  const row = getDatabase().prepare(`
+    SELECT * FROM therapy_settings WHERE id = ? AND user_id = ?
+  `).get(id, userId) as TherapySettingsRow | undefined;
+  return row ? toSettings(row) : null;
+}
+
+// Imported records are removed by undoing their import
+export function deleteManualSettings(userId: number, id: number): boolean {
+  return getDatabase().prepare(`
+    DELETE FROM therapy_settings WHERE id = ? AND user_id = ? AND source = 'manual'
+  `).run(id, userId).changes > 0;
+}
+
+export function validateSettings(date: string, values: SettingValues) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    throw new Error('Date must be a YYYY-MM-DD sleep day');
+  }
+  if (values.mode !== null && !THERAPY_MODES.includes(values.mode)) {
+    throw new Error(`Mode must be one of: ${THERAPY_MODES.join(', ')}`);
+  }
+  if (SETTING_FIELDS.every(field => values[field] === null)) {
+    throw new Error('At least one setting is required');
+  }
+
+  const inRange = (value: number | null, min: number, max: number) =>
+    value === null || (Number.isFinite(value) && value >= min && value <= max);
+  if (![values.pressure, values.minPressure, values.maxPressure].every(p => inRange(p, 0, 30))) {
+    throw new Error('Pressures must be between 0 and 30 cmH2O');
+  }
+  if (values.minPressure !== null && values.maxPressure !== null && values.minPressure > values.maxPressure) {
+    throw new Error('Minimum pressure must not be above the maximum');
+  }
+  if (!inRange(values.epr, 0, 3)) {
+    throw new Error('EPR / Flex level must be between 0 and 3');
+  }
+  if (!inRange(values.rampMinutes, 0, 60)) {
+    throw new Error('Ramp time must be between 0 and 60 minutes');
+  }
+  if (!inRange(values.humidity, 0, 10)) {
+    throw new Error('Humidity level must be between 0 and 10');
+  }
+}
+
+// "APAP 6-14 cmH2O, EPR 2, ramp 20 min, humidity 4"
+export function describeSettings(values: SettingValues): string {
+  const parts: string[] = [];
+  const fixed = values.pressure !== null ? `${values.pressure} cmH2O` : null;
+  const range = values.minPressure !== null || values.maxPressure !== null ?
+    `${values.minPressure ?? '?'}-${values.maxPressure ?? '?'} cmH2O` : null;
+  const pressure = values.mode === 'CPAP' ? fixed : range ?? fixed;
+
+  parts.push([values.mode ?? 'Unknown mode', pressure].filter(Boolean).join(' '));
+  if (values.epr !== null) parts.push(`EPR ${values.epr}`);
+  if (values.rampMinutes !== null) parts.push(`ramp ${values.rampMinutes} min`);
+  if (values.humidity !== null) parts.push(`humidity ${values.humidity}`);
+  return parts.join(', ');
+}
+
+export function sameSettings(a: SettingValues, b: SettingValues): boolean {
+  return SETTING_FIELDS.every(field => a[field] === b[field]);
+}
+
+function toPeriod(start: string, end: string, settings: TherapySettings): SettingsPeriod {
+  return { start, end, label: describeSettings(settings), settings };
+}
+
+function toSettings(row: TherapySettingsRow): TherapySettings {
+  return {
+    id: row.id,
+    effectiveDate: row.effective_date,
+    mode: row.mode,
+    pressure: row.pressure,
+    minPressure: row.min_pressure,
+    maxPressure: row.max_pressure,
+    epr: row.epr,
+    rampMinutes: row.ramp_minutes,
+    humidity: row.humidity,
+    source: row.source,
+    importId: row.import_id,
+    notes: row.notes,
+    createdAt: row.created_at
+  };
+}
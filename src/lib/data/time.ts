@@ -0,0 +1,93 @@
+// Helpers for the naive "YYYY-MM-DD HH:MM:SS" wall-clock timestamps we store.
+//
+// Devices record local wall-clock time, so stored timestamps carry no zone.
+// Elapsed time is measured in a configured IANA time zone so that a night
+// spanning a DST change isn't an hour too long or short.
+
+// Wall-clock time as if it were UTC; only differences within a zone offset are meaningful
+export function naiveMillis(timestamp: string): number {
+  return Date.parse(timestamp.replace(' ', 'T') + 'Z');
+}
+
+export function formatNaive(millis: number): string {
+  return new Date(millis).toISOString().replace('T', ' ').substring(0, 19);
+}
+
+// Calendar arithmetic on "YYYY-MM-DD" strings
+export function addDays(day: string, days: number): string {
+  return formatNaive(naiveMillis(`${day} 00:00:00`) + days * 24 * 3600 * 1000).substring(0, 10);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock time of an instant in a time zone, as a naive timestamp
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second}`;
+}
+
+// Offset of a zone from UTC (ms) at an instant
+function zoneOffset(epochMillis: number, timeZone: string): number {
+  const whole = Math.floor(epochMillis / 1000) * 1000;
+  return naiveMillis(formatInTimeZone(new Date(whole), timeZone)) - whole;
+}
+
+// Offsets only change on the hour or half hour in practice, so cache per naive half hour
+const offsetCache = new Map<string, number>();
+
+// Instant of a wall-clock time in a zone. Times skipped by a DST change use the
+// offset after the change; repeated times resolve to the first occurrence.
+export function wallClockToEpoch(timestamp: string, timeZone: string): number {
+  const naive = naiveMillis(timestamp);
+  const key = `${timeZone}|${Math.floor(naive / 1800000)}`;
+  let offset = offsetCache.get(key);
+  if (offset === undefined) {
+    offset = zoneOffset(naive - zoneOffset(naive, timeZone), timeZone);
+    if (offsetCache.size > 10000) offsetCache.clear();
+    offsetCache.set(key, offset);
+  }
+  return naive - offset;
+}
+
+// Whether an instant is the second pass through a wall-clock time that repeats
+// when clocks go back (01:30 twice, say). As a stored wall-clock timestamp it
+// can't be told apart from the first pass.
+export function isRepeatedWallClock(date: Date, timeZone: string): boolean {
+  const wallClock = formatInTimeZone(date, timeZone);
+  return wallClockToEpoch(wallClock, timeZone) !== Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Minutes between two wall-clock timestamps; without a zone the clock is
+// assumed not to change offset
+export function elapsedMinutes(start: string, end: string, timeZone?: string): number {
+  const millis = timeZone ?
+    wallClockToEpoch(end, timeZone) - wallClockToEpoch(start, timeZone) :
+    naiveMillis(end) - naiveMillis(start);
+  return millis / 60000;
+}
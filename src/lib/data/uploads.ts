@@ -0,0 +1,27 @@
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+
+// Write an uploaded file to disk a chunk at a time rather than copying it
+// into one buffer, and return its SHA-256 (hex) computed along the way
+export async function saveUpload(file: File, filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  try {
+    await pipeline(
+      Readable.fromWeb(file.stream() as NodeReadableStream<Uint8Array>),
+      async function* (chunks: AsyncIterable<Buffer>) {
+        for await (const chunk of chunks) {
+          hash.update(chunk);
+          yield chunk;
+        }
+      },
+      fs.createWriteStream(filePath)
+    );
+  } catch (error) {
+    fs.rmSync(filePath, { force: true });
+    throw error;
+  }
+  return hash.digest('hex');
+}
@@ -0,0 +1,176 @@
+import type { NextRequest } from 'next/server';
+import { getDatabase } from '@/lib/db';
+import { hashPassword, verifyPassword, validatePassword } from '@/lib/auth/passwords';
+import { getSessionUserId, sessionToken } from '@/lib/auth/sessions';
+import { bearerToken, getApiTokenUserId } from '@/lib/auth/tokens';
+
+// Profiles sharing one instance, such as a family or a clinic group. Every
+// sample, night, import, setting and chat belongs to a profile; API routes and
+// analytics tools only see the profile that is signed in. The owner, the
+// first profile, also administers the installation: it sets the first
+// password of profiles that have none.
+
+export interface User {
+  id: number;
+  name: string;
+  // Nights stored for the profile
+  nights: number;
+  lastNight: string | null;
+  // Profiles without a password can't sign in
+  hasPassword: boolean;
+  isOwner: boolean;
+  createdAt: string;
+}
+
+interface UserRow {
+  id: number;
+  name: string;
+  nights: number;
+  last_night: string | null;
+  password_hash: string | null;
+  is_owner: number;
+  created_at: string;
+}
+
+// Tables whose rows belong to a profile
+const USER_TABLES = [
+  'cpap_samples', 'cpap_events', 'oximetry_samples', 'waveform_chunks', 'sessions',
+  'nightly_aggregates', 'therapy_settings', 'equipment', 'devices', 'imports', 'jobs.import_jobs',
+  'evidence_artifacts', 'chat_logs', 'sleep_annotations', 'app_settings', 'auth_sessions',
+  'api_tokens', 'import_profiles', 'import_shared_rows'
+];
+
+const SELECT_USERS = `
+  SELECT users.*,
+    (SELECT COUNT(*) FROM nightly_aggregates WHERE user_id = users.id AND device_id IS NULL) AS nights,
+    (SELECT MAX(date) FROM nightly_aggregates WHERE user_id = users.id AND device_id IS NULL) AS last_night
+  FROM users
+`;
+
+// Oldest first
+export function listUsers(): User[] {
+  const rows = getDatabase().prepare(`
+    ${SELECT_USERS} ORDER BY id
+  `).all() as UserRow[];
+  return rows.map(toUser);
+}
+
+export function getUser(id: number): User | null {
+  const row = getDatabase().prepare(`
+    ${SELECT_USERS} WHERE id = ?
+  `).get(id) as UserRow | undefined;
+  return row ? toUser(row) : null;
+}
+
+export function createUser(name: string, password: string): User {
+  const trimmed = validateName(name);
+  const hash = hashPassword(validatePassword(password));
+  const { lastInsertRowid } = getDatabase().prepare(`
+    INSERT INTO users (name, password_hash) VALUES (?, ?)
+  `).run(trimmed, hash);
+  return getUser(Number(lastInsertRowid))!;
+}
+
+export function renameUser(id: number, name: string): User | null {
+  const trimmed = validateName(name, id);
+  const { changes } = getDatabase().prepare(`
+    UPDATE users SET name = ? WHERE id = ?
+  `).run(trimmed, id);
+  return changes > 0 ? getUser(id) : null;
+}
+
+export function setPassword(id: number, password: string): boolean {
+  const hash = hashPassword(validatePassword(password));
+  const { changes } = getDatabase().prepare(`
+    UPDATE users SET password_hash = ? WHERE id = ?
+  `).run(hash, id);
+  return changes > 0;
+}
+
+// The profile the name and password belong to, or null
+export function verifyLogin(name: string, password: string): User | null {
+  const row = getDatabase().prepare(`
+    SELECT id, password_hash FROM users WHERE name = ? COLLATE NOCASE
+  `).get(name.trim()) as Pick<UserRow, 'id' | 'password_hash'> | undefined;
+  return verifyPassword(password, row?.password_hash ?? null) ? getUser(row!.id) : null;
+}
+
+export function checkPassword(id: number, password: string): boolean {
+  const hash = getDatabase().prepare(`
+    SELECT password_hash FROM users WHERE id = ?
+  `).pluck().get(id) as string | null | undefined;
+  return verifyPassword(password, hash ?? null);
+}
+
+export function isOwner(id: number): boolean {
+  return getDatabase().prepare(`
+    SELECT 1 FROM users WHERE id = ? AND is_owner = 1
+  `).get(id) !== undefined;
+}
+
+// Until some profile has a password nobody can sign in, so the first visitor
+// sets one up
+export function isSetupRequired(): boolean {
+  return getDatabase().prepare(`
+    SELECT 1 FROM users WHERE password_hash IS NOT NULL
+  `).get() === undefined;
+}
+
+// Deletes the profile with everything stored for it, its sessions included. The owner's profile
+// (and so the last one) can't be deleted.
+export function deleteUser(id: number): boolean {
+  const db = getDatabase();
+  if (!db.prepare(`SELECT 1 FROM users WHERE id = ?`).get(id)) return false;
+  if (isOwner(id)) {
+    throw new Error('The owner profile cannot be deleted');
+  }
+
+  db.transaction(() => {
+    for (const table of USER_TABLES) {
+      db.prepare(`DELETE FROM ${table} WHERE user_id = ?`).run(id);
+    }
+    db.prepare(`DELETE FROM users WHERE id = ?`).run(id);
+  })();
+  return true;
+}
+
+// The signed-in profile, or the owner of the request's API token. The proxy
+// turns away requests without either (and tokens used outside their scopes)
+// before they reach a route, so this only throws for routes it lets through.
+export function currentUserId(request: NextRequest): number {
+  const token = bearerToken(request);
+  const userId = token !== undefined ? getApiTokenUserId(token) : getSessionUserId(sessionToken(request));
+  if (userId === null) {
+    throw new Error('Not signed in');
+  }
+  return userId;
+}
+
+function validateName(name: unknown, id?: number): string {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) {
+    throw new Error('Profile name is required');
+  }
+  if (trimmed.length > 50) {
+    throw new Error('Profile name must be at most 50 characters');
+  }
+  const existing = getDatabase().prepare(`
+    SELECT id FROM users WHERE name = ? COLLATE NOCASE
+  `).pluck().get(trimmed) as number | undefined;
+  if (existing !== undefined && existing !== id) {
+    throw new Error(`A profile named ${trimmed} already exists`);
+  }
+  return trimmed;
+}
+
+function toUser(row: UserRow): User {
+  return {
+    id: row.id,
+    name: row.name,
+    nights: row.nights,
+    lastNight: row.last_night,
+    hasPassword: row.password_hash !== null,
+    isOwner: row.is_owner === 1,
+    createdAt: row.created_at
+  };
+}
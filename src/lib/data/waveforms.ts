@@ -0,0 +1,172 @@
+import { getDatabase } from '@/lib/db';
+import { naiveMillis, formatNaive } from './time';
+
+// High-resolution flow and mask-pressure signals (ResMed BRP at 25 Hz, PRS1
+// .005 waveforms). They are far too dense for cpap_samples, so each signal is
+// cut into fixed-length chunks stored as int16 blobs in waveform_chunks, with
+// the sample rate and the scaling back to physical units alongside.
+
+export const WAVEFORM_CHANNELS = ['flow', 'pressure'] as const;
+
+export type WaveformChannel = typeof WAVEFORM_CHANNELS[number];
+
+// One continuous signal as read from a device file
+export interface WaveformSignal {
+  channel: WaveformChannel;
+  start: string;      // wall-clock time of the first sample
+  sampleRate: number; // Hz
+  unit: string;
+  // Physical value = raw * scale + offset, with raw a 16-bit integer
+  scale: number;
+  offset: number;
+  values: ArrayLike<number>; // physical values
+}
+
+export interface WaveformChunk {
+  channel: WaveformChannel;
+  startTime: string;
+  startMs: number;
+  endMs: number;
+  sampleRate: number;
+  sampleCount: number;
+  unit: string;
+  scale: number;
+  offset: number;
+  data: Buffer; // int16, little endian
+}
+
+export interface WaveformPoint {
+  offset: number; // seconds from the window start
+  min: number;
+  max: number;
+  mean: number;
+}
+
+export interface WaveformWindow {
+  channel: WaveformChannel;
+  unit: string | null;
+  start: string;
+  end: string;
+  // Width of each point; at or below the sample interval points are raw samples
+  bucketSeconds: number;
+  points: WaveformPoint[];
+}
+
+const CHUNK_SECONDS = 300;
+// Longest window one read may cover; longer views should page through the night
+const MAX_WINDOW_HOURS = 24;
+export const MAX_WAVEFORM_POINTS = 10000;
+
+export function isWaveformChannel(value: string): value is WaveformChannel {
+  return (WAVEFORM_CHANNELS as readonly string[]).includes(value);
+}
+
+// Split a signal into CHUNK_SECONDS pieces, quantized to int16
+export function chunkWaveform(signal: WaveformSignal): WaveformChunk[] {
+  const { sampleRate, scale, offset, values } = signal;
+  if (!(sampleRate > 0) || !Number.isFinite(sampleRate) || !(scale > 0)) {
+    throw new Error(`Invalid ${signal.channel} waveform (rate ${sampleRate} Hz, scale ${scale})`);
+  }
+
+  const perChunk = Math.max(1, Math.round(CHUNK_SECONDS * sampleRate));
+  const startMs = naiveMillis(signal.start);
+  const chunks: WaveformChunk[] = [];
+
+  for (let first = 0; first < values.length; first += perChunk) {
+    const count = Math.min(perChunk, values.length - first);
+    const data = Buffer.alloc(count * 2);
+    for (let i = 0; i < count; i++) {
+      const raw = Math.round((values[first + i] - offset) / scale);
+      data.writeInt16LE(Math.max(-32768, Math.min(32767, raw)), i * 2);
+    }
+
+    const chunkStart = startMs + (first / sampleRate) * 1000;
+    chunks.push({
+      channel: signal.channel,
+      startTime: formatNaive(chunkStart),
+      startMs: Math.round(chunkStart),
+      endMs: Math.round(chunkStart + (count / sampleRate) * 1000),
+      sampleRate,
+      sampleCount: count,
+      unit: signal.unit,
+      scale,
+      offset,
+      data
+    });
+  }
+
+  return chunks;
+}
+
+interface ChunkRow {
+  start_ms: number;
+  sample_rate: number;
+  sample_count: number;
+  scale: number;
+  value_offset: number;
+  unit: string | null;
+  data: Buffer;
+}
+
+// A channel between two wall-clock times, reduced to at most maxPoints
+// min/max/mean buckets (gaps in the recording have no points)
+export function readWaveformWindow(
+  userId: number,
+  channel: WaveformChannel,
+  start: string,
+  end: string,
+  maxPoints = 2000
+): WaveformWindow {
+  const startMs = naiveMillis(start);
+  const endMs = naiveMillis(end);
+  if (!(endMs > startMs)) {
+    throw new Error('Waveform window must end after it starts');
+  }
+  if (endMs - startMs > MAX_WINDOW_HOURS * 3600 * 1000) {
+    throw new Error(`Waveform window can't be longer than ${MAX_WINDOW_HOURS} hours`);
+  }
+
+  const points = Math.max(1, Math.min(MAX_WAVEFORM_POINTS, Math.floor(maxPoints)));
+  const bucketMs = (endMs - startMs) / points;
+  const min = new Float64Array(points).fill(Infinity);
+  const max = new Float64Array(points).fill(-Infinity);
+  const sum = new Float64Array(points);
+  const count = new Uint32Array(points);
+  let unit: string | null = null;
+
+  const chunks = getDatabase().prepare(`
+    SELECT start_ms, sample_rate, sample_count, scale, value_offset, unit, data
+    FROM waveform_chunks
+    WHERE user_id = ? AND channel = ? AND start_ms < ? AND end_ms > ?
+    ORDER BY start_ms
+  `).iterate(userId, channel, endMs, startMs) as IterableIterator<ChunkRow>;
+
+  for (const chunk of chunks) {
+    unit ??= chunk.unit;
+    const sampleMs = 1000 / chunk.sample_rate;
+    const firstSample = Math.max(0, Math.ceil((startMs - chunk.start_ms) / sampleMs));
+    for (let i = firstSample; i < chunk.sample_count; i++) {
+      const time = chunk.start_ms + i * sampleMs;
+      if (time >= endMs) break;
+      const value = chunk.data.readInt16LE(i * 2) * chunk.scale + chunk.value_offset;
+      const bucket = Math.min(points - 1, Math.floor((time - startMs) / bucketMs));
+      min[bucket] = Math.min(min[bucket], value);
+      max[bucket] = Math.max(max[bucket], value);
+      sum[bucket] += value;
+      count[bucket]++;
+    }
+  }
+
+  const result: WaveformPoint[] = [];
+  for (let bucket = 0; bucket < points; bucket++) {
+    if (count[bucket] === 0) continue;
+    result.push({
+      offset: (bucket * bucketMs) / 1000,
+      min: min[bucket],
+      max: max[bucket],
+      mean: sum[bucket] / count[bucket]
+    });
+  }
+
+  return { channel, unit, start, end, bucketSeconds: bucketMs / 1000, points: result };
+}
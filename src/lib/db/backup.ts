@@ -0,0 +1,400 @@
+import Database from 'better-sqlite3-multiple-ciphers';
+import fs from 'fs';
+import { strFromU8, strToU8, Unzip, UnzipInflate, Zip, ZipDeflate, ZipPassThrough } from 'fflate';
+import { databaseTempPath, getDatabase, openDatabaseCopy } from './index';
+import { encryptionKey } from './encryption';
+import { getSchemaVersion, runMigrations } from './migrate';
+import { MIGRATIONS } from './migrations';
+import { hasActiveImportJobs } from '@/lib/data/import-jobs';
+import { recalculateRange } from '@/lib/data/ingest';
+
+// Backups of the whole installation: a zip with manifest.json and cpap.db, a
+// consistent copy of the database with every profile's data (password and
+// token hashes included). formatVersion covers the archive layout,
+// schemaVersion the database inside it.
+
+export const BACKUP_FORMAT = 'cpap-insight-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const MANIFEST_ENTRY = 'manifest.json';
+const DATABASE_ENTRY = 'cpap.db';
+// The database is zipped and unzipped a chunk at a time, never held in memory
+const CHUNK_SIZE = 1024 * 1024;
+const MAX_MANIFEST_SIZE = 1024 * 1024;
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  installationId: string;
+  createdAt: string;
+  // cpap.db is encrypted with the installation's CPAP_DB_KEY
+  encrypted: boolean;
+  // Rows per table
+  tables: Record<string, number>;
+}
+
+// replace: the database becomes the backup's. merge: rows missing from the
+// database are added back, for recovering from a backup of this installation.
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreResult {
+  mode: RestoreMode;
+  manifest: BackupManifest;
+  // Schema version of an older backup that was brought up to date
+  migratedFrom: number | null;
+  // Rows restored (replace) or added (merge) per table
+  rows: Record<string, number>;
+  // Nights rebuilt from the merged rows (merge only)
+  nightsRecalculated: number | null;
+}
+
+// Tables with timestamped rows; after a merge the nights they cover are rebuilt
+const TIMESTAMPED_TABLES = ['cpap_samples', 'cpap_events', 'oximetry_samples'];
+
+// Sign-in sessions belong to the running installation, so restoring signs
+// everyone out rather than bringing back old sessions
+const SKIPPED_TABLES = ['schema_version', 'auth_sessions'];
+// Only a replace takes over the backup's identity
+const REPLACE_ONLY_TABLES = ['installation'];
+
+// The snapshot with any WAL files a connection left next to it
+function removeSnapshot(file: string) {
+  for (const suffix of ['', '-wal', '-shm']) {
+    fs.rmSync(file + suffix, { force: true });
+  }
+}
+
+function listTables(db: Database.Database, schema = 'main'): string[] {
+  return db.prepare(`
+    SELECT name FROM ${schema}.sqlite_master
+    WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+    ORDER BY name
+  `).pluck().all() as string[];
+}
+
+function tableColumns(db: Database.Database, schema: string, table: string): string[] {
+  return (db.prepare(`PRAGMA ${schema}.table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+// The archive is zipped as it is read, and the snapshot is removed once it has
+// been read in full or the download is abandoned
+function zipArchive(manifest: BackupManifest, snapshotPath: string): ReadableStream<Uint8Array> {
+  let file: fs.promises.FileHandle | null = null;
+  let database: ZipDeflate;
+  let emitted = false;
+  let done = false;
+
+  const cleanUp = async () => {
+    await file?.close();
+    file = null;
+    removeSnapshot(snapshotPath);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const zip = new Zip((error, data, final) => {
+        if (error) {
+          controller.error(error);
+          return;
+        }
+        controller.enqueue(data);
+        emitted = true;
+        if (final) {
+          done = true;
+          controller.close();
+        }
+      });
+      const manifestEntry = new ZipPassThrough(MANIFEST_ENTRY);
+      zip.add(manifestEntry);
+      manifestEntry.push(strToU8(JSON.stringify(manifest, null, 2)), true);
+      database = new ZipDeflate(DATABASE_ENTRY);
+      zip.add(database);
+      zip.end();
+      file = await fs.promises.open(snapshotPath, 'r');
+    },
+
+    // Compression may swallow a chunk without output, so read until some comes out
+    async pull(controller) {
+      try {
+        emitted = false;
+        while (!emitted && !done) {
+          const { bytesRead, buffer } = await file!.read(Buffer.alloc(CHUNK_SIZE), 0, CHUNK_SIZE, null);
+          database.push(buffer.subarray(0, bytesRead), bytesRead === 0);
+        }
+        if (done) await cleanUp();
+      } catch (error) {
+        controller.error(error);
+        await cleanUp();
+      }
+    },
+
+    async cancel() {
+      await cleanUp();
+    }
+  });
+}
+
+export async function createBackup(): Promise<{
+  fileName: string;
+  archive: ReadableStream<Uint8Array>;
+  manifest: BackupManifest;
+}> {
+  const db = getDatabase();
+  const snapshotPath = databaseTempPath('backup');
+
+  try {
+    if (encryptionKey()) {
+      // The online backup can't write an encrypted copy; VACUUM INTO reads
+      // the same consistent snapshot and keeps the encryption
+      db.prepare(`VACUUM INTO ?`).run(snapshotPath);
+    } else {
+      // Online backup: a consistent copy, pages still in the WAL included
+      await db.backup(snapshotPath);
+    }
+
+    const snapshot = openDatabaseCopy(snapshotPath);
+    let manifest: BackupManifest;
+    try {
+      // Self-contained file, without a WAL to carry along
+      snapshot.pragma('journal_mode = DELETE');
+      manifest = {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion: getSchemaVersion(snapshot),
+        installationId: snapshot.prepare(`SELECT id FROM installation`).pluck().get() as string,
+        createdAt: new Date().toISOString(),
+        encrypted: encryptionKey() !== null,
+        tables: Object.fromEntries(listTables(snapshot).map(table => [
+          table,
+          snapshot.prepare(`SELECT COUNT(*) FROM ${table}`).pluck().get() as number
+        ]))
+      };
+    } finally {
+      snapshot.close();
+    }
+
+    const fileName = `cpap-backup-${manifest.createdAt.slice(0, 19).replace(/[T:]/g, '-')}.zip`;
+    return { fileName, archive: zipArchive(manifest, snapshotPath), manifest };
+  } catch (error) {
+    removeSnapshot(snapshotPath);
+    throw error;
+  }
+}
+
+// Unzip the archive as it arrives: the manifest into memory, the database
+// straight into snapshotPath
+async function extractArchive(
+  archive: AsyncIterable<Uint8Array>,
+  snapshotPath: string
+): Promise<{ manifest: Uint8Array | undefined; hasDatabase: boolean }> {
+  const manifestChunks: Uint8Array[] = [];
+  let manifestSize = 0;
+  let hasDatabase = false;
+  const failures: Error[] = [];
+  const fd = fs.openSync(snapshotPath, 'w');
+
+  const unzip = new Unzip(file => {
+    if (file.name === MANIFEST_ENTRY) {
+      file.ondata = (error, data) => {
+        if (error) return failures.push(error);
+        manifestSize += data.length;
+        if (manifestSize > MAX_MANIFEST_SIZE) return failures.push(new Error(`${MANIFEST_ENTRY} is too large`));
+        manifestChunks.push(data);
+      };
+      file.start();
+    } else if (file.name === DATABASE_ENTRY) {
+      hasDatabase = true;
+      file.ondata = (error, data) => {
+        if (error) return failures.push(error);
+        fs.writeSync(fd, data);
+      };
+      file.start();
+    }
+  });
+  unzip.register(UnzipInflate);
+
+  try {
+    for await (const chunk of archive) {
+      unzip.push(chunk);
+      if (failures.length > 0) break;
+    }
+    if (failures.length === 0) unzip.push(new Uint8Array(0), true);
+  } catch {
+    throw new Error('The file is not a backup archive');
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (failures.length > 0) {
+    throw new Error(`The backup archive is damaged: ${failures[0].message}`);
+  }
+
+  if (manifestChunks.length === 0) return { manifest: undefined, hasDatabase };
+  const manifest = new Uint8Array(manifestSize);
+  let offset = 0;
+  for (const chunk of manifestChunks) {
+    manifest.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { manifest, hasDatabase };
+}
+
+function parseManifest(data: Uint8Array | undefined): BackupManifest {
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(strFromU8(data!));
+  } catch {
+    throw new Error(`The file is not a backup archive: it has no readable ${MANIFEST_ENTRY}`);
+  }
+
+  if (manifest?.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a CPAP Insight backup');
+  }
+  if (manifest.formatVersion !== BACKUP_FORMAT_VERSION) {
+    throw new Error(`Backup format version ${manifest.formatVersion} is not supported`);
+  }
+  if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion < 1) {
+    throw new Error('The backup manifest has no valid schema version');
+  }
+  return manifest;
+}
+
+// Validates the archive (manifest, database integrity, schema version) before
+// touching the database, then restores it in one transaction. A merge then
+// rebuilds the nights the merged rows fall on.
+export async function restoreBackup(archive: AsyncIterable<Uint8Array>, mode: RestoreMode): Promise<RestoreResult> {
+  if (hasActiveImportJobs()) {
+    throw new Error('Wait for running imports to finish before restoring a backup');
+  }
+
+  const snapshotPath = databaseTempPath('backup');
+  try {
+    const entries = await extractArchive(archive, snapshotPath);
+    const manifest = parseManifest(entries.manifest);
+    if (!entries.hasDatabase) {
+      throw new Error(`The backup archive has no ${DATABASE_ENTRY}`);
+    }
+
+    const key = encryptionKey();
+    if (manifest.encrypted && !key) {
+      throw new Error('The backup is encrypted; set CPAP_DB_KEY to the key of the installation it came from');
+    }
+
+    const db = getDatabase();
+    if (mode === 'merge') {
+      const installationId = db.prepare(`SELECT id FROM installation`).pluck().get();
+      if (manifest.installationId !== installationId) {
+        throw new Error('Only backups of this installation can be merged; replace the database to restore another one');
+      }
+    }
+
+    const snapshotKey = manifest.encrypted ? key : null;
+    const latest = MIGRATIONS.length;
+    let migratedFrom: number | null = null;
+    let snapshot: Database.Database;
+    try {
+      snapshot = openDatabaseCopy(snapshotPath, snapshotKey);
+    } catch {
+      throw new Error(manifest.encrypted
+        ? 'The backup is encrypted with a different CPAP_DB_KEY'
+        : 'The backup database is damaged');
+    }
+    try {
+      if (snapshot.pragma('integrity_check', { simple: true }) !== 'ok') {
+        throw new Error('The backup database is damaged');
+      }
+
+      const version = getSchemaVersion(snapshot);
+      if (version !== manifest.schemaVersion) {
+        throw new Error(`The backup database is at schema version ${version}, but its manifest says ${manifest.schemaVersion}`);
+      }
+      if (version > latest) {
+        throw new Error(`The backup was made by a newer version of the app (schema version ${version}, this one supports ${latest}); update the app first`);
+      }
+      if (version < latest) {
+        runMigrations(snapshot);
+        migratedFrom = version;
+      }
+    } finally {
+      snapshot.close();
+    }
+
+    db.prepare(`ATTACH DATABASE ? AS backup KEY ?`).run(snapshotPath, snapshotKey?.toString('utf8') ?? '');
+    let restored: { rows: Record<string, number>; ranges: MergedRange[] };
+    try {
+      restored = db.transaction(() => {
+        const backupTables = new Set(listTables(db, 'backup'));
+        const rows: Record<string, number> = {};
+        const ranges = mode === 'merge' ? mergedRanges(db, backupTables) : [];
+
+        for (const table of listTables(db)) {
+          if (SKIPPED_TABLES.includes(table)) continue;
+          if (mode === 'merge' && REPLACE_ONLY_TABLES.includes(table)) continue;
+
+          if (mode === 'replace') {
+            db.prepare(`DELETE FROM main.${table}`).run();
+          }
+          if (!backupTables.has(table)) continue;
+
+          const backupColumns = tableColumns(db, 'backup', table);
+          const columns = tableColumns(db, 'main', table)
+            .filter(column => backupColumns.includes(column))
+            .map(column => `"${column}"`)
+            .join(', ');
+          // Rows whose id or unique key is already present are kept as they are
+          const { changes } = db.prepare(`
+            INSERT ${mode === 'merge' ? 'OR IGNORE ' : ''}INTO main.${table} (${columns})
+            SELECT ${columns} FROM backup.${table}
+          `).run();
+          rows[table] = changes;
+        }
+
+        if (mode === 'replace') {
+          db.prepare(`DELETE FROM main.auth_sessions`).run();
+        }
+        return { rows, ranges };
+      }).immediate();
+    } finally {
+      db.exec(`DETACH DATABASE backup`);
+    }
+
+    let nightsRecalculated: number | null = null;
+    if (mode === 'merge') {
+      nightsRecalculated = 0;
+      for (const range of restored.ranges) {
+        try {
+          const result = await recalculateRange(range.userId, range.first, range.last);
+          nightsRecalculated += result.nightsImported;
+        } catch (error) {
+          throw new Error(`The backup was merged, but its nights could not be recalculated: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    return { mode, manifest, migratedFrom, rows: restored.rows, nightsRecalculated };
+  } finally {
+    removeSnapshot(snapshotPath);
+  }
+}
+
+interface MergedRange {
+  userId: number;
+  first: string;
+  last: string;
+}
+
+// Per profile, the span of the backup's timestamped rows the database doesn't
+// have yet (by id: a merged backup comes from this installation)
+function mergedRanges(db: Database.Database, backupTables: Set<string>): MergedRange[] {
+  const spans = TIMESTAMPED_TABLES.filter(table => backupTables.has(table)).map(table => `
+    SELECT user_id, MIN(timestamp) AS first, MAX(timestamp) AS last FROM backup.${table}
+    WHERE id NOT IN (SELECT id FROM main.${table})
+    GROUP BY user_id
+  `);
+  if (spans.length === 0) return [];
+
+  return db.prepare(`
+    SELECT user_id AS userId, MIN(first) AS first, MAX(last) AS last FROM (${spans.join(' UNION ALL ')})
+    WHERE user_id IN (SELECT id FROM main.users)
+    GROUP BY user_id
+  `).all() as MergedRange[];
+}
@@ -0,0 +1,72 @@
+import Database from 'better-sqlite3-multiple-ciphers';
+import fs from 'fs';
+
+// Optional encryption at rest. With CPAP_DB_KEY set, every page of the
+// database and its WAL is encrypted in SQLCipher 4's format, so the file can
+// also be opened with the sqlcipher tool and the same passphrase. Without the
+// key the file is unreadable.
+
+const PLAINTEXT_HEADER = Buffer.from('SQLite format 3\0');
+
+export function encryptionKey(): Buffer | null {
+  const passphrase = process.env.CPAP_DB_KEY;
+  return passphrase ? Buffer.from(passphrase, 'utf8') : null;
+}
+
+function selectSqlCipher(db: Database.Database) {
+  db.pragma(`cipher = 'sqlcipher'`);
+  db.pragma('legacy = 4');
+}
+
+// An existing database that isn't encrypted; encrypted files start with a
+// random salt instead of the SQLite header
+function isPlaintextDatabase(file: string): boolean {
+  if (!fs.existsSync(file)) return false;
+  const fd = fs.openSync(file, 'r');
+  try {
+    const header = Buffer.alloc(PLAINTEXT_HEADER.length);
+    const read = fs.readSync(fd, header, 0, header.length, 0);
+    return read === header.length && header.equals(PLAINTEXT_HEADER);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Setting CPAP_DB_KEY on an installation with an unencrypted database
+// encrypts it in place on the next start
+export function encryptExistingDatabase(file: string): boolean {
+  const key = encryptionKey();
+  if (!key || !isPlaintextDatabase(file)) return false;
+
+  const db = new Database(file);
+  try {
+    // Pages still in the WAL go into the file first; rekey can't run in WAL mode
+    db.pragma('wal_checkpoint(TRUNCATE)');
+    db.pragma('journal_mode = DELETE');
+    selectSqlCipher(db);
+    db.rekey(key);
+  } finally {
+    db.close();
+  }
+  return true;
+}
+
+// Apply the key to a new connection, and check it actually opens the file
+export function unlockDatabase(db: Database.Database, file: string, key: Buffer | null = encryptionKey()) {
+  if (key) {
+    selectSqlCipher(db);
+    db.key(key);
+  }
+
+  try {
+    db.prepare(`SELECT COUNT(*) FROM sqlite_master`).get();
+  } catch (error) {
+    db.close();
+    if ((error as { code?: string }).code === 'SQLITE_NOTADB') {
+      throw new Error(key ?
+        `Cannot open ${file}: CPAP_DB_KEY is not the key it was encrypted with` :
+        `Cannot open ${file}: the database is encrypted (or not a database); set CPAP_DB_KEY to its key`);
+    }
+    throw error;
+  }
+}
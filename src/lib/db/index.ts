@@ -1,26 +1,137 @@
-import Database from 'better-sqlite3';
-import { initDatabase } from './schema';
+import Database from 'better-sqlite3-multiple-ciphers';
+import { initDatabase, initJobsDatabase } from './schema';
+import { encryptExistingDatabase, encryptionKey, unlockDatabase } from './encryption';
 import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 
 // Singleton database instance
 let db: Database.Database | null = null;
 
+// Every connection opens this file. CPAP_DB_PATH moves it, e.g. onto a
+// volume; a relative path is resolved against the working directory.
+const dbPath = path.resolve(process.env.CPAP_DB_PATH || path.join('data', 'cpap.db'));
+
+// Import jobs are kept in a file of their own next to it (cpap-jobs.db),
+// attached to the shared connection as `jobs`, so saving a job's progress never
+// waits on the database's write lock
+const jobsPath = path.join(
+  path.dirname(dbPath),
+  `${path.basename(dbPath, path.extname(dbPath))}-jobs${path.extname(dbPath)}`
+);
+
+// How long a statement waits for another connection's write lock (an import,
+// a migration) before failing with SQLITE_BUSY
+const BUSY_TIMEOUT_MS = 5000;
+
+interface ConnectionOptions {
+  // Another database file, such as a backup snapshot
+  file?: string;
+  readonly?: boolean;
+  // The file's key; defaults to CPAP_DB_KEY
+  key?: Buffer | null;
+}
+
+// A connection with the encryption key applied, if one is configured
+function openConnection({ file = dbPath, readonly = false, key = encryptionKey() }: ConnectionOptions = {}): Database.Database {
+  const connection = new Database(file, { readonly });
+  unlockDatabase(connection, file, key);
+  connection.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+
+  if (readonly) {
+    // Refuse writes on this connection whatever SQL reaches it
+    connection.pragma('query_only = ON');
+  } else {
+    // Enable foreign keys
+    connection.pragma('journal_mode = WAL');
+    connection.pragma('foreign_keys = ON');
+  }
+  return connection;
+}
+
+function attachJobsDatabase(connection: Database.Database) {
+  connection.prepare(`ATTACH DATABASE ? AS jobs KEY ?`).run(jobsPath, encryptionKey()?.toString('utf8') ?? '');
+  connection.pragma('jobs.journal_mode = WAL');
+  initJobsDatabase(connection);
+}
+
 export function getDatabase(): Database.Database {
   if (!db) {
-    const dbPath = path.join(process.cwd(), 'data', 'cpap.db');
-    db = new Database(dbPath);
-    
-    // Enable foreign keys
-    db.pragma('journal_mode = WAL');
-    db.pragma('foreign_keys = ON');
+    for (const file of [dbPath, jobsPath]) {
+      if (encryptExistingDatabase(file)) {
+        console.log(`Encrypted ${file} with CPAP_DB_KEY`);
+      }
+    }
+    db = openConnection();
     
     // Initialize schema
     initDatabase(db);
+    attachJobsDatabase(db);
   }
   
   return db;
 }
 
+export function isBusyError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'SQLITE_BUSY';
+}
+
+// Pause between attempts of writeWhenUnlocked
+const BUSY_RETRY_MS = 250;
+
+// Run a short write on the shared connection without blocking in busy_timeout.
+// The import holding the write lock runs on this same event loop, so blocking
+// would only hold it up; instead the write is retried after a pause for up to
+// `waitMs`, then the SQLITE_BUSY error is thrown (at once for a waitMs of 0).
+export async function writeWhenUnlocked<T>(
+  write: (db: Database.Database) => T,
+  waitMs = BUSY_TIMEOUT_MS
+): Promise<T> {
+  const connection = getDatabase();
+  const deadline = Date.now() + waitMs;
+  for (;;) {
+    connection.pragma('busy_timeout = 0');
+    try {
+      return write(connection);
+    } catch (error) {
+      if (!isBusyError(error) || Date.now() >= deadline) throw error;
+    } finally {
+      connection.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, BUSY_RETRY_MS));
+  }
+}
+
+// Separate connection for imports: their transaction spans async file reads,
+// so it must not share the singleton with statements from other requests.
+// Callers are responsible for closing it.
+export function openDatabase(): Database.Database {
+  // Make sure the schema exists before a second connection touches the file
+  getDatabase();
+
+  return openConnection();
+}
+
+// Read-only connection to the same database, for running generated SQL.
+// Callers are responsible for closing it.
+export function openReadOnlyDatabase(): Database.Database {
+  getDatabase();
+
+  return openConnection({ readonly: true });
+}
+
+// Connection to a copy of the database, such as a backup snapshot, set up
+// like the others; `key` is the copy's (null for an unencrypted one). Callers
+// are responsible for closing it.
+export function openDatabaseCopy(file: string, key: Buffer | null = encryptionKey()): Database.Database {
+  return openConnection({ file, key });
+}
+
+// Path for a temporary copy of the database, next to it: on the same volume,
+// and with the same protection as the database itself
+export function databaseTempPath(name: string): string {
+  return path.join(path.dirname(dbPath), `${uuidv4()}-${name}.tmp`);
+}
+
 // Close database connection
 export function closeDatabase() {
   if (db) {
@@ -31,7 +142,7 @@ export function closeDatabase() {
 
 // Ensure data directory exists
 import fs from 'fs';
-const dataDir = path.join(process.cwd(), 'data');
+const dataDir = path.dirname(dbPath);
 if (!fs.existsSync(dataDir)) {
   fs.mkdirSync(dataDir, { recursive: true });
 }
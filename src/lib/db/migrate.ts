@@ -0,0 +1,60 @@
+import Database from 'better-sqlite3-multiple-ciphers';
+import { MIGRATIONS } from './migrations';
+
+// Versioned schema migrations. schema_version holds one row per migration
+// applied; the database's version is the highest of them. Each migration runs
+// in its own transaction together with its schema_version row, so a failure
+// leaves the database at the previous version.
+
+export interface Migration {
+  version: number; // consecutive, starting at 1
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  const hasTable = db.prepare(`
+    SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'
+  `).get();
+  if (!hasTable) return 0;
+  return (db.prepare(`SELECT MAX(version) FROM schema_version`).pluck().get() as number | null) ?? 0;
+}
+
+// Bring the database up to the latest version. Refuses to open a database
+// written by a newer version of the app, whose schema this one doesn't know.
+export function runMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): number {
+  migrations.forEach((migration, i) => {
+    if (migration.version !== i + 1) {
+      throw new Error(`Migration ${migration.name} has version ${migration.version}, expected ${i + 1}`);
+    }
+  });
+  const latest = migrations.length;
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const current = getSchemaVersion(db);
+  if (current > latest) {
+    throw new Error(
+      `Database schema version ${current} is newer than this version of the app supports (${latest}); ` +
+      'update the app or restore a backup made with this version'
+    );
+  }
+
+  const recordVersion = db.prepare(`INSERT INTO schema_version (version, name) VALUES (?, ?)`);
+  for (const migration of migrations.slice(current)) {
+    // Another connection may have applied it since the version was read
+    db.transaction(() => {
+      if (getSchemaVersion(db) >= migration.version) return;
+      migration.up(db);
+      recordVersion.run(migration.version, migration.name);
+    }).immediate();
+  }
+
+  return getSchemaVersion(db);
+}
@@ -0,0 +1,811 @@
+import Database from 'better-sqlite3-multiple-ciphers';
+import type { Migration } from './migrate';
+
+// Schema history, oldest first. Add a migration to change the schema; never
+// edit one that has shipped. Databases created before schema_version existed
+// run every migration, so the early ones only create what is missing.
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up(db) {
+      // Raw time-series data table
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS cpap_samples (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp TEXT NOT NULL,
+          leak_rate REAL,
+          pressure REAL,
+          flow_limitation REAL,
+          mask_on INTEGER DEFAULT 0,
+          session_id TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // Events table (apnea/hypopnea, leaks, etc.)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS cpap_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp TEXT NOT NULL,
+          event_type TEXT NOT NULL,
+          duration_seconds REAL,
+          severity REAL,
+          session_id TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS nightly_aggregates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL UNIQUE,
+          session_id TEXT,
+
+          -- Usage metrics
+          total_usage_minutes REAL,
+          mask_on_minutes REAL,
+
+          -- Pressure metrics
+          median_pressure REAL,
+          min_pressure REAL,
+          max_pressure REAL,
+          pressure_95th_percentile REAL,
+
+          -- Leak metrics
+          median_leak_rate REAL,
+          max_leak_rate REAL,
+          leak_95th_percentile REAL,
+          large_leak_minutes REAL,
+          large_leak_percent REAL,
+
+          -- Event metrics
+          ahi REAL,
+          apnea_count INTEGER,
+          hypopnea_count INTEGER,
+          total_events INTEGER,
+
+          -- Flow metrics
+          median_flow_limitation REAL,
+          max_flow_limitation REAL,
+
+          -- Quality indicators
+          sleep_quality_score REAL,
+
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // Evidence artifacts table for LLM tool outputs
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS evidence_artifacts (
+          id TEXT PRIMARY KEY,
+          tool_name TEXT NOT NULL,
+          parameters TEXT NOT NULL,
+          result TEXT NOT NULL,
+          provenance TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // User annotations (sleep diary)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sleep_annotations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL,
+          note TEXT,
+          factors TEXT, -- JSON array of factors like alcohol, congestion, etc.
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // Chat logs for debugging and history
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS chat_logs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          request TEXT NOT NULL,
+          response TEXT NOT NULL,
+          model_used TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // Key-value metadata. The upload route used to create this on demand to
+      // record the last upload; the imports ledger has replaced that.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS data_metadata (
+          key TEXT PRIMARY KEY,
+          value TEXT,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_cpap_samples_timestamp ON cpap_samples(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_cpap_samples_session ON cpap_samples(session_id);
+        CREATE INDEX IF NOT EXISTS idx_cpap_events_timestamp ON cpap_events(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_cpap_events_session ON cpap_events(session_id);
+        CREATE INDEX IF NOT EXISTS idx_nightly_aggregates_date ON nightly_aggregates(date);
+        CREATE INDEX IF NOT EXISTS idx_evidence_artifacts_tool ON evidence_artifacts(tool_name);
+        CREATE INDEX IF NOT EXISTS idx_sleep_annotations_date ON sleep_annotations(date);
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'import_profiles',
+    up(db) {
+      // Saved CSV column mappings, reused for later uploads with the same headers
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS import_profiles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          header_signature TEXT NOT NULL,
+          mapping TEXT NOT NULL, -- JSON: field -> header
+          units TEXT NOT NULL,   -- JSON: field -> unit
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_import_profiles_signature ON import_profiles(header_signature);
+      `);
+    }
+  },
+  {
+    version: 3,
+    name: 'unique_samples_and_events',
+    up(db) {
+      // One sample per timestamp and one event per timestamp and type, so
+      // re-imports merge instead of duplicating. Keep the first copy of any
+      // duplicates stored before.
+      if (!hasIndex(db, 'idx_cpap_samples_unique')) {
+        db.exec(`
+          DELETE FROM cpap_samples WHERE id NOT IN (
+            SELECT MIN(id) FROM cpap_samples GROUP BY timestamp
+          );
+          CREATE UNIQUE INDEX idx_cpap_samples_unique ON cpap_samples(timestamp);
+        `);
+      }
+
+      if (!hasIndex(db, 'idx_cpap_events_unique')) {
+        db.exec(`
+          DELETE FROM cpap_events WHERE id NOT IN (
+            SELECT MIN(id) FROM cpap_events GROUP BY timestamp, event_type
+          );
+          CREATE UNIQUE INDEX idx_cpap_events_unique ON cpap_events(timestamp, event_type);
+        `);
+      }
+    }
+  },
+  {
+    version: 4,
+    name: 'sessions',
+    up(db) {
+      // Therapy sessions: runs of mask-on samples, assigned to the sleep day they start in
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          sleep_day TEXT NOT NULL,
+          start_time TEXT NOT NULL,
+          end_time TEXT NOT NULL,
+          duration_minutes REAL NOT NULL,
+          device TEXT,
+          sample_count INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_sessions_sleep_day ON sessions(sleep_day);
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: 'app_settings',
+    up(db) {
+      // User settings (time zone, sleep-day boundary, session gap)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS app_settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'session_sampling_interval',
+    up(db) {
+      addColumnIfMissing(db, 'sessions', 'sampling_interval_seconds', 'REAL');
+    }
+  },
+  {
+    version: 7,
+    name: 'import_jobs',
+    up(db) {
+      // Background uploads. Live progress is kept in memory while a job runs
+      // (the import's transaction holds the write lock); the row is written
+      // when the job is queued, starts and finishes.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS import_jobs (
+          id TEXT PRIMARY KEY,
+          file_name TEXT NOT NULL,
+          file_size INTEGER,
+          status TEXT NOT NULL, -- queued, running, completed, failed, cancelled
+          progress TEXT,        -- JSON: phase, rows parsed, nights computed
+          errors TEXT,          -- JSON array
+          result TEXT,          -- JSON IngestResult once finished
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          finished_at DATETIME
+        );
+        CREATE INDEX IF NOT EXISTS idx_import_jobs_created ON import_jobs(created_at);
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: 'imports_ledger',
+    up(db) {
+      // Ledger of every import. Samples, events and nightly aggregates point
+      // back at the import that wrote them, so an import can be undone.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS imports (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_name TEXT,
+          file_hash TEXT,               -- SHA-256 of the uploaded file
+          file_size INTEGER,
+          source_format TEXT NOT NULL,  -- CSV layout, 'resmed' or 'prs1'
+          rows_new INTEGER,
+          rows_duplicated INTEGER,
+          rows_updated INTEGER,
+          samples_imported INTEGER,
+          events_imported INTEGER,
+          nights_imported INTEGER,
+          date_start TEXT,
+          date_end TEXT,
+          errors TEXT,                  -- JSON array
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          undone_at DATETIME
+        );
+      `);
+
+      addColumnIfMissing(db, 'cpap_samples', 'import_id', 'INTEGER');
+      addColumnIfMissing(db, 'cpap_events', 'import_id', 'INTEGER');
+      addColumnIfMissing(db, 'nightly_aggregates', 'import_id', 'INTEGER'); // import that last wrote the row
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_imports_hash ON imports(file_hash);
+        CREATE INDEX IF NOT EXISTS idx_cpap_samples_import ON cpap_samples(import_id);
+        CREATE INDEX IF NOT EXISTS idx_cpap_events_import ON cpap_events(import_id);
+        CREATE INDEX IF NOT EXISTS idx_nightly_aggregates_import ON nightly_aggregates(import_id);
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: 'oximetry',
+    up(db) {
+      // Pulse oximetry readings, assigned to the CPAP session they fall in
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS oximetry_samples (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp TEXT NOT NULL,
+          spo2 REAL,       -- %
+          pulse_rate REAL, -- bpm
+          session_id TEXT,
+          import_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_oximetry_samples_unique ON oximetry_samples(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_oximetry_samples_session ON oximetry_samples(session_id);
+        CREATE INDEX IF NOT EXISTS idx_oximetry_samples_import ON oximetry_samples(import_id);
+      `);
+
+      for (const column of [
+        'odi_3', 'odi_4', 't90_minutes', 'min_spo2', 'median_spo2',
+        'min_pulse_rate', 'median_pulse_rate', 'max_pulse_rate'
+      ]) {
+        addColumnIfMissing(db, 'nightly_aggregates', column, 'REAL');
+      }
+      addColumnIfMissing(db, 'imports', 'oximetry_imported', 'INTEGER');
+    }
+  },
+  {
+    version: 10,
+    name: 'normalized_event_types',
+    up(db) {
+      // Canonical type (see lib/data/events); NULL if unrecognised
+      addColumnIfMissing(db, 'cpap_events', 'normalized_type', 'TEXT');
+      for (const column of ['oai', 'cai', 'hi', 'rera_index', 'csr_minutes']) {
+        addColumnIfMissing(db, 'nightly_aggregates', column, 'REAL');
+      }
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_cpap_events_normalized ON cpap_events(normalized_type);
+      `);
+
+      // Events stored before types were normalized; their source isn't
+      // known, so only the common names are matched (as they were when this
+      // migration shipped)
+      const untyped = db.prepare(`
+        SELECT DISTINCT event_type FROM cpap_events WHERE normalized_type IS NULL
+      `).pluck().all() as string[];
+      const setNormalizedType = db.prepare(`
+        UPDATE cpap_events SET normalized_type = ? WHERE event_type = ? AND normalized_type IS NULL
+      `);
+      for (const eventType of untyped) {
+        const normalized = COMMON_EVENT_ALIASES_V10[eventType.toLowerCase().replace(/[^a-z0-9]/g, '')];
+        if (normalized) setNormalizedType.run(normalized, eventType);
+      }
+    }
+  },
+  {
+    version: 11,
+    name: 'waveform_chunks',
+    up(db) {
+      // High-resolution flow and pressure signals in fixed-length int16 chunks
+      // (see lib/data/waveforms), assigned to the session their first sample is in
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS waveform_chunks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          channel TEXT NOT NULL,          -- flow, pressure
+          start_time TEXT NOT NULL,       -- first sample, wall-clock
+          start_ms INTEGER NOT NULL,      -- the same in milliseconds, for sub-second offsets
+          end_ms INTEGER NOT NULL,
+          sample_rate REAL NOT NULL,      -- Hz
+          sample_count INTEGER NOT NULL,
+          unit TEXT,
+          scale REAL NOT NULL,            -- physical value = raw * scale + value_offset
+          value_offset REAL NOT NULL,
+          data BLOB NOT NULL,             -- int16 little endian
+          session_id TEXT,
+          import_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_waveform_chunks_unique ON waveform_chunks(channel, start_ms);
+        CREATE INDEX IF NOT EXISTS idx_waveform_chunks_start ON waveform_chunks(start_time);
+        CREATE INDEX IF NOT EXISTS idx_waveform_chunks_session ON waveform_chunks(session_id);
+        CREATE INDEX IF NOT EXISTS idx_waveform_chunks_import ON waveform_chunks(import_id);
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: 'therapy_settings',
+    up(db) {
+      // Machine settings from a sleep day on (see lib/data/therapy-settings):
+      // one record per day from each device or CSV import, plus manual entries
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS therapy_settings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          effective_date TEXT NOT NULL, -- sleep day
+          mode TEXT,                    -- CPAP, APAP, BiLevel, ASV
+          pressure REAL,                -- fixed pressure, cmH2O
+          min_pressure REAL,            -- auto-titrating range, cmH2O
+          max_pressure REAL,
+          epr REAL,                     -- EPR / Flex level
+          ramp_minutes REAL,
+          humidity REAL,                -- humidifier level
+          source TEXT NOT NULL,         -- resmed, prs1, csv, manual
+          import_id INTEGER,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_therapy_settings_unique ON therapy_settings(effective_date, source);
+        CREATE INDEX IF NOT EXISTS idx_therapy_settings_import ON therapy_settings(import_id);
+      `);
+    }
+  },
+  {
+    version: 13,
+    name: 'equipment',
+    up(db) {
+      // Masks, cushions, tubing and other consumables (see lib/data/equipment)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS equipment (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,          -- mask, cushion, headgear, tubing, filter, water_chamber, other
+          model TEXT NOT NULL,
+          started_on TEXT NOT NULL,    -- first sleep day in use
+          ended_on TEXT,               -- last sleep day in use; NULL while in use
+          replace_every_days INTEGER,  -- replacement schedule
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_equipment_started ON equipment(started_on);
+      `);
+    }
+  },
+  {
+    version: 14,
+    name: 'devices',
+    up(db) {
+      // CPAP machines, identified by serial number when their data is imported
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS devices (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          manufacturer TEXT NOT NULL,
+          model TEXT,
+          serial TEXT NOT NULL,
+          name TEXT, -- label chosen by the user
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_devices_serial ON devices(manufacturer, serial);
+      `);
+
+      // NULL when the source doesn't identify the machine
+      addColumnIfMissing(db, 'cpap_samples', 'device_id', 'INTEGER');
+      addColumnIfMissing(db, 'cpap_events', 'device_id', 'INTEGER');
+      addColumnIfMissing(db, 'sessions', 'device_id', 'INTEGER');
+
+      // Nightly aggregates get one row per night over every device (device_id
+      // NULL) plus one per device. The date column's UNIQUE constraint can't
+      // be dropped, so the table is rebuilt, keeping every row as the
+      // all-devices row for its night.
+      const columns = tableColumns(db, 'nightly_aggregates');
+      if (!columns.includes('device_id')) {
+        db.exec(`
+          ALTER TABLE nightly_aggregates RENAME TO nightly_aggregates_old;
+
+          CREATE TABLE nightly_aggregates (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            date TEXT NOT NULL,
+            device_id INTEGER, -- NULL on the row covering every device
+            session_id TEXT,
+            import_id INTEGER, -- import that last wrote the row
+
+            -- Usage metrics
+            total_usage_minutes REAL,
+            mask_on_minutes REAL,
+
+            -- Pressure metrics
+            median_pressure REAL,
+            min_pressure REAL,
+            max_pressure REAL,
+            pressure_95th_percentile REAL,
+
+            -- Leak metrics
+            median_leak_rate REAL,
+            max_leak_rate REAL,
+            leak_95th_percentile REAL,
+            large_leak_minutes REAL,
+            large_leak_percent REAL,
+
+            -- Event metrics
+            ahi REAL,
+            apnea_count INTEGER,
+            hypopnea_count INTEGER,
+            total_events INTEGER,
+            oai REAL,
+            cai REAL,
+            hi REAL,
+            rera_index REAL,
+            csr_minutes REAL,
+
+            -- Flow metrics
+            median_flow_limitation REAL,
+            max_flow_limitation REAL,
+
+            -- Quality indicators
+            sleep_quality_score REAL,
+
+            -- Oximetry metrics
+            odi_3 REAL,
+            odi_4 REAL,
+            t90_minutes REAL,
+            min_spo2 REAL,
+            median_spo2 REAL,
+            min_pulse_rate REAL,
+            median_pulse_rate REAL,
+            max_pulse_rate REAL,
+
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+          );
+
+          INSERT INTO nightly_aggregates (${columns.join(', ')})
+          SELECT ${columns.join(', ')} FROM nightly_aggregates_old;
+          DROP TABLE nightly_aggregates_old;
+        `);
+      }
+
+      // The rebuild drops the table's indexes along with the old copy
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_nightly_aggregates_date ON nightly_aggregates(date);
+        CREATE INDEX IF NOT EXISTS idx_nightly_aggregates_import ON nightly_aggregates(import_id);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_nightly_aggregates_night ON nightly_aggregates(date, IFNULL(device_id, 0));
+        CREATE INDEX IF NOT EXISTS idx_nightly_aggregates_device ON nightly_aggregates(device_id);
+        CREATE INDEX IF NOT EXISTS idx_sessions_device ON sessions(device_id);
+      `);
+    }
+  },
+  {
+    version: 15,
+    name: 'nightly_provenance',
+    up(db) {
+      // derived from imported data, or manual (see lib/data/manual-nights)
+      addColumnIfMissing(db, 'nightly_aggregates', 'provenance', `TEXT NOT NULL DEFAULT 'derived'`);
+    }
+  },
+  {
+    version: 16,
+    name: 'users',
+    up(db) {
+      // Profiles sharing the instance (see lib/data/users). Everything stored
+      // before profiles existed goes to the first one.
+      db.exec(`
+        CREATE TABLE users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO users (id, name) VALUES (1, 'Default');
+      `);
+
+      for (const table of [
+        'cpap_samples', 'cpap_events', 'oximetry_samples', 'waveform_chunks', 'sessions',
+        'nightly_aggregates', 'therapy_settings', 'equipment', 'devices', 'imports', 'import_jobs',
+        'evidence_artifacts', 'chat_logs', 'sleep_annotations'
+      ]) {
+        db.exec(`
+          ALTER TABLE ${table} ADD COLUMN user_id INTEGER;
+          UPDATE ${table} SET user_id = 1;
+        `);
+      }
+
+      // Settings are per profile; the key alone was the primary key
+      db.exec(`
+        ALTER TABLE app_settings RENAME TO app_settings_old;
+        CREATE TABLE app_settings (
+          user_id INTEGER NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (user_id, key)
+        );
+        INSERT INTO app_settings (user_id, key, value, updated_at)
+        SELECT 1, key, value, updated_at FROM app_settings_old;
+        DROP TABLE app_settings_old;
+      `);
+
+      // Uniqueness only holds within a profile: two people can have the same
+      // night, and two machines the same serial
+      db.exec(`
+        DROP INDEX idx_cpap_samples_unique;
+        CREATE UNIQUE INDEX idx_cpap_samples_unique ON cpap_samples(user_id, timestamp);
+        DROP INDEX idx_cpap_events_unique;
+        CREATE UNIQUE INDEX idx_cpap_events_unique ON cpap_events(user_id, timestamp, event_type);
+        DROP INDEX idx_oximetry_samples_unique;
+        CREATE UNIQUE INDEX idx_oximetry_samples_unique ON oximetry_samples(user_id, timestamp);
+        DROP INDEX idx_waveform_chunks_unique;
+        CREATE UNIQUE INDEX idx_waveform_chunks_unique ON waveform_chunks(user_id, channel, start_ms);
+        DROP INDEX idx_nightly_aggregates_night;
+        CREATE UNIQUE INDEX idx_nightly_aggregates_night ON nightly_aggregates(user_id, date, IFNULL(device_id, 0));
+        DROP INDEX idx_therapy_settings_unique;
+        CREATE UNIQUE INDEX idx_therapy_settings_unique ON therapy_settings(user_id, effective_date, source);
+        DROP INDEX idx_devices_serial;
+        CREATE UNIQUE INDEX idx_devices_serial ON devices(user_id, manufacturer, serial);
+
+        CREATE INDEX idx_sessions_user ON sessions(user_id, sleep_day);
+        CREATE INDEX idx_equipment_user ON equipment(user_id, started_on);
+        CREATE INDEX idx_imports_user ON imports(user_id);
+        CREATE INDEX idx_import_jobs_user ON import_jobs(user_id, created_at);
+        CREATE INDEX idx_evidence_artifacts_user ON evidence_artifacts(user_id);
+        CREATE INDEX idx_chat_logs_user ON chat_logs(user_id);
+        CREATE INDEX idx_sleep_annotations_user ON sleep_annotations(user_id, date);
+      `);
+    }
+  },
+  {
+    version: 17,
+    name: 'auth',
+    up(db) {
+      // Sign-in (see lib/auth). Profiles start without a password and can't
+      // sign in until one is set.
+      db.exec(`
+        ALTER TABLE users ADD COLUMN password_hash TEXT;
+
+        CREATE TABLE auth_sessions (
+          id TEXT PRIMARY KEY, -- SHA-256 of the token in the session cookie
+          user_id INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          expires_at DATETIME NOT NULL
+        );
+        CREATE INDEX idx_auth_sessions_user ON auth_sessions(user_id);
+      `);
+    }
+  },
+  {
+    version: 18,
+    name: 'api_tokens',
+    up(db) {
+      // Personal tokens for scripts (see lib/auth/tokens)
+      db.exec(`
+        CREATE TABLE api_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the token
+          prefix TEXT NOT NULL, -- start of the token, to tell tokens apart
+          scopes TEXT NOT NULL, -- JSON array
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_used_at DATETIME
+        );
+        CREATE INDEX idx_api_tokens_user ON api_tokens(user_id);
+      `);
+    }
+  },
+  {
+    version: 19,
+    name: 'installation',
+    up(db) {
+      // Identifies the installation in its backups (see lib/db/backup)
+      db.exec(`
+        CREATE TABLE installation (id TEXT NOT NULL);
+        INSERT INTO installation (id) VALUES (lower(hex(randomblob(16))));
+      `);
+    }
+  },
+  {
+    version: 20,
+    name: 'import_jobs_file',
+    up(db) {
+      // Import jobs moved to their own file (see lib/db/index) so their
+      // progress can be saved while an import holds this database's write
+      // lock. Past imports remain in the imports ledger.
+      db.exec(`DROP TABLE IF EXISTS import_jobs`);
+    }
+  },
+  {
+    version: 21,
+    name: 'import_profiles_per_user',
+    up(db) {
+      // Column mappings belong to a profile, their names unique within it.
+      // Every profile could use the mappings saved so far, so each keeps a copy.
+      db.exec(`
+        ALTER TABLE import_profiles RENAME TO import_profiles_old;
+        DROP INDEX idx_import_profiles_signature;
+        CREATE TABLE import_profiles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          header_signature TEXT NOT NULL,
+          mapping TEXT NOT NULL, -- JSON: field -> header
+          units TEXT NOT NULL,   -- JSON: field -> unit
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (user_id, name)
+        );
+        CREATE INDEX idx_import_profiles_signature ON import_profiles(user_id, header_signature);
+        INSERT INTO import_profiles (user_id, name, header_signature, mapping, units, created_at, updated_at)
+        SELECT users.id, p.name, p.header_signature, p.mapping, p.units, p.created_at, p.updated_at
+        FROM import_profiles_old p CROSS JOIN users
+        ORDER BY users.id, p.id;
+        DROP TABLE import_profiles_old;
+      `);
+    }
+  },
+  {
+    version: 22,
+    name: 'owner',
+    up(db) {
+      // The first profile, which sets the installation up, is its owner (see
+      // lib/data/users)
+      db.exec(`
+        ALTER TABLE users ADD COLUMN is_owner INTEGER NOT NULL DEFAULT 0;
+        UPDATE users SET is_owner = 1 WHERE id = (SELECT MIN(id) FROM users);
+      `);
+    }
+  },
+  {
+    version: 23,
+    name: 'device_unique_rows',
+    up(db) {
+      // Two machines can record the same second (e.g. a travel unit used the
+      // same night); their samples and events are kept apart rather than
+      // merged into one row. Rows without a device count as their own.
+      db.exec(`
+        DROP INDEX idx_cpap_samples_unique;
+        CREATE UNIQUE INDEX idx_cpap_samples_unique ON cpap_samples(user_id, timestamp, IFNULL(device_id, 0));
+        DROP INDEX idx_cpap_events_unique;
+        CREATE UNIQUE INDEX idx_cpap_events_unique ON cpap_events(user_id, timestamp, event_type, IFNULL(device_id, 0));
+      `);
+    }
+  },
+  {
+    version: 24,
+    name: 'import_shared_rows',
+    up(db) {
+      // A stored row carries the import_id of the import that first wrote it.
+      // Later imports that supply the same row are listed here, so undoing the
+      // first one hands the row over instead of deleting it.
+      db.exec(`
+        CREATE TABLE import_shared_rows (
+          user_id INTEGER NOT NULL,
+          import_id INTEGER NOT NULL,
+          row_table TEXT NOT NULL,
+          row_id INTEGER NOT NULL,
+          PRIMARY KEY (row_table, row_id, import_id)
+        );
+        CREATE INDEX idx_import_shared_rows_import ON import_shared_rows(import_id);
+      `);
+    }
+  },
+  {
+    version: 25,
+    name: 'import_time_zone',
+    up(db) {
+      // Zone given with an upload (a file recorded while travelling); the
+      // nights it supplied are measured in it when they are recalculated
+      db.exec(`ALTER TABLE imports ADD COLUMN time_zone TEXT`);
+    }
+  },
+  {
+    version: 26,
+    name: 'import_completed_at',
+    up(db) {
+      // An import commits its rows batch by batch; until it finishes its
+      // ledger row has no completion time, and if it never finishes (the
+      // server stopped) the next import removes what it wrote
+      db.exec(`
+        ALTER TABLE imports ADD COLUMN completed_at DATETIME;
+        UPDATE imports SET completed_at = created_at;
+      `);
+    }
+  }
+];
+
+// Frozen copy of the common event names in lib/data/events for migration 10;
+// later changes to that table must not change what the migration writes
+const COMMON_EVENT_ALIASES_V10: Record<string, string> = {
+  oa: 'OA',
+  obstructive: 'OA',
+  obstructiveapnea: 'OA',
+  obstructiveapnoea: 'OA',
+  ca: 'CA',
+  central: 'CA',
+  centralapnea: 'CA',
+  centralapnoea: 'CA',
+  clearairway: 'CA',
+  clearairwayapnea: 'CA',
+  ua: 'UA',
+  apnea: 'UA',
+  apnoea: 'UA',
+  unclassifiedapnea: 'UA',
+  unknownapnea: 'UA',
+  h: 'H',
+  hypopnea: 'H',
+  hypopnoea: 'H',
+  rera: 'RERA',
+  re: 'RERA',
+  csr: 'CSR',
+  cheynestokes: 'CSR',
+  cheynestokesrespiration: 'CSR',
+  periodicbreathing: 'CSR',
+  pb: 'CSR',
+  ll: 'LL',
+  largeleak: 'LL',
+  fl: 'FL',
+  flowlimitation: 'FL',
+  vs: 'VS',
+  snore: 'VS',
+  vibratorysnore: 'VS',
+  pp: 'PP',
+  pressurepulse: 'PP'
+};
+
+function tableColumns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+// Databases created before schema_version may already have the column
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string) {
+  if (!tableColumns(db, table).includes(column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+function hasIndex(db: Database.Database, name: string): boolean {
+  return db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'index' AND name = ?`).get(name) !== undefined;
+}
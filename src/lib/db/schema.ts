@@ -1,118 +1,29 @@
-import Database from 'better-sqlite3';
+import Database from 'better-sqlite3-multiple-ciphers';
+import { runMigrations } from './migrate';
 
+// Tables are created and changed by the versioned migrations in ./migrations
 export function initDatabase(db: Database.Database) {
-  // Raw time-series data table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS cpap_samples (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      timestamp TEXT NOT NULL,
-      leak_rate REAL,
-      pressure REAL,
-      flow_limitation REAL,
-      mask_on INTEGER DEFAULT 0,
-      session_id TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
-
-  // Events table (apnea/hypopnea, leaks, etc.)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS cpap_events (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      timestamp TEXT NOT NULL,
-      event_type TEXT NOT NULL,
-      duration_seconds REAL,
-      severity REAL,
-      session_id TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
-
-  // Nightly aggregates table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS nightly_aggregates (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      date TEXT NOT NULL UNIQUE,
-      session_id TEXT,
-      
-      -- Usage metrics
-      total_usage_minutes REAL,
-      mask_on_minutes REAL,
-      
-      -- Pressure metrics
-      median_pressure REAL,
-      min_pressure REAL,
-      max_pressure REAL,
-      pressure_95th_percentile REAL,
-      
-      -- Leak metrics
-      median_leak_rate REAL,
-      max_leak_rate REAL,
-      leak_95th_percentile REAL,
-      large_leak_minutes REAL,
-      large_leak_percent REAL,
-      
-      -- Event metrics
-      ahi REAL,
-      apnea_count INTEGER,
-      hypopnea_count INTEGER,
-      total_events INTEGER,
-      
-      -- Flow metrics
-      median_flow_limitation REAL,
-      max_flow_limitation REAL,
-      
-      -- Quality indicators
-      sleep_quality_score REAL,
-      
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
+  runMigrations(db);
+}
 
-  // Evidence artifacts table for LLM tool outputs
+// The import jobs file, attached as `jobs`, only holds job bookkeeping, so its
+// table is created here rather than migrated
+export function initJobsDatabase(db: Database.Database) {
   db.exec(`
-    CREATE TABLE IF NOT EXISTS evidence_artifacts (
+    CREATE TABLE IF NOT EXISTS jobs.import_jobs (
       id TEXT PRIMARY KEY,
-      tool_name TEXT NOT NULL,
-      parameters TEXT NOT NULL,
-      result TEXT NOT NULL,
-      provenance TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
-
-  // User annotations (sleep diary)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS sleep_annotations (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      date TEXT NOT NULL,
-      note TEXT,
-      factors TEXT, -- JSON array of factors like alcohol, congestion, etc.
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
-
-  // Chat logs for debugging and history
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS chat_logs (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      request TEXT NOT NULL,
-      response TEXT NOT NULL,
-      model_used TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      user_id INTEGER NOT NULL,
+      file_name TEXT NOT NULL,
+      file_size INTEGER,
+      status TEXT NOT NULL, -- queued, running, completed, failed, cancelled
+      progress TEXT,        -- JSON: phase, rows parsed, nights computed
+      errors TEXT,          -- JSON array
+      result TEXT,          -- JSON IngestResult once finished
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      finished_at DATETIME
     );
-  `);
-
-  // Create indexes for performance
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_cpap_samples_timestamp ON cpap_samples(timestamp);
-    CREATE INDEX IF NOT EXISTS idx_cpap_samples_session ON cpap_samples(session_id);
-    CREATE INDEX IF NOT EXISTS idx_cpap_events_timestamp ON cpap_events(timestamp);
-    CREATE INDEX IF NOT EXISTS idx_cpap_events_session ON cpap_events(session_id);
-    CREATE INDEX IF NOT EXISTS idx_nightly_aggregates_date ON nightly_aggregates(date);
-    CREATE INDEX IF NOT EXISTS idx_evidence_artifacts_tool ON evidence_artifacts(tool_name);
-    CREATE INDEX IF NOT EXISTS idx_sleep_annotations_date ON sleep_annotations(date);
+    CREATE INDEX IF NOT EXISTS jobs.idx_import_jobs_user ON import_jobs(user_id, created_at);
   `);
 }
 
@@ -124,6 +35,36 @@ export const METRIC_DEFINITIONS = {
     description: 'Number of apnea and hypopnea events per hour of sleep',
     category: 'events'
   },
+  oai: {
+    name: 'Obstructive Apnea Index',
+    unit: 'events/hour',
+    description: 'Obstructive apneas per hour of sleep',
+    category: 'events'
+  },
+  cai: {
+    name: 'Central Apnea Index',
+    unit: 'events/hour',
+    description: 'Central (clear airway) apneas per hour of sleep',
+    category: 'events'
+  },
+  hi: {
+    name: 'Hypopnea Index',
+    unit: 'events/hour',
+    description: 'Hypopneas per hour of sleep',
+    category: 'events'
+  },
+  rera_index: {
+    name: 'RERA Index',
+    unit: 'events/hour',
+    description: 'Respiratory effort-related arousals per hour of sleep',
+    category: 'events'
+  },
+  csr_minutes: {
+    name: 'Cheyne-Stokes Breathing',
+    unit: 'minutes',
+    description: 'Time flagged as Cheyne-Stokes or periodic breathing',
+    category: 'events'
+  },
   leak_rate: {
     name: 'Leak Rate',
     unit: 'L/min',
@@ -165,6 +106,54 @@ export const METRIC_DEFINITIONS = {
     unit: 'score (0-100)',
     description: 'Overall sleep quality based on multiple factors',
     category: 'quality'
+  },
+  odi_3: {
+    name: 'Oxygen Desaturation Index (3%)',
+    unit: 'events/hour',
+    description: 'SpO2 drops of at least 3 points lasting 10 seconds or more, per hour of oximetry',
+    category: 'oximetry'
+  },
+  odi_4: {
+    name: 'Oxygen Desaturation Index (4%)',
+    unit: 'events/hour',
+    description: 'SpO2 drops of at least 4 points lasting 10 seconds or more, per hour of oximetry',
+    category: 'oximetry'
+  },
+  t90_minutes: {
+    name: 'Time Below 90% SpO2',
+    unit: 'minutes',
+    description: 'Time with blood oxygen saturation below 90%',
+    category: 'oximetry'
+  },
+  min_spo2: {
+    name: 'Minimum SpO2',
+    unit: '%',
+    description: 'Lowest blood oxygen saturation of the night',
+    category: 'oximetry'
+  },
+  median_spo2: {
+    name: 'Median SpO2',
+    unit: '%',
+    description: 'Median blood oxygen saturation of the night',
+    category: 'oximetry'
+  },
+  min_pulse_rate: {
+    name: 'Minimum Pulse Rate',
+    unit: 'bpm',
+    description: 'Lowest pulse rate recorded by the oximeter',
+    category: 'oximetry'
+  },
+  median_pulse_rate: {
+    name: 'Median Pulse Rate',
+    unit: 'bpm',
+    description: 'Median pulse rate recorded by the oximeter',
+    category: 'oximetry'
+  },
+  max_pulse_rate: {
+    name: 'Maximum Pulse Rate',
+    unit: 'bpm',
+    description: 'Highest pulse rate recorded by the oximeter',
+    category: 'oximetry'
   }
 } as const;
 
@@ -0,0 +1,87 @@
+import Database from 'better-sqlite3-multiple-ciphers';
+import { getDatabase } from './index';
+import { isValidTimeZone } from '@/lib/data/time';
+import { DEFAULT_SESSION_GAP_MINUTES, DEFAULT_SLEEP_DAY_START_HOUR } from '@/lib/data/sessions';
+
+// Per-profile settings stored in app_settings as key/value pairs
+
+export interface AppSettings {
+  // IANA zone the device clock follows
+  timezone: string;
+  // Hour (0-23) at which one sleep day ends and the next begins
+  sleepDayStartHour: number;
+  // Gap between samples that starts a new session
+  sessionGapMinutes: number;
+}
+
+const SETTING_KEYS: Record<keyof AppSettings, string> = {
+  timezone: 'timezone',
+  sleepDayStartHour: 'sleep_day_start_hour',
+  sessionGapMinutes: 'session_gap_minutes'
+};
+
+function defaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// db is the connection to read through, e.g. an import's inside its transaction
+export function getSettings(userId: number, db: Database.Database = getDatabase()): AppSettings {
+  const rows = db.prepare(`
+    SELECT key, value FROM app_settings WHERE user_id = ?
+  `).all(userId) as { key: string; value: string }[];
+  const stored = new Map(rows.map(row => [row.key, row.value]));
+
+  return {
+    timezone: stored.get(SETTING_KEYS.timezone) ?? defaultTimeZone(),
+    sleepDayStartHour: Number(stored.get(SETTING_KEYS.sleepDayStartHour) ?? DEFAULT_SLEEP_DAY_START_HOUR),
+    sessionGapMinutes: Number(stored.get(SETTING_KEYS.sessionGapMinutes) ?? DEFAULT_SESSION_GAP_MINUTES)
+  };
+}
+
+// Settings with changes applied; an undefined change leaves the setting as it is
+export function applySettingChanges(settings: AppSettings, changes: Partial<AppSettings>): AppSettings {
+  return {
+    timezone: changes.timezone ?? settings.timezone,
+    sleepDayStartHour: changes.sleepDayStartHour ?? settings.sleepDayStartHour,
+    sessionGapMinutes: changes.sessionGapMinutes ?? settings.sessionGapMinutes
+  };
+}
+
+export function validateSettings(changes: Partial<AppSettings>) {
+  if (changes.timezone !== undefined && !isValidTimeZone(changes.timezone)) {
+    throw new Error(`Unknown time zone: ${changes.timezone}`);
+  }
+  if (changes.sleepDayStartHour !== undefined &&
+      !(Number.isInteger(changes.sleepDayStartHour) &&
+        changes.sleepDayStartHour >= 0 && changes.sleepDayStartHour <= 23)) {
+    throw new Error('Sleep day start hour must be a whole hour between 0 and 23');
+  }
+  if (changes.sessionGapMinutes !== undefined &&
+      !(Number.isFinite(changes.sessionGapMinutes) && changes.sessionGapMinutes > 0)) {
+    throw new Error('Session gap must be a positive number of minutes');
+  }
+}
+
+export function updateSettings(
+  userId: number,
+  changes: Partial<AppSettings>,
+  db: Database.Database = getDatabase()
+): AppSettings {
+  validateSettings(changes);
+
+  const upsert = db.prepare(`
+    INSERT INTO app_settings (user_id, key, value, updated_at)
+    VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `);
+
+  db.transaction(() => {
+    for (const name of Object.keys(SETTING_KEYS) as Array<keyof AppSettings>) {
+      if (changes[name] !== undefined) {
+        upsert.run(userId, SETTING_KEYS[name], String(changes[name]));
+      }
+    }
+  })();
+
+  return getSettings(userId, db);
+}
@@ -1,6 +1,7 @@
 import { METRIC_DEFINITIONS, MetricName } from '@/lib/db/schema';
 import { ToolResult } from '@/lib/analytics/tools';
 import { getLangfuseClient } from '@/lib/observability/langfuse';
+import { listDevices } from '@/lib/data/devices';
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
@@ -40,6 +41,23 @@ export interface Citation {
   snippet: string;
 }
 
+// Optional on every nightly tool; omitted means all devices combined
+const DEVICE_ID_PROPERTY = {
+  deviceId: {
+    type: 'number',
+    description: 'Only use nights recorded by this device id (omit for all devices combined)'
+  }
+};
+
+// Optional on the tools that read nightly metrics
+const NIGHT_FILTER_PROPERTIES = {
+  ...DEVICE_ID_PROPERTY,
+  includeManual: {
+    type: 'boolean',
+    description: 'Include nights entered by hand from the machine display (default true)'
+  }
+};
+
 // Tool definitions for function calling
 export const TOOL_DEFINITIONS = [
   {
@@ -55,14 +73,15 @@ export const TOOL_DEFINITIONS = [
             end: { type: 'string', description: 'End date in YYYY-MM-DD format' }
           },
           required: ['start', 'end']
-        }
+        },
+        ...NIGHT_FILTER_PROPERTIES
       },
       required: ['dateRange']
     }
   },
   {
     name: 'getTrends',
-    description: 'Analyze trends for a specific metric over time with rolling averages',
+    description: 'Analyze trends for a specific metric over time with rolling averages, split by machine settings period (mode, pressures, EPR, ramp, humidity)',
     parameters: {
       type: 'object',
       properties: {
@@ -83,7 +102,8 @@ export const TOOL_DEFINITIONS = [
           type: 'number', 
           description: 'Rolling average window in days (default: 7)',
           default: 7
-        }
+        },
+        ...NIGHT_FILTER_PROPERTIES
       },
       required: ['metric', 'dateRange']
     }
@@ -110,7 +130,8 @@ export const TOOL_DEFINITIONS = [
           type: 'number', 
           description: 'Z-score threshold for anomaly detection (default: 2)',
           default: 2
-        }
+        },
+        ...NIGHT_FILTER_PROPERTIES
       },
       required: ['metric', 'dateRange']
     }
@@ -136,14 +157,15 @@ export const TOOL_DEFINITIONS = [
             end: { type: 'string' }
           },
           required: ['start', 'end']
-        }
+        },
+        ...NIGHT_FILTER_PROPERTIES
       },
       required: ['metricA', 'metricB', 'dateRange']
     }
   },
   {
     name: 'compareRanges',
-    description: 'Compare metrics between two date ranges',
+    description: 'Compare metrics between two date ranges, labelled with the machine settings in force during each',
     parameters: {
       type: 'object',
       properties: {
@@ -167,7 +189,8 @@ export const TOOL_DEFINITIONS = [
           type: 'array', 
           items: { type: 'string', enum: Object.keys(METRIC_DEFINITIONS) },
           description: 'List of metrics to compare'
-        }
+        },
+        ...NIGHT_FILTER_PROPERTIES
       },
       required: ['rangeA', 'rangeB', 'metrics']
     }
@@ -181,11 +204,40 @@ export const TOOL_DEFINITIONS = [
         date: { 
           type: 'string', 
           description: 'Date in YYYY-MM-DD format'
-        }
+        },
+        ...DEVICE_ID_PROPERTY
       },
       required: ['date']
     }
   },
+  {
+    name: 'compareEquipmentChanges',
+    description: 'Compare metrics before and after each mask, cushion, tubing or other equipment change in a date range',
+    parameters: {
+      type: 'object',
+      properties: {
+        dateRange: {
+          type: 'object',
+          properties: {
+            start: { type: 'string', description: 'Start date in YYYY-MM-DD format' },
+            end: { type: 'string', description: 'End date in YYYY-MM-DD format' }
+          },
+          required: ['start', 'end']
+        },
+        windowDays: {
+          type: 'number',
+          description: 'Nights compared on each side of a change (default 14)'
+        },
+        metrics: {
+          type: 'array',
+          items: { type: 'string', enum: Object.keys(METRIC_DEFINITIONS) },
+          description: 'List of metrics to compare (default ahi, leak_rate, large_leak_percent)'
+        },
+        ...NIGHT_FILTER_PROPERTIES
+      },
+      required: ['dateRange']
+    }
+  },
   {
     name: 'executeCustomQuery',
     description: 'Execute a custom SQL query on CPAP data for analysis not covered by standard tools',
@@ -230,7 +282,8 @@ export class OpenRouterClient {
     }
   }
 
-  async chat(request: ChatRequest): Promise<ChatResponse & { traceId?: string }> {
+  // Tools only read the data of the given profile
+  async chat(request: ChatRequest, userId: number): Promise<ChatResponse & { traceId?: string }> {
     const model = request.model || this.defaultModel;
     const langfuse = getLangfuseClient();
     const startTime = Date.now();
@@ -253,7 +306,7 @@ export class OpenRouterClient {
     // Build system message with strict instructions
     const systemMessage: ChatMessage = {
       role: 'system',
-      content: this.buildSystemPrompt(request)
+      content: this.buildSystemPrompt(request, userId)
     };
 
     // Prepare messages with context
@@ -306,15 +359,18 @@ export class OpenRouterClient {
       });
       
       for (const toolCall of toolCalls) {
-        const result = await this.executeToolCall(toolCall, trace);
+        const result = await this.executeToolCall(toolCall, userId, trace);
         executedToolCalls.push(toolCall);
         evidenceArtifacts.push(result.provenance.artifactId);
         toolResults[toolCall.id] = result;
 
         // Add tool result to messages (OpenRouter format)
+        const manualNights = result.provenance.manualNights ?? [];
+        const manualNote = manualNights.length > 0 ?
+          `\nNights entered by hand, not recorded by the machine: ${manualNights.join(', ')}` : '';
         messages.push({
           role: 'user',
-          content: `Tool result for ${toolCall.function.name}: ${JSON.stringify(result.data)}`
+          content: `Tool result for ${toolCall.function.name}: ${JSON.stringify(result.data)}${manualNote}`
         });
       }
       
@@ -376,7 +432,7 @@ export class OpenRouterClient {
         metadata: {
           validationPassed: validation,
           evidenceArtifacts: evidenceArtifacts,
-          userId: (request.userContext as any)?.userId,
+          userId,
           timeToFirstOutputMs: timeToFirstOutput
         }
       });
@@ -414,7 +470,7 @@ export class OpenRouterClient {
       },
       metadata: {
         validationPassed: true,
-        userId: (request.userContext as any)?.userId,
+        userId,
         timeToFirstOutputMs: Date.now() - startTime
       }
     });
@@ -444,11 +500,16 @@ export class OpenRouterClient {
     throw error;
   }
 
-  private buildSystemPrompt(request: ChatRequest): string {
+  private buildSystemPrompt(request: ChatRequest, userId: number): string {
     const dateRangeText = `Current date range: ${request.dateRange.start} to ${request.dateRange.end}`;
     const metricsText = request.selectedMetrics ? 
       `Focus metrics: ${request.selectedMetrics.join(', ')}` : '';
     const contextText = request.userContext ? `User context: ${request.userContext}` : '';
+    // Only worth mentioning once there's more than one machine to tell apart
+    const devices = listDevices(userId).filter(device => device.nights > 0);
+    const devicesText = devices.length > 1 ?
+      `Devices (pass deviceId to a tool to look at one machine; results otherwise combine all of them):\n${
+        devices.map(device => `- ${device.id}: ${device.label}, ${device.firstNight} to ${device.lastNight}`).join('\n')}` : '';
 
     return `You are a CPAP data analyst assistant. Your role is to help users understand their CPAP therapy data using ONLY the computed results from analytical tools.
 
@@ -457,10 +518,12 @@ CRITICAL RULES:
 2. ALWAYS cite your sources using artifact IDs in format [Artifact: ID].
 3. When explaining results, reference the specific tool outputs that provided the data.
 4. If data is missing or insufficient, clearly state that you cannot determine the answer.
+5. When a tool result lists nights entered by hand, say that their numbers were typed in from the machine's display rather than recorded from its data.
 
 ${dateRangeText}
 ${metricsText}
 ${contextText}
+${devicesText}
 
 Available metrics:
 ${Object.entries(METRIC_DEFINITIONS).map(([key, def]) => 
@@ -498,7 +561,7 @@ Remember: You are an explainer of computed results, not a source of medical advi
     return await response.json();
   }
 
-  private async executeToolCall(toolCall: ToolCall, trace?: any): Promise<ToolResult> {
+  private async executeToolCall(toolCall: ToolCall, userId: number, trace?: any): Promise<ToolResult> {
     const { name, arguments: args } = toolCall.function;
     const params = JSON.parse(args);
     const langfuse = trace || getLangfuseClient();
@@ -519,25 +582,30 @@ Remember: You are an explainer of computed results, not a source of medical advi
       let result: ToolResult;
       switch (name) {
         case 'getNightlySummary':
-          result = tools.getNightlySummary(params.dateRange);
+          result = tools.getNightlySummary(userId, params.dateRange, params.deviceId, params.includeManual);
           break;
         case 'getTrends':
-          result = tools.getTrends(params.metric, params.dateRange, params.window);
+          result = tools.getTrends(userId, params.metric, params.dateRange, params.window, params.deviceId, params.includeManual);
           break;
         case 'detectAnomalies':
-          result = tools.detectAnomalies(params.metric, params.dateRange, params.threshold);
+          result = tools.detectAnomalies(userId, params.metric, params.dateRange, params.threshold, params.deviceId, params.includeManual);
           break;
         case 'correlate':
-          result = tools.correlate(params.metricA, params.metricB, params.dateRange);
+          result = tools.correlate(userId, params.metricA, params.metricB, params.dateRange, params.deviceId, params.includeManual);
           break;
         case 'compareRanges':
-          result = tools.compareRanges(params.rangeA, params.rangeB, params.metrics);
+          result = tools.compareRanges(userId, params.rangeA, params.rangeB, params.metrics, params.deviceId, params.includeManual);
           break;
         case 'getSessionBreakdown':
-          result = tools.getSessionBreakdown(params.date);
+          result = tools.getSessionBreakdown(userId, params.date, params.deviceId);
+          break;
+        case 'compareEquipmentChanges':
+          result = tools.compareEquipmentChanges(
+            userId, params.dateRange, params.windowDays, params.metrics, params.deviceId, params.includeManual
+          );
           break;
         case 'executeCustomQuery':
-          result = await tools.executeCustomQuery(params.naturalLanguageQuery, params.dateRange);
+          result = await tools.executeCustomQuery(userId, params.naturalLanguageQuery, params.dateRange);
           break;
         default:
           throw new Error(`Unknown tool: ${name}`);
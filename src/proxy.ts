@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, sessionToken } from '@/lib/auth/sessions';
+import { authenticateApiToken, bearerToken, requiredScope } from '@/lib/auth/tokens';
+
+// Every page and API route requires a signed-in session, except what is
+// needed to sign in. Scripts can instead send an API token to the endpoints
+// its scopes cover.
+
+const PUBLIC_PATHS = ['/login', '/api/auth/login', '/api/auth/setup', '/api/auth/session'];
+
+// Never throws: a failed check answers 500 instead of letting the request through
+export function proxy(request: NextRequest) {
+  try {
+    return authorize(request);
+  } catch (error) {
+    console.error('Sign-in check error:', error);
+    return request.nextUrl.pathname.startsWith('/api/')
+      ? NextResponse.json({ error: 'Failed to check sign-in' }, { status: 500 })
+      : new NextResponse('Failed to check sign-in', { status: 500 });
+  }
+}
+
+function authorize(request: NextRequest): NextResponse {
+  const { pathname } = request.nextUrl;
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  const token = bearerToken(request);
+  if (token !== undefined) {
+    const scope = requiredScope(request.method, pathname);
+    if (scope === null) {
+      return NextResponse.json(
+        { error: 'API tokens cannot be used for this endpoint' },
+        { status: 403 }
+      );
+    }
+    if (authenticateApiToken(token, scope) === null) {
+      return NextResponse.json(
+        { error: `Invalid API token, or it lacks the ${scope} scope` },
+        { status: 401 }
+      );
+    }
+    return NextResponse.next();
+  }
+
+  if (getSessionUserId(sessionToken(request)) !== null) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'Sign-in required' },
+      { status: 401 }
+    );
+  }
+  return NextResponse.redirect(new URL('/login', request.url));
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)']
+};